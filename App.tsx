@@ -1,25 +1,205 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useGptTutor } from './hooks/useGptTutor';
-import { ConnectionState } from './types';
+import { useSessionHistory } from './hooks/useSessionHistory';
+import { useVocabulary } from './hooks/useVocabulary';
+import { useQuiz } from './hooks/useQuiz';
+import { useProfiles } from './hooks/useProfiles';
+import { useProgress } from './hooks/useProgress';
+import { ConnectionState, LearnerProfile, TurnState, TutorSession, UiLocale, VisualizerMode } from './types';
 import { AudioVisualizer } from './components/AudioVisualizer';
 import { ChatList } from './components/ChatList';
-import { Mic, MicOff, Phone, PhoneOff, Settings2 } from 'lucide-react';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SessionSidebar } from './components/SessionSidebar';
+import { ExportMenu } from './components/ExportMenu';
+import { SummaryMenu } from './components/SummaryMenu';
+import { UsageMenu } from './components/UsageMenu';
+import { Composer } from './components/Composer';
+import { FluencySummary } from './components/FluencySummary';
+import { SessionReport } from './components/SessionReport';
+import { VocabularyNotebook } from './components/VocabularyNotebook';
+import { QuizPanel } from './components/QuizPanel';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { ProfilePicker } from './components/ProfilePicker';
+import { ScenarioPicker } from './components/ScenarioPicker';
+import { getScenario } from './utils/scenarios';
+import { importSession } from './storage/sessionStore';
+import { activateProfile } from './storage/profileStore';
+import { PROVIDERS } from './providers';
+import { LOCALES, scenarioText, useI18n } from './i18n';
+import { AlertTriangle, AudioLines, BarChart3, BookOpen, FileText, Gauge, Globe, GraduationCap, Hand, History, Mic, MicOff, Phone, PhoneOff, Play, Settings2, UserRound, X } from 'lucide-react';
 
-const App: React.FC = () => {
+interface TutorAppProps {
+  profile: LearnerProfile;
+  onSwitchProfile: () => void;
+}
+
+const TutorApp: React.FC<TutorAppProps> = ({ profile, onSwitchProfile }) => {
   const {
     connectionState,
     connect,
-    disconnect,
+    endSession,
     messages,
-    volume,
+    micAnalyser,
+    outputAnalyser,
     isMicOn,
     toggleMic,
+    isTalking,
+    startTalking,
+    stopTalking,
+    sendText,
+    inputMode,
+    updateInputMode,
+    turnState,
+    error,
+    dismissError,
     apiKey,
-    setApiKey
-  } = useGptTutor();
+    setApiKey,
+    requiresApiKey,
+    proxyMode,
+    accessCode,
+    setAccessCode,
+    accessCodeRequired,
+    settings,
+    updateSettings,
+    transcription,
+    updateTranscription,
+    tts,
+    updateTts,
+    realtime,
+    updateRealtime,
+    activeSessionId,
+    summary,
+    report,
+    isGeneratingReport,
+    resumeSession,
+    startNewSession,
+    scenarioId,
+    level,
+    updatePractice,
+    explanationLanguage,
+    setExplanationLanguage,
+    autoCollectVocabulary,
+    setAutoCollectVocabulary,
+    usage,
+    usageSettings,
+    updateUsageSettings,
+    translateMessage,
+    playMessage,
+    playingMessageId,
+    createQuiz,
+    dictate
+  } = useGptTutor(profile);
+  const { locale, setLocale, t } = useI18n();
+  const { sessions, rename, remove } = useSessionHistory();
+  const vocabulary = useVocabulary();
+  const savedTerms = useMemo(() => new Set(vocabulary.cards.map(card => card.id)), [vocabulary.cards]);
+  const quiz = useQuiz();
+  const progress = useProgress(profile, sessions, vocabulary.cards);
 
-  const isConnected = connectionState === ConnectionState.CONNECTED;
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showFluency, setShowFluency] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showNotebook, setShowNotebook] = useState(false);
+  const [showQuiz, setShowQuiz] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('waveform');
+  // Past session opened from the sidebar, shown read-only in place of the live chat
+  const [viewedSessionId, setViewedSessionId] = useState<string | null>(null);
+  const viewedSession = sessions.find(s => s.id === viewedSessionId) ?? null;
+  // The stored copy of the live session lags behind streaming updates
+  const storedActiveSession = sessions.find(s => s.id === activeSessionId);
+  const exportableSession = viewedSession
+    ?? (storedActiveSession ? { ...storedActiveSession, messages } : null);
+
+  const isReconnecting = connectionState === ConnectionState.RECONNECTING;
+  // A reconnecting session keeps its controls; only requests are being retried
+  const isConnected = connectionState === ConnectionState.CONNECTED || isReconnecting;
   const isConnecting = connectionState === ConnectionState.CONNECTING;
+  const isIdle = !isConnected && !isConnecting;
+  const isTutorSpeaking = isConnected && turnState === TurnState.TUTOR_SPEAKING;
+  const isRealtime = realtime.mode === 'realtime';
+  const isPushToTalk = inputMode === 'push-to-talk' && !isRealtime;
+
+  // Hold Space to talk, unless the learner is typing somewhere
+  useEffect(() => {
+    if (!isPushToTalk || !isConnected) return;
+    const isTyping = (target: EventTarget | null) => target instanceof HTMLElement
+      && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // Releasing the key in another window never sends keyup here
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [isPushToTalk, isConnected, startTalking, stopTalking]);
+
+  const statusTitle = !isConnected
+    ? t('turn.start')
+    : isReconnecting
+      ? t('turn.reconnecting')
+      : turnState === TurnState.TUTOR_SPEAKING
+        ? t('turn.tutorSpeaking')
+        : turnState === TurnState.THINKING
+          ? t('turn.thinking')
+          : !isMicOn
+            ? t('turn.muted')
+            : isPushToTalk && !isTalking ? t('turn.holdSpace') : t('turn.listening');
+  const statusHint = !isConnected
+    ? t('hint.connect')
+    : isReconnecting
+      ? t('hint.reconnecting')
+      : isPushToTalk
+        ? isTalking ? t('hint.releaseToSend') : t('hint.pushToTalk')
+        : isTutorSpeaking
+          ? t('hint.interrupt')
+          : t('hint.speak');
+
+  const openSession = (session: TutorSession) => {
+    setViewedSessionId(session.id === activeSessionId ? null : session.id);
+  };
+
+  const handleResume = (session: TutorSession) => {
+    resumeSession(session);
+    setViewedSessionId(null);
+  };
+
+  const handleImport = async (session: TutorSession) => {
+    try {
+      const imported = await importSession(session);
+      setViewedSessionId(imported.id);
+      setShowHistory(true);
+    } catch (e) {
+      console.error('Failed to import session', e);
+      alert(t('import.failed'));
+    }
+  };
+
+  const handleEndSession = () => {
+    endSession();
+    // Wrap up with the feedback report when the learner said anything
+    if (messages.some(msg => msg.role === 'user')) setShowReport(true);
+  };
+
+  const handleNewSession = () => {
+    startNewSession();
+    setViewedSessionId(null);
+  };
 
   return (
     <div className="h-screen w-full flex flex-col bg-slate-950 text-slate-100 relative overflow-hidden">
@@ -27,63 +207,343 @@ const App: React.FC = () => {
       {/* Header */}
       <header className="flex-none p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur-md flex items-center justify-between z-10">
         <div className="flex items-center gap-3">
-          <div className="bg-indigo-500 p-2 rounded-lg">
+          <button
+            onClick={() => setShowHistory(prev => !prev)}
+            className={`p-2 rounded-lg transition-colors ${showHistory ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title={t('header.history')}
+          >
+             <History size={24} />
+          </button>
+          <ExportMenu session={exportableSession} onImport={handleImport} />
+          <SummaryMenu summary={viewedSession ? viewedSession.summary ?? null : summary} />
+          <button
+            onClick={() => setShowFluency(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title={t('fluency.open')}
+          >
+            <Gauge size={22} />
+          </button>
+          <button
+            onClick={() => setShowReport(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title={t('report.open')}
+          >
+            <FileText size={22} />
+          </button>
+          <button
+            onClick={() => setShowNotebook(true)}
+            className="relative p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title={vocabulary.dueCards.length
+              ? t('notebook.openDue', { count: vocabulary.dueCards.length })
+              : t('notebook.open')}
+          >
+            <BookOpen size={22} />
+            {vocabulary.dueCards.length > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-indigo-500 text-[10px] font-semibold text-white flex items-center justify-center">
+                {vocabulary.dueCards.length}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setShowQuiz(true)}
+            disabled={!isIdle}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+            title={isIdle ? t('quiz.open') : t('quiz.openDisabled')}
+          >
+            <GraduationCap size={22} />
+          </button>
+          <button
+            onClick={() => setShowProgress(prev => !prev)}
+            className={`p-2 rounded-lg transition-colors ${showProgress ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title={t('progress.open')}
+          >
+            <BarChart3 size={22} />
+          </button>
+          <UsageMenu
+            session={usage.session}
+            today={usage.today}
+            days={usage.days}
+            records={usage.records}
+            budget={usageSettings}
+          />
+          <button
+            onClick={() => setShowSettings(prev => !prev)}
+            className={`p-2 rounded-lg transition-colors ${showSettings ? 'bg-indigo-400' : 'bg-indigo-500 hover:bg-indigo-400'}`}
+            title={t('header.settings')}
+          >
              <Settings2 size={24} className="text-white" />
-          </div>
+          </button>
+          <button
+            onClick={onSwitchProfile}
+            disabled={!isIdle}
+            className="flex items-center gap-2 px-2 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+            title={isIdle ? t('profiles.switch') : t('profiles.switchDisabled')}
+          >
+            <UserRound size={22} />
+            <span className="text-sm font-medium max-w-[8rem] truncate">{profile.name}</span>
+          </button>
           <div>
-            <h1 className="text-lg font-bold text-white tracking-tight">English Practice Tutor</h1>
+            <h1 className="text-lg font-bold text-white tracking-tight">{t('app.title')}</h1>
             <div className="flex items-center gap-2">
-              <span className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 shadow-[0_0_8px_#22c55e]' : 'bg-slate-500'}`} />
+              <span className={`w-2 h-2 rounded-full ${
+                isReconnecting
+                  ? 'bg-amber-400 animate-pulse'
+                  : isConnected ? 'bg-green-500 shadow-[0_0_8px_#22c55e]' : 'bg-slate-500'
+              }`} />
               <span className="text-xs text-slate-400 font-medium uppercase tracking-wider">
-                {connectionState === ConnectionState.CONNECTED ? 'Live' : 'Offline'}
+                {isReconnecting ? t('status.reconnecting') : isConnected ? t('status.live') : t('status.offline')}
               </span>
+              <span className="text-xs text-slate-500">· {scenarioText(t, getScenario(scenarioId)).title} · {level}</span>
             </div>
           </div>
         </div>
 
-        <div className="flex items-center gap-3 bg-slate-800/60 px-4 py-2 rounded-xl border border-slate-700/60 shadow-inner">
-          <div className="flex flex-col gap-1">
-            <label htmlFor="api-key" className="text-xs uppercase text-slate-400 tracking-wide">OpenAI API Key</label>
-            <input
-              id="api-key"
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="Ingresa tu clave de OpenAI"
-              className="w-64 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            />
-            <span className="text-[11px] text-slate-500">Guardamos la clave solo en tu navegador.</span>
+        <label className="ml-auto mr-4 flex items-center gap-2 text-slate-400" title={t('app.language')}>
+          <Globe size={18} />
+          <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as UiLocale)}
+            aria-label={t('app.language')}
+            className="px-2 py-1 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {(Object.keys(LOCALES) as UiLocale[]).map(code => (
+              <option key={code} value={code}>{LOCALES[code]}</option>
+            ))}
+          </select>
+        </label>
+
+        {requiresApiKey && (
+          <div className="flex items-center gap-3 bg-slate-800/60 px-4 py-2 rounded-xl border border-slate-700/60 shadow-inner">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="api-key" className="text-xs uppercase text-slate-400 tracking-wide">{t('apiKey.label', { provider: PROVIDERS[settings.provider].label })}</label>
+              <input
+                id="api-key"
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder={t('apiKey.placeholder', { provider: PROVIDERS[settings.provider].label })}
+                className="w-64 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <span className="text-[11px] text-slate-500">{t('apiKey.hint')}</span>
+            </div>
           </div>
-        </div>
+        )}
+
+        {proxyMode && accessCodeRequired && (
+          <div className="flex items-center gap-3 bg-slate-800/60 px-4 py-2 rounded-xl border border-slate-700/60 shadow-inner">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="access-code" className="text-xs uppercase text-slate-400 tracking-wide">{t('accessCode.label')}</label>
+              <input
+                id="access-code"
+                type="password"
+                value={accessCode}
+                onChange={(e) => setAccessCode(e.target.value)}
+                placeholder={t('accessCode.placeholder')}
+                className="w-48 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+        )}
       </header>
 
-      {/* Main Content Area (Chat) */}
-      <main className="flex-1 flex flex-col relative min-h-0">
-        <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-indigo-900/20 via-slate-950 to-slate-950 pointer-events-none" />
-        <ChatList messages={messages} />
-      </main>
+      {showSettings && (
+        <div className="flex-none z-10">
+          <SettingsPanel
+            settings={settings}
+            onChange={updateSettings}
+            transcription={transcription}
+            onTranscriptionChange={updateTranscription}
+            tts={tts}
+            onTtsChange={updateTts}
+            realtime={realtime}
+            onRealtimeChange={updateRealtime}
+            explanationLanguage={explanationLanguage}
+            onExplanationLanguageChange={setExplanationLanguage}
+            autoCollectVocabulary={autoCollectVocabulary}
+            onAutoCollectVocabularyChange={setAutoCollectVocabulary}
+            usageSettings={usageSettings}
+            onUsageSettingsChange={updateUsageSettings}
+            proxyMode={proxyMode}
+            disabled={isConnected || isConnecting}
+          />
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {showHistory && (
+          <SessionSidebar
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            viewedSessionId={viewedSessionId}
+            canStartNew={isIdle}
+            onOpen={openSession}
+            onRename={rename}
+            onDelete={(id) => {
+              remove(id);
+              if (id === viewedSessionId) setViewedSessionId(null);
+            }}
+            onNewSession={handleNewSession}
+          />
+        )}
+
+        {/* Main Content Area (Chat) */}
+        <main className="flex-1 flex flex-col relative min-h-0">
+          <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-indigo-900/20 via-slate-950 to-slate-950 pointer-events-none" />
+          {viewedSession && (
+            <div className="relative z-10 flex items-center justify-between gap-4 px-4 py-2 bg-slate-800/80 border-b border-slate-700 text-sm">
+              <span className="text-slate-300 truncate">
+                {t('viewing.prefix')} <span className="font-semibold text-white">{viewedSession.title}</span> {t('viewing.suffix')}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleResume(viewedSession)}
+                  disabled={!isIdle}
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={isIdle ? t('viewing.resumeHint') : t('viewing.endFirst')}
+                >
+                  <Play size={14} /> {t('viewing.resume')}
+                </button>
+                <button
+                  onClick={() => setViewedSessionId(null)}
+                  className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700"
+                  title={t('viewing.back')}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+          )}
+          {error && (
+            <div className="relative z-10 flex items-start gap-3 px-4 py-3 bg-red-950/80 border-b border-red-800/60 text-sm" role="alert">
+              <AlertTriangle size={18} className="flex-none mt-0.5 text-red-400" />
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-red-200">{t(`error.${error.kind}.title`)}</p>
+                <p className="text-red-300/90">{t(`error.${error.kind}.fix`)}</p>
+                <p className="text-xs text-red-400/70 truncate" title={error.message}>{error.message}</p>
+              </div>
+              <button
+                onClick={dismissError}
+                className="p-1 rounded-lg text-red-300 hover:text-white hover:bg-red-900"
+                title={t('error.dismiss')}
+              >
+                <X size={16} />
+              </button>
+            </div>
+          )}
+          <ChatList
+            messages={viewedSession ? viewedSession.messages : messages}
+            onTranslate={viewedSession ? undefined : translateMessage}
+            onSaveTerm={(term, context, note) => vocabulary.save({
+              term,
+              context,
+              note,
+              source: note ? 'correction' : 'saved',
+              sessionId: viewedSession ? viewedSession.id : activeSessionId
+            })}
+            savedTerms={savedTerms}
+            onPlay={(msg) => playMessage(viewedSession ? viewedSession.id : activeSessionId, msg)}
+            playingMessageId={playingMessageId}
+          />
+          {!viewedSession && (
+            <Composer
+              onSend={sendText}
+              disabled={!isConnected || isRealtime}
+              placeholder={!isConnected
+                ? t('composer.offline')
+                : isRealtime ? t('composer.realtime') : t('composer.placeholder')}
+            />
+          )}
+        </main>
+
+        {showProgress && (
+          <ProgressDashboard
+            weeks={progress.weeks}
+            todayMinutes={progress.todayMinutes}
+            streak={progress.streak}
+            goalMinutes={progress.goalMinutes}
+            onGoalChange={progress.setGoalMinutes}
+            onClose={() => setShowProgress(false)}
+          />
+        )}
+      </div>
+
+      {showFluency && (
+        <FluencySummary
+          messages={viewedSession ? viewedSession.messages : messages}
+          onClose={() => setShowFluency(false)}
+        />
+      )}
+
+      {showReport && (
+        <SessionReport
+          session={exportableSession}
+          report={viewedSession ? viewedSession.report ?? null : report}
+          isGenerating={!viewedSession && isGeneratingReport}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showNotebook && (
+        <VocabularyNotebook
+          cards={vocabulary.cards}
+          dueCards={vocabulary.dueCards}
+          onReview={vocabulary.review}
+          onRemove={vocabulary.remove}
+          accent={tts.accent}
+          speed={tts.speed}
+          onClose={() => setShowNotebook(false)}
+        />
+      )}
+
+      {showQuiz && (
+        <QuizPanel
+          sessions={sessions}
+          mastery={quiz.mastery}
+          onCreate={createQuiz}
+          onAnswer={quiz.answer}
+          onDictate={dictate}
+          onClose={() => setShowQuiz(false)}
+        />
+      )}
 
       {/* Control Bar */}
       <footer className="flex-none p-6 border-t border-slate-800 bg-slate-900/80 backdrop-blur-lg z-20">
+        {isIdle && !viewedSession && (
+          <ScenarioPicker
+            scenarioId={scenarioId}
+            level={level}
+            onChange={updatePractice}
+            disabled={!isIdle}
+          />
+        )}
         <div className="max-w-3xl mx-auto flex items-center justify-between gap-6">
           
           {/* Audio Visualizer Area */}
           <div className="flex-1 flex items-center gap-4">
-             <div className="relative w-16 h-16 flex items-center justify-center bg-slate-800 rounded-2xl border border-slate-700/50">
+             <div className="relative w-32 h-16 flex items-center justify-center bg-slate-800 rounded-2xl border border-slate-700/50 overflow-hidden">
                 {isConnected ? (
-                  <AudioVisualizer isSpeaking={volume > 0.01} volume={volume} />
+                  <div className="w-full h-full px-2 py-1">
+                    <AudioVisualizer
+                      micAnalyser={micAnalyser}
+                      outputAnalyser={outputAnalyser}
+                      isTutorSpeaking={isTutorSpeaking}
+                      isMicOn={isMicOn}
+                      mode={visualizerMode}
+                      onModeChange={setVisualizerMode}
+                    />
+                  </div>
                 ) : (
-                  <div className="w-16 h-16 rounded-2xl bg-slate-800 flex items-center justify-center text-slate-600">
+                  <div className="w-full h-full rounded-2xl bg-slate-800 flex items-center justify-center text-slate-600">
                     <MicOff size={24} />
                   </div>
                 )}
              </div>
              <div className="flex flex-col">
-               <span className="text-sm font-medium text-slate-200">
-                 {isConnected ? (isMicOn ? "Listening..." : "Microphone Muted") : "Start Session"}
+               <span className={`text-sm font-medium ${isTutorSpeaking ? 'text-indigo-300' : 'text-slate-200'}`}>
+                 {statusTitle}
                </span>
                <span className="text-xs text-slate-500">
-                 {isConnected ? "Speak naturally to practice." : "Connect to begin."}
+                 {statusHint}
                </span>
              </div>
           </div>
@@ -91,6 +551,37 @@ const App: React.FC = () => {
           {/* Action Buttons */}
           <div className="flex items-center gap-4">
             
+            {/* Input Mode Toggle */}
+            <button
+              onClick={() => updateInputMode(inputMode === 'push-to-talk' ? 'hands-free' : 'push-to-talk')}
+              disabled={isRealtime}
+              className="p-4 rounded-full bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+              title={isPushToTalk ? t('controls.pushToTalkMode') : t('controls.handsFreeMode')}
+            >
+              {isPushToTalk ? <Hand size={24} /> : <AudioLines size={24} />}
+            </button>
+
+            {/* Push-to-talk */}
+            {isPushToTalk && isConnected && (
+              <button
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  startTalking();
+                }}
+                onPointerUp={stopTalking}
+                onPointerCancel={stopTalking}
+                disabled={!isMicOn}
+                className={`px-6 py-4 rounded-full font-semibold select-none touch-none transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                  isTalking
+                    ? 'bg-indigo-500 text-white shadow-[0_0_20px_rgba(99,102,241,0.5)]'
+                    : 'bg-slate-800 text-slate-200 hover:bg-slate-700'
+                }`}
+                title={t('controls.holdToTalkHint')}
+              >
+                {isTalking ? t('controls.listening') : t('controls.holdToTalk')}
+              </button>
+            )}
+
             {/* Mic Toggle */}
             <button
               onClick={toggleMic}
@@ -102,7 +593,7 @@ const App: React.FC = () => {
                     ? 'bg-slate-800 text-white hover:bg-slate-700' 
                     : 'bg-red-500/10 text-red-500 border border-red-500/20 hover:bg-red-500/20'
               }`}
-              title="Toggle Microphone"
+              title={t('controls.toggleMic')}
             >
               {isMicOn ? <Mic size={24} /> : <MicOff size={24} />}
             </button>
@@ -110,29 +601,32 @@ const App: React.FC = () => {
             {/* Connect/Disconnect Main Button */}
             {!isConnected ? (
               <button
-                onClick={connect}
-                disabled={isConnecting || !apiKey}
+                onClick={() => {
+                  setViewedSessionId(null);
+                  connect();
+                }}
+                disabled={isConnecting || (realtime.mode === 'pipeline' && requiresApiKey && !apiKey)}
                 className="flex items-center gap-3 px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full font-semibold transition-all shadow-[0_0_20px_rgba(79,70,229,0.3)] disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isConnecting ? (
                   <>
                      <span className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                     Connecting...
+                     {t('controls.connecting')}
                   </>
                 ) : (
                   <>
                     <Phone size={20} />
-                    Start Conversation
+                    {t('controls.start')}
                   </>
                 )}
               </button>
             ) : (
               <button
-                onClick={disconnect}
+                onClick={handleEndSession}
                 className="flex items-center gap-3 px-8 py-4 bg-red-600/10 border border-red-600/50 text-red-500 hover:bg-red-600 hover:text-white rounded-full font-semibold transition-all"
               >
                 <PhoneOff size={20} />
-                End Session
+                {t('controls.end')}
               </button>
             )}
 
@@ -143,4 +637,26 @@ const App: React.FC = () => {
   );
 };
 
+/**
+ * Shows the profile picker on launch, then the tutor for the chosen profile.
+ * The tutor remounts per profile so every hook loads that profile's data.
+ */
+const App: React.FC = () => {
+  const { profiles, create, update, remove } = useProfiles();
+  const [profile, setProfile] = useState<LearnerProfile | null>(null);
+
+  if (!profile) {
+    return (
+      <ProfilePicker
+        profiles={profiles}
+        onCreate={create}
+        onUpdate={update}
+        onDelete={remove}
+        onSelect={(selected) => setProfile(activateProfile(selected))}
+      />
+    );
+  }
+  return <TutorApp key={profile.id} profile={profile} onSwitchProfile={() => setProfile(null)} />;
+};
+
 export default App;
@@ -1,48 +1,109 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { AudioVisualizerProps } from '../types';
+import { useI18n } from '../i18n';
+
+const LEARNER_COLOR = '#34d399';
+const TUTOR_COLOR = '#818cf8';
+const IDLE_COLOR = '#475569';
+const BAR_COUNT = 24;
+// Speech energy sits in the lower part of the spectrum
+const SPECTRUM_FRACTION = 0.5;
+
+/**
+ * Live waveform or frequency bars of whoever has the turn: the microphone
+ * while the learner talks, the tutor's voice while it speaks. Drawn on a
+ * canvas from requestAnimationFrame, so audio never passes through React
+ * state. Browser speech cannot be tapped; the tutor is then shown as a
+ * gentle synthetic wave.
+ */
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
+  micAnalyser,
+  outputAnalyser,
+  isTutorSpeaking,
+  isMicOn,
+  mode,
+  onModeChange
+}) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const analyser = isTutorSpeaking ? outputAnalyser : isMicOn ? micAnalyser : null;
+    const color = isTutorSpeaking ? TUTOR_COLOR : analyser ? LEARNER_COLOR : IDLE_COLOR;
+    const data = new Uint8Array(analyser ? (mode === 'bars' ? analyser.frequencyBinCount : analyser.fftSize) : 0);
+    let frame = 0;
+
+    const drawWave = (width: number, height: number, sample: (x: number) => number) => {
+      context.beginPath();
+      for (let x = 0; x <= width; x += 2) {
+        const y = height / 2 + sample(x) * (height / 2 - 2);
+        if (x === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      }
+      context.stroke();
+    };
+
+    const drawBars = (width: number, height: number, level: (bar: number) => number) => {
+      const gap = width / BAR_COUNT;
+      for (let bar = 0; bar < BAR_COUNT; bar++) {
+        const barHeight = Math.max(2, level(bar) * height);
+        context.fillRect(bar * gap + 1, (height - barHeight) / 2, Math.max(1, gap - 2), barHeight);
+      }
+    };
+
+    const draw = (time: number) => {
+      frame = requestAnimationFrame(draw);
+      // Match the backing store to the displayed size for crisp lines
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width) canvas.width = width;
+      if (canvas.height !== height) canvas.height = height;
+
+      context.clearRect(0, 0, width, height);
+      context.strokeStyle = color;
+      context.fillStyle = color;
+      context.lineWidth = 2 * ratio;
+
+      if (!analyser) {
+        const amplitude = isTutorSpeaking ? 0.25 + 0.15 * Math.sin(time / 180) : 0;
+        if (mode === 'bars') {
+          drawBars(width, height, bar => amplitude * (0.5 + 0.5 * Math.sin(time / 120 + bar * 0.7)));
+        } else {
+          drawWave(width, height, x => amplitude * Math.sin(x / (width / 6) * Math.PI + time / 150));
+        }
+        return;
+      }
+
+      if (mode === 'bars') {
+        analyser.getByteFrequencyData(data);
+        const binsPerBar = Math.max(1, Math.floor((data.length * SPECTRUM_FRACTION) / BAR_COUNT));
+        drawBars(width, height, (bar) => {
+          let sum = 0;
+          for (let i = bar * binsPerBar; i < (bar + 1) * binsPerBar; i++) sum += data[i];
+          return sum / binsPerBar / 255;
+        });
+      } else {
+        analyser.getByteTimeDomainData(data);
+        drawWave(width, height, x => (data[Math.floor((x / width) * (data.length - 1))] - 128) / 128);
+      }
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [micAnalyser, outputAnalyser, isTutorSpeaking, isMicOn, mode]);
 
-export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isSpeaking, volume }) => {
-  // Normalize volume for visual scaling (simple heuristic)
-  const scale = Math.min(1.0 + volume * 5, 2.5);
-  
   return (
-    <div className="flex items-center justify-center h-24 w-24 relative">
-      {/* Background Pulse */}
-      {volume > 0.01 && (
-        <div className="absolute inset-0 bg-blue-500 rounded-full opacity-20 animate-pulse-ring"></div>
-      )}
-      
-      {/* Central Circle */}
-      <div 
-        className={`relative z-10 rounded-full transition-all duration-100 ease-out flex items-center justify-center shadow-[0_0_20px_rgba(59,130,246,0.5)]
-          ${isSpeaking ? 'bg-gradient-to-br from-blue-400 to-indigo-600' : 'bg-slate-700'}`}
-        style={{ 
-          width: '60px', 
-          height: '60px',
-          transform: `scale(${scale})`
-        }}
-      >
-        <svg 
-          xmlns="http://www.w3.org/2000/svg" 
-          width="24" 
-          height="24" 
-          viewBox="0 0 24 24" 
-          fill="none" 
-          stroke="currentColor" 
-          strokeWidth="2" 
-          strokeLinecap="round" 
-          strokeLinejoin="round" 
-          className="text-white"
-        >
-          {isSpeaking ? (
-             <path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z" />
-          ) : (
-             <path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z" />
-          )}
-          <path d="M19 10v2a7 7 0 0 1-14 0v-2" />
-          <line x1="12" x2="12" y1="19" y2="22" />
-        </svg>
-      </div>
-    </div>
+    <button
+      onClick={() => onModeChange(mode === 'bars' ? 'waveform' : 'bars')}
+      className="w-full h-full"
+      title={mode === 'bars' ? t('visualizer.showWaveform') : t('visualizer.showBars')}
+    >
+      <canvas ref={canvasRef} className="w-full h-full" />
+    </button>
   );
 };
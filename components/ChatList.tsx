@@ -1,13 +1,129 @@
-import React, { useEffect, useRef } from 'react';
-import { ChatMessage } from '../types';
-import { Bot, User } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, Correction } from '../types';
+import { buildCorrectionSegments } from '../utils/corrections';
+import { correctionNote, normalizeTerm, sentenceContaining } from '../utils/srs';
+import { useI18n } from '../i18n';
+import { Bookmark, BookmarkCheck, Bot, Languages, RotateCcw, Square, User, Volume2 } from 'lucide-react';
 
 interface ChatListProps {
   messages: ChatMessage[];
+  // Fetches a missing translation and rejects when that fails; without it only stored translations are shown
+  onTranslate?: (id: string) => Promise<void>;
+  // Saves a word or phrase to the vocabulary notebook; without it nothing can be saved
+  onSaveTerm?: (term: string, context: string, note?: string) => void;
+  // Normalized terms already in the notebook
+  savedTerms?: Set<string>;
+  // Plays a message's recording, or speaks a tutor message again
+  onPlay?: (msg: ChatMessage) => void;
+  playingMessageId?: string | null;
 }
 
-export const ChatList: React.FC<ChatListProps> = ({ messages }) => {
+// Longest selection offered for saving, to keep cards to words and phrases
+const MAX_TERM_LENGTH = 60;
+
+interface CorrectionDiffProps {
+  text: string;
+  corrections: Correction[];
+  onSave?: (correction: Correction) => void;
+  savedTerms?: Set<string>;
+}
+
+const CorrectionDiff: React.FC<CorrectionDiffProps> = ({ text, corrections, onSave, savedTerms }) => {
+  const { t } = useI18n();
+  const segments = buildCorrectionSegments(text, corrections);
+
+  return (
+    <div className="mt-2 px-4 py-3 rounded-xl bg-slate-900/80 border border-amber-500/30 text-sm text-slate-300 max-w-full">
+      <p className="leading-relaxed">
+        {segments.map((segment, i) => segment.type === 'text' ? (
+          <span key={i}>{segment.text}</span>
+        ) : (
+          <span key={i}>
+            <del className="text-red-400 line-through decoration-red-400/70">{segment.original}</del>
+            {' '}
+            <ins className="text-emerald-400 no-underline font-medium">{segment.corrected}</ins>
+          </span>
+        ))}
+      </p>
+      <ul className="mt-2 space-y-1">
+        {corrections.map((correction, i) => {
+          const isSaved = savedTerms?.has(normalizeTerm(correction.corrected));
+          return (
+            <li key={i} className="flex items-start gap-1 text-xs text-slate-400">
+              <span className="flex-1">
+                <span className="inline-block px-1.5 py-0.5 mr-2 rounded bg-amber-500/10 text-amber-400 uppercase tracking-wide text-[10px]">
+                  {t(`category.${correction.category}`)}
+                </span>
+                {correction.explanation}
+              </span>
+              {onSave && (
+                <button
+                  onClick={() => onSave(correction)}
+                  disabled={isSaved}
+                  className="flex-none p-0.5 rounded text-slate-500 hover:text-indigo-300 disabled:text-indigo-400"
+                  title={isSaved ? t('chat.saved') : t('chat.saveCorrection')}
+                >
+                  {isSaved ? <BookmarkCheck size={14} /> : <Bookmark size={14} />}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export const ChatList: React.FC<ChatListProps> = ({ messages, onTranslate, onSaveTerm, savedTerms, onPlay, playingMessageId }) => {
+  const { t } = useI18n();
   const bottomRef = useRef<HTMLDivElement>(null);
+  // Tutor messages whose translation is toggled open
+  const [translatedIds, setTranslatedIds] = useState<Set<string>>(() => new Set());
+  // Tutor messages whose last translation request failed
+  const [failedIds, setFailedIds] = useState<Set<string>>(() => new Set());
+  // Text the learner selected in a message, offered for the notebook
+  const [selection, setSelection] = useState<{ messageId: string; term: string } | null>(null);
+
+  const selectedText = () => window.getSelection()?.toString().replace(/\s+/g, ' ').trim() ?? '';
+
+  const captureSelection = (msg: ChatMessage) => {
+    if (!onSaveTerm) return;
+    const term = selectedText().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    setSelection(term && term.length <= MAX_TERM_LENGTH ? { messageId: msg.id, term } : null);
+  };
+
+  const saveSelection = (msg: ChatMessage) => {
+    if (!selection || !onSaveTerm) return;
+    onSaveTerm(selection.term, sentenceContaining(msg.text, selection.term));
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const requestTranslation = (id: string) => {
+    if (!onTranslate) return;
+    setFailedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    onTranslate(id).catch(() => setFailedIds(prev => new Set(prev).add(id)));
+  };
+
+  const toggleTranslation = (msg: ChatMessage) => {
+    // Selecting a word to save it should not also open the translation
+    if (msg.role !== 'model' || !msg.isComplete || selectedText()) return;
+    const isOpen = translatedIds.has(msg.id);
+    setTranslatedIds(prev => {
+      const next = new Set(prev);
+      if (isOpen) {
+        next.delete(msg.id);
+      } else {
+        next.add(msg.id);
+      }
+      return next;
+    });
+    if (!isOpen && !msg.translation) requestTranslation(msg.id);
+  };
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -18,42 +134,106 @@ export const ChatList: React.FC<ChatListProps> = ({ messages }) => {
       {messages.length === 0 && (
         <div className="h-full flex flex-col items-center justify-center text-slate-500 opacity-60">
            <Bot size={64} className="mb-4" />
-           <p className="text-xl font-medium">Ready to practice English?</p>
-           <p className="text-sm">Click "Start Conversation" below.</p>
+           <p className="text-xl font-medium">{t('chat.emptyTitle')}</p>
+           <p className="text-sm">{t('chat.emptyHint')}</p>
         </div>
       )}
       
-      {messages.map((msg) => (
-        <div 
-          key={msg.id} 
-          className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}
-        >
-          {/* Avatar */}
-          <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 
-            ${msg.role === 'model' ? 'bg-indigo-600' : 'bg-emerald-600'}`}>
-            {msg.role === 'model' ? <Bot size={20} /> : <User size={20} />}
-          </div>
+      {messages.map((msg) => {
+        const canTranslate = msg.role === 'model' && msg.isComplete && Boolean(onTranslate || msg.translation);
+        const showTranslation = canTranslate && translatedIds.has(msg.id);
+        // Learner messages need a recording; tutor messages can always be spoken again
+        const canPlay = Boolean(onPlay) && msg.isComplete && (msg.hasAudio || msg.role === 'model');
+        const isPlaying = playingMessageId === msg.id;
 
-          {/* Bubble */}
-          <div className={`flex flex-col max-w-[80%] ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-             <div className={`px-5 py-3 rounded-2xl text-md leading-relaxed shadow-md
-               ${msg.role === 'model' 
-                 ? 'bg-slate-800 text-slate-100 rounded-tl-none' 
-                 : 'bg-emerald-700 text-white rounded-tr-none'
-               }
-               ${!msg.isComplete ? 'opacity-80' : ''}
-             `}>
-               {msg.text}
-               {!msg.isComplete && (
-                 <span className="inline-block w-2 h-2 ml-1 bg-white rounded-full animate-pulse"/>
+        return (
+          <div 
+            key={msg.id} 
+            className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}
+          >
+            {/* Avatar */}
+            <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 
+              ${msg.role === 'model' ? 'bg-indigo-600' : 'bg-emerald-600'}`}>
+              {msg.role === 'model' ? <Bot size={20} /> : <User size={20} />}
+            </div>
+
+            {/* Bubble */}
+            <div className={`flex flex-col max-w-[80%] ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+               <div
+                 onClick={canTranslate ? () => toggleTranslation(msg) : undefined}
+                 onMouseUp={() => captureSelection(msg)}
+                 onTouchEnd={() => captureSelection(msg)}
+                 title={canTranslate ? t('chat.translate') : undefined}
+                 className={`px-5 py-3 rounded-2xl text-md leading-relaxed shadow-md
+                 ${msg.role === 'model' 
+                   ? 'bg-slate-800 text-slate-100 rounded-tl-none' 
+                   : 'bg-emerald-700 text-white rounded-tr-none'
+                 }
+                 ${!msg.isComplete ? 'opacity-80' : ''}
+                 ${canTranslate ? 'cursor-pointer hover:bg-slate-700/80' : ''}
+               `}>
+                 {msg.text}
+                 {!msg.isComplete && (
+                   <span className="inline-block w-2 h-2 ml-1 bg-white rounded-full animate-pulse"/>
+                 )}
+               </div>
+               {selection?.messageId === msg.id && (
+                 <button
+                   onClick={() => saveSelection(msg)}
+                   disabled={savedTerms?.has(normalizeTerm(selection.term))}
+                   className="mt-2 flex items-center gap-1.5 px-3 py-1 rounded-full bg-indigo-500/15 border border-indigo-500/30 text-xs text-indigo-200 hover:bg-indigo-500/25 disabled:opacity-60"
+                 >
+                   {savedTerms?.has(normalizeTerm(selection.term))
+                     ? <><BookmarkCheck size={14} /> {t('chat.saved')}</>
+                     : <><Bookmark size={14} /> {t('chat.saveSelection', { term: selection.term })}</>}
+                 </button>
+               )}
+               {showTranslation && (
+                 <div className="mt-2 flex items-start gap-2 px-4 py-2 rounded-xl bg-slate-900/80 border border-indigo-500/30 text-sm text-slate-300">
+                   <Languages size={14} className="flex-none mt-1 text-indigo-400" />
+                   {msg.translation ? (
+                     <span lang="es">{msg.translation}</span>
+                   ) : failedIds.has(msg.id) ? (
+                     <span className="flex flex-wrap items-center gap-2 text-rose-300">
+                       {t('chat.translationFailed')}
+                       <button
+                         onClick={() => requestTranslation(msg.id)}
+                         className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-rose-400/40 text-xs hover:bg-rose-500/10"
+                       >
+                         <RotateCcw size={12} /> {t('chat.retryTranslation')}
+                       </button>
+                     </span>
+                   ) : (
+                     <span className="italic text-slate-500">{t('chat.translating')}</span>
+                   )}
+                 </div>
                )}
-             </div>
-             <span className="text-xs text-slate-500 mt-1 px-1">
-               {msg.role === 'model' ? 'Tutor' : 'You'}
-             </span>
+               {msg.role === 'user' && msg.corrections && msg.corrections.length > 0 && (
+                 <CorrectionDiff
+                   text={msg.text}
+                   corrections={msg.corrections}
+                   onSave={onSaveTerm && (correction => onSaveTerm(correction.corrected, msg.text, correctionNote(correction)))}
+                   savedTerms={savedTerms}
+                 />
+               )}
+               <div className="flex items-center gap-1 mt-1 px-1">
+                 <span className="text-xs text-slate-500">
+                   {msg.role === 'model' ? t('chat.tutor') : t('chat.you')}
+                 </span>
+                 {canPlay && (
+                   <button
+                     onClick={() => onPlay?.(msg)}
+                     className={`p-0.5 rounded ${isPlaying ? 'text-indigo-300' : 'text-slate-500 hover:text-white'}`}
+                     title={isPlaying ? t('chat.stop') : msg.role === 'user' ? t('chat.playRecording') : t('chat.replay')}
+                   >
+                     {isPlaying ? <Square size={12} /> : <Volume2 size={14} />}
+                   </button>
+                 )}
+               </div>
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
       <div ref={bottomRef} />
     </div>
   );
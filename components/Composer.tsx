@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n';
+import { SendHorizontal } from 'lucide-react';
+
+interface ComposerProps {
+  onSend: (text: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+/**
+ * Text input under the chat, for writing practice or when the room is too
+ * noisy to speak. Enter sends, Shift+Enter adds a line break.
+ */
+export const Composer: React.FC<ComposerProps> = ({ onSend, disabled, placeholder }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+
+  const send = () => {
+    if (disabled || !text.trim()) return;
+    onSend(text);
+    setText('');
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        send();
+      }}
+      className="relative z-10 flex items-end gap-2 px-4 py-3 border-t border-slate-800 bg-slate-900/60"
+    >
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            send();
+          }
+        }}
+        rows={1}
+        disabled={disabled}
+        placeholder={placeholder ?? t('composer.placeholder')}
+        className="flex-1 resize-none max-h-32 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="p-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        title={t('composer.send')}
+      >
+        <SendHorizontal size={18} />
+      </button>
+    </form>
+  );
+};
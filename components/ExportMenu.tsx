@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { TutorSession } from '../types';
+import { ExportFormat, exportSession, exportSessionBundle, parseSessionJson } from '../utils/exportUtils';
+import { listRecordings } from '../storage/recordingStore';
+import { MessageKey, useI18n } from '../i18n';
+import { Download, Upload } from 'lucide-react';
+
+interface ExportMenuProps {
+  session: TutorSession | null;
+  onImport: (session: TutorSession) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: MessageKey; hint: MessageKey }[] = [
+  { format: 'markdown', label: 'export.markdown', hint: 'export.markdownHint' },
+  { format: 'json', label: 'export.json', hint: 'export.jsonHint' },
+  { format: 'vtt', label: 'export.vtt', hint: 'export.vttHint' },
+  { format: 'anki', label: 'export.anki', hint: 'export.ankiHint' }
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ session, onImport }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportBundle = async (target: TutorSession) => {
+    setIsOpen(false);
+    try {
+      await exportSessionBundle(target, await listRecordings(target.id));
+    } catch (e) {
+      console.error('Failed to export the audio bundle', e);
+      alert(t('export.bundleFailed', { message: (e as Error).message }));
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(parseSessionJson(await file.text()));
+      setIsOpen(false);
+    } catch (e) {
+      alert(t('export.importFailed', { message: (e as Error).message }));
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`p-2 rounded-lg transition-colors ${isOpen ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+        title={t('export.open')}
+      >
+        <Download size={22} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 rounded-xl bg-slate-900 border border-slate-700 shadow-xl p-2 z-30">
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              disabled={!session || session.messages.length === 0}
+              onClick={() => {
+                if (session) exportSession(session, format);
+                setIsOpen(false);
+              }}
+              className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <span className="block text-sm text-slate-100">{t(label)}</span>
+              <span className="block text-xs text-slate-500">{t(hint)}</span>
+            </button>
+          ))}
+          <button
+            disabled={!session || !session.messages.some(msg => msg.hasAudio)}
+            onClick={() => session && exportBundle(session)}
+            className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <span className="block text-sm text-slate-100">{t('export.bundle')}</span>
+            <span className="block text-xs text-slate-500">{t('export.bundleHint')}</span>
+          </button>
+          <div className="my-1 border-t border-slate-800" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-100 hover:bg-slate-800"
+          >
+            <Upload size={16} /> {t('export.import')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
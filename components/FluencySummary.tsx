@@ -0,0 +1,77 @@
+import React from 'react';
+import { ChatMessage } from '../types';
+import { computeSessionFluency } from '../utils/fluency';
+import { MessageKey, useI18n } from '../i18n';
+import { Gauge, X } from 'lucide-react';
+
+interface FluencySummaryProps {
+  messages: ChatMessage[];
+  onClose: () => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+/**
+ * Post-session panel with the learner's speaking metrics, for students and
+ * their teachers.
+ */
+export const FluencySummary: React.FC<FluencySummaryProps> = ({ messages, onClose }) => {
+  const { t } = useI18n();
+  const fluency = computeSessionFluency(messages);
+
+  const stats: { label: MessageKey; value: string; hint?: MessageKey }[] = fluency ? [
+    { label: 'fluency.wpm', value: fluency.wordsPerMinute !== null ? String(fluency.wordsPerMinute) : '—', hint: 'fluency.wpmHint' },
+    { label: 'fluency.utterances', value: String(fluency.utteranceCount) },
+    { label: 'fluency.averageLength', value: t('fluency.words', { count: fluency.averageUtteranceWords }) },
+    { label: 'fluency.typeTokenRatio', value: fluency.typeTokenRatio.toFixed(2), hint: 'fluency.typeTokenRatioHint' },
+    { label: 'fluency.pauses', value: String(fluency.pauseCount) },
+    { label: 'fluency.averagePause', value: fluency.pauseCount ? formatSeconds(fluency.averagePauseMs) : '—' },
+    { label: 'fluency.longestPause', value: fluency.pauseCount ? formatSeconds(fluency.longestPauseMs) : '—' },
+    { label: 'fluency.fillers', value: `${fluency.fillerCount} (${fluency.fillersPer100Words}/100)`, hint: 'fluency.fillersHint' }
+  ] : [];
+
+  const topFillers = fluency
+    ? Object.entries(fluency.fillers).sort((a, b) => b[1] - a[1]).slice(0, 5)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg rounded-2xl bg-slate-900 border border-slate-700 shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('fluency.title')}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Gauge size={20} className="text-indigo-400" /> {t('fluency.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('fluency.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {fluency ? (
+          <>
+            <dl className="grid grid-cols-2 gap-3">
+              {stats.map(({ label, value, hint }) => (
+                <div key={label} className="rounded-xl bg-slate-800/60 border border-slate-700/60 px-4 py-3" title={hint ? t(hint) : undefined}>
+                  <dt className="text-xs uppercase tracking-wide text-slate-400">{t(label)}</dt>
+                  <dd className="text-xl font-semibold text-white">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            {topFillers.length > 0 && (
+              <p className="mt-4 text-sm text-slate-400">
+                {t('fluency.topFillers')}{' '}
+                {topFillers.map(([filler, count]) => `"${filler}" ×${count}`).join(', ')}
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-slate-400">{t('fluency.empty')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
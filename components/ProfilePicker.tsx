@@ -0,0 +1,331 @@
+import React, { useState } from 'react';
+import { Accent, CefrLevel, LearnerProfile, UiLocale } from '../types';
+import { ProfileDraft, verifyPin } from '../storage/profileStore';
+import { CEFR_LEVELS, DEFAULT_LEVEL } from '../utils/scenarios';
+import { ACCENTS, DEFAULT_TTS_SETTINGS } from '../synthesizers';
+import { LOCALES, useI18n } from '../i18n';
+import { Globe, Lock, Pencil, Plus, UserRound } from 'lucide-react';
+
+interface ProfilePickerProps {
+  profiles: LearnerProfile[];
+  onCreate: (draft: ProfileDraft, pin: string) => Promise<LearnerProfile>;
+  // `pin` replaces the PIN when given; an empty string removes it
+  onUpdate: (profile: LearnerProfile, draft: ProfileDraft, pin?: string) => Promise<LearnerProfile>;
+  onDelete: (id: string) => Promise<void>;
+  onSelect: (profile: LearnerProfile) => void;
+}
+
+type View =
+  | { type: 'list' }
+  | { type: 'unlock'; profile: LearnerProfile; next: 'select' | 'edit' }
+  | { type: 'form'; profile: LearnerProfile | null };
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const labelClass = 'text-xs uppercase text-slate-400 tracking-wide';
+
+// Most learners are Spanish speakers
+const emptyDraft = (): ProfileDraft => ({
+  name: '',
+  nativeLanguage: 'Spanish',
+  level: DEFAULT_LEVEL,
+  accent: DEFAULT_TTS_SETTINGS.accent,
+  goals: ''
+});
+
+/**
+ * Launch screen of a shared device: pick, add or edit a learner profile,
+ * entering its PIN when it has one.
+ */
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, onCreate, onUpdate, onDelete, onSelect }) => {
+  const { locale, setLocale, t } = useI18n();
+  const [view, setView] = useState<View>(profiles.length ? { type: 'list' } : { type: 'form', profile: null });
+  const [draft, setDraft] = useState<ProfileDraft>(emptyDraft);
+  const [pin, setPin] = useState('');
+  const [removePin, setRemovePin] = useState(false);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const openForm = (profile: LearnerProfile | null) => {
+    setDraft(profile
+      ? { name: profile.name, nativeLanguage: profile.nativeLanguage, level: profile.level, accent: profile.accent, goals: profile.goals }
+      : emptyDraft());
+    setPin('');
+    setRemovePin(false);
+    setPinError(null);
+    setView({ type: 'form', profile });
+  };
+
+  const showList = () => {
+    setPin('');
+    setPinError(null);
+    setView(profiles.length ? { type: 'list' } : { type: 'form', profile: null });
+  };
+
+  const choose = (profile: LearnerProfile, next: 'select' | 'edit') => {
+    if (profile.pinHash) {
+      setPin('');
+      setPinError(null);
+      setView({ type: 'unlock', profile, next });
+    } else if (next === 'select') {
+      onSelect(profile);
+    } else {
+      openForm(profile);
+    }
+  };
+
+  const unlock = async (profile: LearnerProfile, next: 'select' | 'edit') => {
+    setIsBusy(true);
+    try {
+      if (!await verifyPin(profile, pin)) {
+        setPinError(t('profiles.wrongPin'));
+        setPin('');
+        return;
+      }
+      if (next === 'select') onSelect(profile);
+      else openForm(profile);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const save = async (profile: LearnerProfile | null) => {
+    if (pin && !PIN_PATTERN.test(pin)) {
+      setPinError(t('profiles.invalidPin'));
+      return;
+    }
+    const cleaned = { ...draft, name: draft.name.trim(), nativeLanguage: draft.nativeLanguage.trim(), goals: draft.goals.trim() };
+    setIsBusy(true);
+    try {
+      if (profile) {
+        await onUpdate(profile, cleaned, removePin ? '' : pin || undefined);
+        showList();
+      } else {
+        // A new profile starts right away
+        onSelect(await onCreate(cleaned, pin));
+      }
+    } catch (e) {
+      console.error('Failed to save the profile', e);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const remove = async (profile: LearnerProfile) => {
+    if (!confirm(t('profiles.confirmDelete', { name: profile.name }))) return;
+    setIsBusy(true);
+    try {
+      await onDelete(profile.id);
+    } catch (e) {
+      console.error('Failed to delete the profile', e);
+    } finally {
+      setIsBusy(false);
+    }
+    if (profiles.length > 1) setView({ type: 'list' });
+    else openForm(null);
+  };
+
+  const updateDraft = (patch: Partial<ProfileDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const renderForm = (profile: LearnerProfile | null) => (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save(profile);
+      }}
+    >
+      <h2 className="text-lg font-semibold text-white">{profile ? t('profiles.edit') : t('profiles.create')}</h2>
+      {!profiles.length && <p className="text-sm text-slate-400">{t('profiles.welcome')}</p>}
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="profile-name" className={labelClass}>{t('profiles.name')}</label>
+        <input id="profile-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} required autoFocus />
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="profile-native" className={labelClass}>{t('profiles.nativeLanguage')}</label>
+          <input id="profile-native" value={draft.nativeLanguage} onChange={(e) => updateDraft({ nativeLanguage: e.target.value })} className={inputClass} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="profile-level" className={labelClass}>{t('profiles.level')}</label>
+          <select id="profile-level" value={draft.level} onChange={(e) => updateDraft({ level: e.target.value as CefrLevel })} className={inputClass}>
+            {CEFR_LEVELS.map(level => (
+              <option key={level} value={level}>{level} · {t(`level.${level}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="profile-accent" className={labelClass}>{t('profiles.accent')}</label>
+          <select id="profile-accent" value={draft.accent} onChange={(e) => updateDraft({ accent: e.target.value as Accent })} className={inputClass}>
+            {(Object.keys(ACCENTS) as Accent[]).map(accent => (
+              <option key={accent} value={accent}>{t(`accent.${accent}`)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex flex-col gap-1">
+        <label htmlFor="profile-goals" className={labelClass}>{t('profiles.goals')}</label>
+        <textarea
+          id="profile-goals"
+          value={draft.goals}
+          onChange={(e) => updateDraft({ goals: e.target.value })}
+          placeholder={t('profiles.goalsPlaceholder')}
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <label htmlFor="profile-pin" className={labelClass}>{profile?.pinHash ? t('profiles.newPin') : t('profiles.pin')}</label>
+        <input
+          id="profile-pin"
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          value={pin}
+          onChange={(e) => {
+            setPin(e.target.value);
+            setPinError(null);
+          }}
+          disabled={removePin}
+          className={`${inputClass} w-40 disabled:opacity-50`}
+        />
+        <span className="text-[11px] text-slate-500">{t('profiles.pinHint')}</span>
+        {profile?.pinHash && (
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={removePin} onChange={(e) => setRemovePin(e.target.checked)} />
+            {t('profiles.removePin')}
+          </label>
+        )}
+        {pinError && <span className="text-xs text-red-400">{pinError}</span>}
+      </div>
+
+      <div className="flex items-center gap-2 pt-2">
+        {profile && (
+          <button
+            type="button"
+            onClick={() => remove(profile)}
+            disabled={isBusy}
+            className="px-3 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+          >
+            {t('profiles.delete')}
+          </button>
+        )}
+        {profiles.length > 0 && (
+          <button type="button" onClick={showList} className="ml-auto px-3 py-2 rounded-lg text-sm text-slate-300 hover:bg-slate-800">
+            {t('profiles.cancel')}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isBusy || !draft.name.trim()}
+          className={`${profiles.length ? '' : 'ml-auto '}px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {t('profiles.save')}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="h-screen w-full flex items-center justify-center bg-slate-950 text-slate-100 p-4 overflow-y-auto">
+      <div className="w-full max-w-lg rounded-2xl bg-slate-900 border border-slate-700 shadow-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-lg font-bold text-white tracking-tight">{t('app.title')}</h1>
+          <label className="flex items-center gap-2 text-slate-400" title={t('app.language')}>
+            <Globe size={16} />
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as UiLocale)}
+              aria-label={t('app.language')}
+              className="px-2 py-1 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {(Object.keys(LOCALES) as UiLocale[]).map(code => (
+                <option key={code} value={code}>{LOCALES[code]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {view.type === 'list' && (
+          <div className="space-y-3">
+            <h2 className="text-base font-semibold text-slate-200">{t('profiles.title')}</h2>
+            <ul className="space-y-2">
+              {profiles.map(profile => (
+                <li key={profile.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => choose(profile, 'select')}
+                    className="flex-1 flex items-center gap-3 rounded-xl bg-slate-800/60 border border-slate-700/60 px-4 py-3 text-left hover:bg-slate-800 hover:border-indigo-500/60 transition-colors"
+                  >
+                    <UserRound size={22} className="text-indigo-400" />
+                    <span className="flex-1 min-w-0">
+                      <span className="block font-medium text-white truncate">{profile.name}</span>
+                      <span className="block text-xs text-slate-400">{profile.level} · {t(`accent.${profile.accent}`)}</span>
+                    </span>
+                    {profile.pinHash && <Lock size={16} className="text-slate-500" aria-label={t('profiles.locked')} />}
+                  </button>
+                  <button
+                    onClick={() => choose(profile, 'edit')}
+                    className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"
+                    title={t('profiles.edit')}
+                  >
+                    <Pencil size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => openForm(null)}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm text-slate-200"
+            >
+              <Plus size={16} /> {t('profiles.add')}
+            </button>
+          </div>
+        )}
+
+        {view.type === 'unlock' && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              unlock(view.profile, view.next);
+            }}
+          >
+            <label htmlFor="unlock-pin" className="block text-sm text-slate-200">
+              {t('profiles.enterPin', { name: view.profile.name })}
+            </label>
+            <input
+              id="unlock-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => {
+                setPin(e.target.value);
+                setPinError(null);
+              }}
+              className={`${inputClass} w-40`}
+              autoFocus
+            />
+            {pinError && <p className="text-xs text-red-400">{pinError}</p>}
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={showList} className="px-3 py-2 rounded-lg text-sm text-slate-300 hover:bg-slate-800">
+                {t('profiles.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isBusy || !pin}
+                className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium disabled:opacity-50"
+              >
+                {t('profiles.unlock')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {view.type === 'form' && renderForm(view.profile)}
+      </div>
+    </div>
+  );
+};
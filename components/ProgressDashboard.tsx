@@ -0,0 +1,176 @@
+import React from 'react';
+import { CorrectionCategory } from '../types';
+import { CORRECTION_CATEGORIES } from '../utils/corrections';
+import { WeeklyProgress } from '../utils/progress';
+import { useI18n } from '../i18n';
+import { Flame, Target, X } from 'lucide-react';
+
+interface ProgressDashboardProps {
+  weeks: WeeklyProgress[];
+  todayMinutes: number;
+  streak: number;
+  goalMinutes: number;
+  onGoalChange: (minutes: number) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_COLORS: Record<CorrectionCategory, string> = {
+  grammar: 'bg-indigo-400',
+  'verb-tense': 'bg-sky-400',
+  'word-choice': 'bg-emerald-400',
+  'word-order': 'bg-amber-400',
+  preposition: 'bg-pink-400',
+  article: 'bg-violet-400',
+  agreement: 'bg-orange-400',
+  other: 'bg-slate-400'
+};
+
+const MAX_GOAL_MINUTES = 240;
+
+interface BarSegment {
+  value: number;
+  className: string;
+  title: string;
+}
+
+/**
+ * Column chart with one bar per week, optionally stacked.
+ */
+const WeeklyChart: React.FC<{ title: string; labels: string[]; bars: BarSegment[][]; format?: (value: number) => string }> = ({
+  title,
+  labels,
+  bars,
+  format = String
+}) => {
+  const totals = bars.map(segments => segments.reduce((sum, segment) => sum + segment.value, 0));
+  const max = Math.max(...totals, 0);
+
+  return (
+    <section className="space-y-2">
+      <h3 className="text-xs uppercase tracking-wide text-slate-400">{title}</h3>
+      <div className="flex items-end gap-1.5 h-28">
+        {bars.map((segments, i) => (
+          <div key={labels[i]} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+            <span className="text-[10px] text-slate-400 tabular-nums">{totals[i] ? format(totals[i]) : ''}</span>
+            <div className="w-full flex flex-col-reverse rounded-t overflow-hidden" style={{ height: `${max ? (totals[i] / max) * 80 : 0}%` }}>
+              {segments.filter(segment => segment.value > 0).map(segment => (
+                <div
+                  key={segment.title}
+                  className={segment.className}
+                  style={{ height: `${(segment.value / totals[i]) * 100}%` }}
+                  title={`${segment.title}: ${format(segment.value)}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1.5">
+        {labels.map(label => (
+          <span key={label} className="flex-1 text-center text-[10px] text-slate-500">{label}</span>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+/**
+ * Practice over time next to the chat: the streak toward the daily goal and
+ * weekly charts, computed from the sessions stored on this device.
+ */
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
+  weeks,
+  todayMinutes,
+  streak,
+  goalMinutes,
+  onGoalChange,
+  onClose
+}) => {
+  const { locale, t } = useI18n();
+  const labels = weeks.map(week => new Date(week.weekStart).toLocaleDateString(locale, { month: 'short', day: 'numeric' }));
+  const single = (className: string, title: string, value: (week: WeeklyProgress) => number) =>
+    weeks.map(week => [{ value: value(week), className, title }]);
+  const hasPractice = weeks.some(week => week.sessions > 0 || week.practiceMinutes > 0);
+  const goalShare = goalMinutes > 0 ? Math.min(1, todayMinutes / goalMinutes) : todayMinutes > 0 ? 1 : 0;
+  const errorCategories = CORRECTION_CATEGORIES.filter(category => weeks.some(week => week.errorsPer100Words[category]));
+
+  return (
+    <aside className="w-96 flex-none flex flex-col border-l border-slate-800 bg-slate-900/70 min-h-0">
+      <div className="p-4 flex items-center justify-between border-b border-slate-800">
+        <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t('progress.title')}</h2>
+        <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('progress.close')}>
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="rounded-lg bg-slate-800/60 border border-slate-700/60 px-3 py-2">
+            <p className="flex items-center gap-1 text-xs uppercase tracking-wide text-slate-400">
+              <Flame size={14} className={streak ? 'text-orange-400' : ''} /> {t('progress.streak')}
+            </p>
+            <p className="text-lg font-semibold text-white">{t('progress.streakDays', { count: streak })}</p>
+          </div>
+          <div className="rounded-lg bg-slate-800/60 border border-slate-700/60 px-3 py-2">
+            <p className="flex items-center gap-1 text-xs uppercase tracking-wide text-slate-400">
+              <Target size={14} /> {t('progress.today')}
+            </p>
+            <p className="text-lg font-semibold text-white">
+              {t('progress.todayMinutes', { minutes: todayMinutes, goal: goalMinutes })}
+            </p>
+            <div className="mt-1 h-1.5 rounded-full bg-slate-700 overflow-hidden">
+              <div className={`h-full ${goalShare >= 1 ? 'bg-emerald-400' : 'bg-indigo-400'}`} style={{ width: `${goalShare * 100}%` }} />
+            </div>
+          </div>
+        </div>
+        {goalShare >= 1 && <p className="-mt-4 text-xs text-emerald-300">{t('progress.goalMet')}</p>}
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor="daily-goal" className="text-xs uppercase text-slate-400 tracking-wide">{t('progress.goal')}</label>
+          <input
+            id="daily-goal"
+            type="number"
+            min={0}
+            max={MAX_GOAL_MINUTES}
+            step={5}
+            value={goalMinutes}
+            onChange={(e) => onGoalChange(Math.min(MAX_GOAL_MINUTES, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+            className="w-28 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <span className="text-[11px] text-slate-500">{t('progress.goalHint')}</span>
+        </div>
+
+        {hasPractice ? (
+          <>
+            <WeeklyChart title={t('progress.minutes')} labels={labels} bars={single('bg-indigo-400', t('progress.minutes'), week => week.practiceMinutes)} />
+            <WeeklyChart title={t('progress.sessions')} labels={labels} bars={single('bg-sky-400', t('progress.sessions'), week => week.sessions)} />
+            <WeeklyChart title={t('progress.words')} labels={labels} bars={single('bg-emerald-400', t('progress.words'), week => week.wordsSpoken)} />
+            <WeeklyChart
+              title={t('progress.errors')}
+              labels={labels}
+              bars={weeks.map(week => errorCategories.map(category => ({
+                value: week.errorsPer100Words[category] ?? 0,
+                className: CATEGORY_COLORS[category],
+                title: t(`category.${category}`)
+              })))}
+              format={value => value.toFixed(1)}
+            />
+            {errorCategories.length > 0 && (
+              <ul className="-mt-4 flex flex-wrap gap-x-3 gap-y-1">
+                {errorCategories.map(category => (
+                  <li key={category} className="flex items-center gap-1 text-[11px] text-slate-400">
+                    <span className={`w-2 h-2 rounded-sm ${CATEGORY_COLORS[category]}`} />
+                    {t(`category.${category}`)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <WeeklyChart title={t('progress.vocabulary')} labels={labels} bars={single('bg-violet-400', t('progress.vocabulary'), week => week.vocabularySize)} />
+          </>
+        ) : (
+          <p className="text-sm text-slate-400">{t('progress.empty')}</p>
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,395 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CategoryMastery, Dictation, DictationEvents, Exercise, MasteryLevel, TutorSession } from '../types';
+import { BLANK, collectMistakes, pickMistakes, QuizMistake } from '../utils/quiz';
+import { TutorError } from '../utils/errors';
+import { useI18n } from '../i18n';
+import { CheckCircle2, GraduationCap, Mic, Square, X, XCircle } from 'lucide-react';
+
+interface QuizPanelProps {
+  sessions: TutorSession[];
+  mastery: CategoryMastery[];
+  onCreate: (mistakes: QuizMistake[]) => Promise<Exercise[]>;
+  // Grades and records an answer
+  onAnswer: (exercise: Exercise, response: string, spoken: boolean) => boolean;
+  onDictate: (events: DictationEvents) => Promise<Dictation>;
+  onClose: () => void;
+}
+
+type Phase = 'start' | 'loading' | 'question' | 'finished';
+
+const LEVEL_COLORS: Record<MasteryLevel, string> = {
+  new: 'bg-slate-500',
+  learning: 'bg-red-400',
+  practicing: 'bg-amber-400',
+  mastered: 'bg-emerald-400'
+};
+
+/**
+ * Drills made from the corrections of the learner's recent conversations,
+ * answered by typing, picking or speaking, with the mastery of each
+ * correction category.
+ */
+export const QuizPanel: React.FC<QuizPanelProps> = ({ sessions, mastery, onCreate, onAnswer, onDictate, onClose }) => {
+  const { t } = useI18n();
+  const mistakes = useMemo(() => collectMistakes(sessions), [sessions]);
+  const [phase, setPhase] = useState<Phase>('start');
+  const [failed, setFailed] = useState(false);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [index, setIndex] = useState(0);
+  const [score, setScore] = useState(0);
+  const [response, setResponse] = useState('');
+  // Word indexes picked so far in a reorder exercise
+  const [picked, setPicked] = useState<number[]>([]);
+  const [spoken, setSpoken] = useState(false);
+  // Grade of the current answer once checked
+  const [result, setResult] = useState<boolean | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [dictationError, setDictationError] = useState<TutorError | null>(null);
+  const dictationRef = useRef<Dictation | null>(null);
+
+  const exercise = exercises[index];
+
+  const stopListening = () => {
+    dictationRef.current?.cancel();
+    dictationRef.current = null;
+    setIsListening(false);
+  };
+
+  useEffect(() => () => dictationRef.current?.cancel(), []);
+
+  const showExercise = (next: Exercise | undefined) => {
+    stopListening();
+    setResponse(next?.type === 'fix-sentence' ? next.prompt : '');
+    setPicked([]);
+    setSpoken(false);
+    setResult(null);
+    setDictationError(null);
+  };
+
+  const start = async () => {
+    setPhase('loading');
+    setFailed(false);
+    try {
+      const created = await onCreate(pickMistakes(mistakes, mastery));
+      setExercises(created);
+      setIndex(0);
+      setScore(0);
+      showExercise(created[0]);
+      setPhase(created.length ? 'question' : 'start');
+    } catch (e) {
+      console.error('Failed to create the quiz', e);
+      setFailed(true);
+      setPhase('start');
+    }
+  };
+
+  const listen = async () => {
+    if (isListening) {
+      dictationRef.current?.stop();
+      return;
+    }
+    setDictationError(null);
+    setIsListening(true);
+    const applySpoken = (text: string) => {
+      if (!text) return;
+      setResponse(text);
+      setPicked([]);
+      setSpoken(true);
+    };
+    try {
+      dictationRef.current = await onDictate({
+        onText: applySpoken,
+        onEnd: (text) => {
+          applySpoken(text);
+          dictationRef.current = null;
+          setIsListening(false);
+        },
+        onError: (error) => {
+          dictationRef.current = null;
+          setIsListening(false);
+          setDictationError(error);
+        }
+      });
+    } catch (e) {
+      setIsListening(false);
+      setDictationError(e instanceof TutorError ? e : new TutorError('unknown', String(e)));
+    }
+  };
+
+  const check = () => {
+    if (!exercise || !response.trim()) return;
+    stopListening();
+    const correct = onAnswer(exercise, response, spoken);
+    setResult(correct);
+    if (correct) setScore(prev => prev + 1);
+  };
+
+  const next = () => {
+    if (index + 1 >= exercises.length) {
+      stopListening();
+      setPhase('finished');
+      return;
+    }
+    setIndex(index + 1);
+    showExercise(exercises[index + 1]);
+  };
+
+  const typeResponse = (text: string) => {
+    setResponse(text);
+    setSpoken(false);
+  };
+
+  const pickWord = (wordIndex: number) => {
+    if (!exercise) return;
+    const nextPicked = picked.includes(wordIndex) ? picked.filter(i => i !== wordIndex) : [...picked, wordIndex];
+    setPicked(nextPicked);
+    typeResponse(nextPicked.map(i => exercise.options[i]).join(' '));
+  };
+
+  const renderPrompt = (prompt: string) => {
+    const [before, after] = prompt.split(BLANK);
+    if (after === undefined) return prompt;
+    return (
+      <>
+        {before}
+        <span className="inline-block min-w-[4rem] border-b-2 border-indigo-400 text-indigo-200 px-1">
+          {result === null ? ' ' : exercise.answer}
+        </span>
+        {after}
+      </>
+    );
+  };
+
+  const renderMastery = () => (
+    <div className="space-y-2">
+      <h3 className="text-xs uppercase tracking-wide text-slate-400">{t('quiz.mastery')}</h3>
+      <ul className="grid grid-cols-2 gap-2">
+        {mastery.map(item => (
+          <li key={item.category} className="rounded-lg bg-slate-800/60 border border-slate-700/60 px-3 py-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-200">{t(`category.${item.category}`)}</span>
+              <span className="text-[11px] text-slate-400">{t(`quiz.level.${item.level}`)}</span>
+            </div>
+            <div className="mt-1.5 h-1.5 rounded-full bg-slate-700 overflow-hidden">
+              <div className={`h-full ${LEVEL_COLORS[item.level]}`} style={{ width: `${Math.round(item.score * 100)}%` }} />
+            </div>
+            {item.attempts > 0 && (
+              <p className="mt-1 text-[11px] text-slate-500">
+                {t('quiz.masteryDetail', { correct: item.correct, attempts: item.attempts })}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const renderAnswer = () => {
+    if (!exercise) return null;
+    const locked = result !== null;
+
+    if (exercise.type === 'multiple-choice') {
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          {exercise.options.map(option => (
+            <button
+              key={option}
+              onClick={() => typeResponse(option)}
+              disabled={locked}
+              className={`px-3 py-2 rounded-lg border text-sm transition-colors disabled:cursor-default ${
+                response === option
+                  ? 'bg-indigo-500/20 border-indigo-400 text-white'
+                  : 'bg-slate-800 border-slate-700 text-slate-200 hover:bg-slate-700'
+              }`}
+              lang="en"
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    if (exercise.type === 'reorder') {
+      return (
+        <div className="space-y-3">
+          <div className="min-h-[3rem] flex flex-wrap items-center gap-2 rounded-lg bg-slate-800/60 border border-slate-700/60 px-3 py-2" lang="en">
+            {spoken ? <span className="text-sm text-slate-200">{response}</span> : picked.map(i => (
+              <button key={i} onClick={() => pickWord(i)} disabled={locked} className="px-2 py-1 rounded bg-indigo-500/20 text-indigo-100 text-sm">
+                {exercise.options[i]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2" lang="en">
+            {exercise.options.map((word, i) => (
+              <button
+                key={i}
+                onClick={() => pickWord(i)}
+                disabled={locked || picked.includes(i)}
+                className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-200 text-sm hover:bg-slate-700 disabled:opacity-30"
+              >
+                {word}
+              </button>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <textarea
+        value={response}
+        onChange={(e) => typeResponse(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            check();
+          }
+        }}
+        disabled={locked}
+        rows={exercise.type === 'fix-sentence' ? 2 : 1}
+        placeholder={t('quiz.placeholder')}
+        className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+        lang="en"
+        autoFocus
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[90vh] flex flex-col rounded-2xl bg-slate-900 border border-slate-700 shadow-2xl p-6 overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('quiz.title')}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <GraduationCap size={20} className="text-indigo-400" /> {t('quiz.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('quiz.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {phase === 'start' && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-300">
+              {mistakes.length ? t('quiz.intro', { count: mistakes.length }) : t('quiz.noMistakes')}
+            </p>
+            {failed && <p className="text-sm text-red-400">{t('quiz.failed')}</p>}
+            <button
+              onClick={start}
+              disabled={!mistakes.length}
+              className="w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('quiz.start')}
+            </button>
+            {renderMastery()}
+          </div>
+        )}
+
+        {phase === 'loading' && (
+          <div className="flex items-center justify-center gap-3 py-10 text-sm text-slate-400">
+            <span className="w-5 h-5 border-2 border-slate-600 border-t-indigo-400 rounded-full animate-spin" />
+            {t('quiz.generating')}
+          </div>
+        )}
+
+        {phase === 'question' && exercise && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <span>{t('quiz.progress', { current: index + 1, total: exercises.length })}</span>
+              <span>{t(`category.${exercise.category}`)}</span>
+            </div>
+            <p className="text-sm font-medium text-indigo-300">{t(`quiz.type.${exercise.type}`)}</p>
+            {exercise.prompt && exercise.type !== 'fix-sentence' && (
+              <p className="text-lg text-white" lang="en">{renderPrompt(exercise.prompt)}</p>
+            )}
+            {exercise.type === 'fix-sentence' && (
+              <p className="text-lg text-white italic" lang="en">“{exercise.prompt}”</p>
+            )}
+
+            {renderAnswer()}
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={listen}
+                disabled={result !== null}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  isListening ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-200 hover:bg-slate-700'
+                }`}
+                title={isListening ? t('quiz.stopSpeaking') : t('quiz.speak')}
+              >
+                {isListening ? <Square size={16} /> : <Mic size={16} />}
+                {isListening ? t('quiz.listening') : t('quiz.speak')}
+              </button>
+              {exercise.type === 'reorder' && (
+                <button
+                  onClick={() => {
+                    setPicked([]);
+                    typeResponse('');
+                  }}
+                  disabled={result !== null || !response}
+                  className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {t('quiz.clear')}
+                </button>
+              )}
+              {result === null ? (
+                <button
+                  onClick={check}
+                  disabled={!response.trim()}
+                  className="ml-auto px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('quiz.check')}
+                </button>
+              ) : (
+                <button
+                  onClick={next}
+                  className="ml-auto px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium"
+                >
+                  {index + 1 >= exercises.length ? t('quiz.results') : t('quiz.next')}
+                </button>
+              )}
+            </div>
+
+            {dictationError && (
+              <p className="text-xs text-red-400">{t(`error.${dictationError.kind}.title`)}</p>
+            )}
+
+            {result !== null && (
+              <div className={`rounded-xl border px-4 py-3 text-sm ${
+                result ? 'bg-emerald-500/10 border-emerald-500/40' : 'bg-red-500/10 border-red-500/40'
+              }`}>
+                <p className={`flex items-center gap-2 font-semibold ${result ? 'text-emerald-300' : 'text-red-300'}`}>
+                  {result ? <CheckCircle2 size={16} /> : <XCircle size={16} />}
+                  {result ? t('quiz.correct') : t('quiz.incorrect')}
+                </p>
+                {!result && <p className="mt-1 text-white" lang="en">{exercise.answer}</p>}
+                {exercise.explanation && <p className="mt-1 text-slate-300">{exercise.explanation}</p>}
+              </div>
+            )}
+          </div>
+        )}
+
+        {phase === 'finished' && (
+          <div className="space-y-4">
+            <p className="text-center text-lg font-semibold text-white">
+              {t('quiz.score', { correct: score, total: exercises.length })}
+            </p>
+            {renderMastery()}
+            <button
+              onClick={start}
+              disabled={!mistakes.length}
+              className="w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium disabled:opacity-50"
+            >
+              {t('quiz.again')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { CefrLevel } from '../types';
+import { CEFR_LEVELS, getScenario, SCENARIOS } from '../utils/scenarios';
+import { scenarioText, useI18n } from '../i18n';
+
+interface ScenarioPickerProps {
+  scenarioId: string;
+  level: CefrLevel;
+  onChange: (patch: { scenarioId?: string; level?: CefrLevel }) => void;
+  disabled: boolean;
+}
+
+const selectClass = 'px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50';
+
+export const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ scenarioId, level, onChange, disabled }) => {
+  const { t } = useI18n();
+  const scenario = getScenario(scenarioId);
+
+  return (
+    <div className="max-w-3xl mx-auto mb-4 flex flex-col sm:flex-row sm:items-end gap-3">
+      <div className="flex flex-col gap-1">
+        <label htmlFor="scenario" className="text-xs uppercase text-slate-400 tracking-wide">{t('scenario.label')}</label>
+        <select
+          id="scenario"
+          value={scenario.id}
+          disabled={disabled}
+          onChange={(e) => onChange({ scenarioId: e.target.value })}
+          className={selectClass}
+        >
+          {SCENARIOS.map(s => (
+            <option key={s.id} value={s.id}>{scenarioText(t, s).title}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="cefr-level" className="text-xs uppercase text-slate-400 tracking-wide">{t('scenario.level')}</label>
+        <select
+          id="cefr-level"
+          value={level}
+          disabled={disabled}
+          onChange={(e) => onChange({ level: e.target.value as CefrLevel })}
+          className={selectClass}
+        >
+          {CEFR_LEVELS.map(l => (
+            <option key={l} value={l}>{l} · {t(`level.${l}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 text-xs text-slate-500 leading-relaxed">
+        <p className="text-slate-400">{scenarioText(t, scenario).description}</p>
+        <p>{t('scenario.tryUsing', { words: scenario.targetVocabulary.join(', ') })}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { SessionReport as Report, TutorSession } from '../types';
+import { reportToHtml } from '../utils/report';
+import { downloadFile, slugify } from '../utils/exportUtils';
+import { useI18n } from '../i18n';
+import { Download, FileText, Loader2, Printer, X } from 'lucide-react';
+
+interface SessionReportProps {
+  session: TutorSession | null;
+  report: Report | null;
+  isGenerating: boolean;
+  onClose: () => void;
+}
+
+/**
+ * End-of-session feedback: summary, mistakes by category, new vocabulary and
+ * focus areas, with a printable HTML version.
+ */
+export const SessionReport: React.FC<SessionReportProps> = ({ session, report, isGenerating, onClose }) => {
+  const { t } = useI18n();
+
+  const handlePrint = () => {
+    if (!session || !report) return;
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(reportToHtml(session, report, t));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  const handleDownload = () => {
+    if (!session || !report) return;
+    downloadFile(`${slugify(session.title) || 'session'}-report.html`, reportToHtml(session, report, t), 'text/html');
+  };
+
+  const section = (title: string, body: React.ReactNode) => (
+    <section>
+      <h3 className="text-xs uppercase tracking-wide text-slate-400 mb-2">{title}</h3>
+      {body}
+    </section>
+  );
+  const none = <p className="text-sm text-slate-500">{t('report.none')}</p>;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl bg-slate-900 border border-slate-700 shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('report.title')}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <FileText size={20} className="text-indigo-400" /> {t('report.title')}
+          </h2>
+          <div className="flex items-center gap-1">
+            {report && (
+              <>
+                <button onClick={handlePrint} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('report.print')}>
+                  <Printer size={18} />
+                </button>
+                <button onClick={handleDownload} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('report.download')}>
+                  <Download size={18} />
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('report.close')}>
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {report ? (
+          <div className="space-y-5">
+            {section(t('report.summary'), report.summary
+              ? <p className="text-sm text-slate-200 leading-relaxed">{report.summary}</p>
+              : none)}
+
+            {section(t('report.mistakes'), report.mistakes.length ? (
+              <ul className="space-y-2">
+                {report.mistakes.map(({ category, count, examples }) => (
+                  <li key={category} className="rounded-xl bg-slate-800/60 border border-slate-700/60 px-4 py-3">
+                    <div className="flex items-center justify-between text-sm font-semibold text-white">
+                      <span>{t(`category.${category}`)}</span>
+                      <span className="text-slate-400">×{count}</span>
+                    </div>
+                    {examples.map((example, i) => (
+                      <p key={i} className="text-sm mt-1">
+                        <span className="line-through text-red-400/80">{example.original}</span>
+                        {' → '}
+                        <span className="text-emerald-400">{example.corrected}</span>
+                      </p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            ) : <p className="text-sm text-slate-400">{t('report.noMistakes')}</p>)}
+
+            {section(t('report.vocabulary'), report.newVocabulary.length ? (
+              <div className="flex flex-wrap gap-2">
+                {report.newVocabulary.map(term => (
+                  <span key={term} className="px-2.5 py-1 rounded-full bg-indigo-500/15 border border-indigo-500/30 text-sm text-indigo-200">{term}</span>
+                ))}
+              </div>
+            ) : none)}
+
+            {section(t('report.focus'), report.focusAreas.length ? (
+              <ol className="list-decimal list-inside space-y-1 text-sm text-slate-200">
+                {report.focusAreas.map(area => <li key={area}>{area}</li>)}
+              </ol>
+            ) : none)}
+
+            {report.fluency && section(t('fluency.title'), (
+              <p className="text-sm text-slate-300">
+                {t('fluency.wpm')}: {report.fluency.wordsPerMinute ?? '—'}
+                {' · '}{t('fluency.typeTokenRatio')}: {report.fluency.typeTokenRatio.toFixed(2)}
+                {' · '}{t('fluency.fillers')}: {report.fluency.fillerCount}
+              </p>
+            ))}
+          </div>
+        ) : isGenerating ? (
+          <p className="flex items-center gap-2 text-sm text-slate-400">
+            <Loader2 size={16} className="animate-spin" /> {t('report.generating')}
+          </p>
+        ) : (
+          <p className="text-sm text-slate-400">{t('report.empty')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { TutorSession } from '../types';
+import { getScenario } from '../utils/scenarios';
+import { scenarioText, Translate, useI18n } from '../i18n';
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface SessionSidebarProps {
+  sessions: TutorSession[];
+  activeSessionId: string | null;
+  viewedSessionId: string | null;
+  canStartNew: boolean;
+  onOpen: (session: TutorSession) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onNewSession: () => void;
+}
+
+const formatDuration = (session: TutorSession, t: Translate): string => {
+  if (session.endedAt === null) return t('history.inProgress');
+  const minutes = Math.max(1, Math.round((session.endedAt - session.startedAt) / 60000));
+  return t('history.minutes', { minutes });
+};
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  sessions,
+  activeSessionId,
+  viewedSessionId,
+  canStartNew,
+  onOpen,
+  onRename,
+  onDelete,
+  onNewSession
+}) => {
+  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (session: TutorSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-72 flex-none flex flex-col border-r border-slate-800 bg-slate-900/70 min-h-0">
+      <div className="p-4 flex items-center justify-between border-b border-slate-800">
+        <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t('history.title')}</h2>
+        <button
+          onClick={onNewSession}
+          disabled={!canStartNew}
+          className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          title={t('history.new')}
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1 scrollbar-hide">
+        {sessions.length === 0 && (
+          <li className="p-4 text-sm text-slate-500 text-center">{t('history.empty')}</li>
+        )}
+        {sessions.map(session => {
+          const isActive = session.id === activeSessionId;
+          const isViewed = session.id === viewedSessionId;
+          return (
+            <li
+              key={session.id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer transition-colors ${
+                isViewed ? 'bg-indigo-600/20 border border-indigo-500/40' : 'hover:bg-slate-800 border border-transparent'
+              }`}
+              onClick={() => editingId !== session.id && onOpen(session)}
+            >
+              {editingId === session.id ? (
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 bg-slate-950 border border-slate-700 rounded text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <button onClick={commitRename} className="p-1 text-emerald-400 hover:text-emerald-300" title={t('history.save')}>
+                    <Check size={14} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-white" title={t('history.cancel')}>
+                    <X size={14} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-start gap-2">
+                  <MessageSquare size={16} className={`mt-0.5 shrink-0 ${isActive ? 'text-green-400' : 'text-slate-500'}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-200 truncate">{session.title}</p>
+                    <p className="text-xs text-slate-500 truncate">
+                      {scenarioText(t, getScenario(session.scenarioId)).title}{session.level ? ` · ${session.level}` : ''}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {t('history.messages', { count: session.messages.length })} · {formatDuration(session, t)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startEditing(session);
+                      }}
+                      className="p-1 text-slate-400 hover:text-white"
+                      title={t('history.rename')}
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (window.confirm(t('history.confirmDelete', { title: session.title }))) onDelete(session.id);
+                      }}
+                      disabled={isActive}
+                      className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title={t('history.delete')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+};
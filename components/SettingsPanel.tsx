@@ -0,0 +1,408 @@
+import React from 'react';
+import {
+  Accent,
+  LlmProviderId,
+  LlmSettings,
+  RealtimeSettings,
+  RecognizerEngine,
+  SessionMode,
+  SynthesizerEngine,
+  TranscriptionSettings,
+  TtsSettings,
+  UiLocale,
+  UsageSettings
+} from '../types';
+import { PROVIDERS } from '../providers';
+import { DEFAULT_TRANSCRIPTION_SETTINGS, RECOGNIZER_ENGINES, resolveEngine } from '../recognizers';
+import { ACCENTS, DEFAULT_TTS_SETTINGS, SYNTHESIZER_ENGINES, TTS_VOICES } from '../synthesizers';
+import { LOCALES, useI18n } from '../i18n';
+
+interface SettingsPanelProps {
+  settings: LlmSettings;
+  onChange: (patch: Partial<LlmSettings>) => void;
+  transcription: TranscriptionSettings;
+  onTranscriptionChange: (patch: Partial<TranscriptionSettings>) => void;
+  tts: TtsSettings;
+  onTtsChange: (patch: Partial<TtsSettings>) => void;
+  realtime: RealtimeSettings;
+  onRealtimeChange: (patch: Partial<RealtimeSettings>) => void;
+  explanationLanguage: UiLocale;
+  onExplanationLanguageChange: (language: UiLocale) => void;
+  autoCollectVocabulary: boolean;
+  onAutoCollectVocabularyChange: (enabled: boolean) => void;
+  usageSettings: UsageSettings;
+  onUsageSettingsChange: (patch: Partial<UsageSettings>) => void;
+  // Provider and endpoints are fixed by the school server in proxy mode
+  proxyMode: boolean;
+  disabled: boolean;
+}
+
+const SESSION_MODES: SessionMode[] = ['pipeline', 'realtime'];
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50';
+const labelClass = 'text-xs uppercase text-slate-400 tracking-wide';
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  onChange,
+  transcription,
+  onTranscriptionChange,
+  tts,
+  onTtsChange,
+  realtime,
+  onRealtimeChange,
+  explanationLanguage,
+  onExplanationLanguageChange,
+  autoCollectVocabulary,
+  onAutoCollectVocabularyChange,
+  usageSettings,
+  onUsageSettingsChange,
+  proxyMode,
+  disabled
+}) => {
+  const { t } = useI18n();
+  const info = PROVIDERS[settings.provider];
+  const usesWhisper = resolveEngine(transcription.engine) === 'whisper';
+  const isRealtime = realtime.mode === 'realtime';
+  const usesCloudTts = tts.engine === 'cloud' || isRealtime;
+  // Prices are kept per model, so the fields follow the model being used
+  const model = settings.model || info.defaultModel;
+  const price = usageSettings.prices[model];
+  const updatePrice = (patch: { input?: number; output?: number }) => {
+    onUsageSettingsChange({
+      prices: { ...usageSettings.prices, [model]: { input: 0, output: 0, ...price, ...patch } }
+    });
+  };
+  // Empty or invalid amounts count as zero (no budget, free model)
+  const toAmount = (value: string) => Math.max(0, Number(value) || 0);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 p-4 bg-slate-900/90 border-b border-slate-800">
+      <div className="flex flex-col gap-1">
+        <label htmlFor="session-mode" className={labelClass}>{t('settings.mode')}</label>
+        <select
+          id="session-mode"
+          value={realtime.mode}
+          disabled={disabled}
+          onChange={(e) => onRealtimeChange({ mode: e.target.value as SessionMode })}
+          className={inputClass}
+        >
+          {SESSION_MODES.map(mode => (
+            <option key={mode} value={mode} disabled={proxyMode && mode === 'realtime'}>{t(`settings.mode.${mode}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="realtime-model" className={labelClass}>{t('settings.realtimeModel')}</label>
+        <input
+          id="realtime-model"
+          type="text"
+          value={realtime.model}
+          disabled={disabled || !isRealtime}
+          onChange={(e) => onRealtimeChange({ model: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1 sm:col-span-2">
+        <label htmlFor="realtime-url" className={labelClass}>{t('settings.realtimeUrl')}</label>
+        <input
+          id="realtime-url"
+          type="url"
+          value={realtime.url}
+          disabled={disabled || !isRealtime}
+          onChange={(e) => onRealtimeChange({ url: e.target.value })}
+          placeholder="wss://api.openai.com/v1/realtime"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="llm-provider" className={labelClass}>{t('settings.provider')}</label>
+        <select
+          id="llm-provider"
+          value={proxyMode ? 'openai' : settings.provider}
+          disabled={disabled || proxyMode}
+          onChange={(e) => onChange({ provider: e.target.value as LlmProviderId })}
+          className={inputClass}
+        >
+          {(Object.keys(PROVIDERS) as LlmProviderId[]).map(id => (
+            <option key={id} value={id}>{t(`settings.provider.${id}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="llm-model" className={labelClass}>{t('settings.model')}</label>
+        <input
+          id="llm-model"
+          type="text"
+          value={settings.model}
+          disabled={disabled || settings.provider === 'mock'}
+          onChange={(e) => onChange({ model: e.target.value })}
+          placeholder={info.defaultModel}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="llm-base-url" className={labelClass}>{t('settings.baseUrl')}</label>
+        <input
+          id="llm-base-url"
+          type="url"
+          value={proxyMode ? t('settings.schoolServer') : settings.baseUrl}
+          disabled={disabled || proxyMode || settings.provider === 'mock'}
+          onChange={(e) => onChange({ baseUrl: e.target.value })}
+          placeholder={info.defaultBaseUrl}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="llm-temperature" className={labelClass}>
+          {t('settings.temperature', { value: settings.temperature.toFixed(1) })}
+        </label>
+        <input
+          id="llm-temperature"
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={settings.temperature}
+          disabled={disabled}
+          onChange={(e) => onChange({ temperature: Number(e.target.value) })}
+          className="w-full accent-indigo-500 mt-2"
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="stt-engine" className={labelClass}>{t('settings.recognizer')}</label>
+        <select
+          id="stt-engine"
+          value={transcription.engine}
+          disabled={disabled}
+          onChange={(e) => onTranscriptionChange({ engine: e.target.value as RecognizerEngine })}
+          className={inputClass}
+        >
+          {(Object.keys(RECOGNIZER_ENGINES) as RecognizerEngine[]).map(engine => (
+            <option key={engine} value={engine}>{t(`settings.recognizer.${engine}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="stt-lang" className={labelClass}>{t('settings.recognitionAccent')}</label>
+        <select
+          id="stt-lang"
+          value={transcription.lang}
+          disabled={disabled}
+          onChange={(e) => onTranscriptionChange({ lang: e.target.value as Accent })}
+          className={inputClass}
+        >
+          {(Object.keys(ACCENTS) as Accent[]).map(accent => (
+            <option key={accent} value={accent}>{t(`accent.${accent}`)} ({accent})</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="stt-model" className={labelClass}>{t('settings.transcriptionModel')}</label>
+        <input
+          id="stt-model"
+          type="text"
+          value={transcription.model}
+          disabled={disabled || !usesWhisper}
+          onChange={(e) => onTranscriptionChange({ model: e.target.value })}
+          placeholder={DEFAULT_TRANSCRIPTION_SETTINGS.model}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1 sm:col-span-2">
+        <label htmlFor="stt-base-url" className={labelClass}>{t('settings.transcriptionBaseUrl')}</label>
+        <input
+          id="stt-base-url"
+          type="url"
+          value={proxyMode ? t('settings.schoolServer') : transcription.baseUrl}
+          disabled={disabled || proxyMode || !usesWhisper}
+          onChange={(e) => onTranscriptionChange({ baseUrl: e.target.value })}
+          placeholder={DEFAULT_TRANSCRIPTION_SETTINGS.baseUrl}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="tts-engine" className={labelClass}>{t('settings.synthesizer')}</label>
+        <select
+          id="tts-engine"
+          value={tts.engine}
+          disabled={disabled}
+          onChange={(e) => onTtsChange({ engine: e.target.value as SynthesizerEngine })}
+          className={inputClass}
+        >
+          {(Object.keys(SYNTHESIZER_ENGINES) as SynthesizerEngine[]).map(engine => (
+            <option key={engine} value={engine}>{t(`settings.synthesizer.${engine}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="tts-accent" className={labelClass}>{t('settings.accent')}</label>
+        <select
+          id="tts-accent"
+          value={tts.accent}
+          disabled={disabled}
+          onChange={(e) => onTtsChange({ accent: e.target.value as Accent })}
+          className={inputClass}
+        >
+          {(Object.keys(ACCENTS) as Accent[]).map(accent => (
+            <option key={accent} value={accent}>{t(`accent.${accent}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="tts-voice" className={labelClass}>{t('settings.voice')}</label>
+        <select
+          id="tts-voice"
+          value={tts.voice}
+          disabled={disabled || !usesCloudTts}
+          onChange={(e) => onTtsChange({ voice: e.target.value })}
+          className={inputClass}
+        >
+          {TTS_VOICES.map(voice => (
+            <option key={voice} value={voice}>{voice}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="tts-speed" className={labelClass}>
+          {t('settings.speed', { value: tts.speed.toFixed(2) })}
+        </label>
+        <input
+          id="tts-speed"
+          type="range"
+          min={0.5}
+          max={1.5}
+          step={0.05}
+          value={tts.speed}
+          disabled={disabled}
+          onChange={(e) => onTtsChange({ speed: Number(e.target.value) })}
+          className="w-full accent-indigo-500 mt-2"
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="tts-model" className={labelClass}>{t('settings.speechModel')}</label>
+        <input
+          id="tts-model"
+          type="text"
+          value={tts.model}
+          disabled={disabled || !usesCloudTts}
+          onChange={(e) => onTtsChange({ model: e.target.value })}
+          placeholder={DEFAULT_TTS_SETTINGS.model}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="explanation-language" className={labelClass}>{t('settings.explanations')}</label>
+        <select
+          id="explanation-language"
+          value={explanationLanguage}
+          disabled={disabled}
+          onChange={(e) => onExplanationLanguageChange(e.target.value as UiLocale)}
+          className={inputClass}
+        >
+          {(Object.keys(LOCALES) as UiLocale[]).map(language => (
+            <option key={language} value={language}>{t(`settings.explanations.${language}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="auto-collect" className={labelClass}>{t('settings.autoCollect')}</label>
+        <select
+          id="auto-collect"
+          value={autoCollectVocabulary ? 'auto' : 'manual'}
+          onChange={(e) => onAutoCollectVocabularyChange(e.target.value === 'auto')}
+          className={inputClass}
+        >
+          <option value="auto">{t('settings.autoCollect.auto')}</option>
+          <option value="manual">{t('settings.autoCollect.manual')}</option>
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="budget-warn" className={labelClass}>{t('settings.budgetWarn')}</label>
+        <input
+          id="budget-warn"
+          type="number"
+          min={0}
+          step={0.05}
+          value={usageSettings.warnAtUsd}
+          onChange={(e) => onUsageSettingsChange({ warnAtUsd: toAmount(e.target.value) })}
+          placeholder={t('settings.off')}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="budget-cap" className={labelClass}>{t('settings.budgetCap')}</label>
+        <input
+          id="budget-cap"
+          type="number"
+          min={0}
+          step={0.05}
+          value={usageSettings.capUsd}
+          onChange={(e) => onUsageSettingsChange({ capUsd: toAmount(e.target.value) })}
+          placeholder={t('settings.off')}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="price-input" className={labelClass}>{t('settings.inputPrice', { model })}</label>
+        <input
+          id="price-input"
+          type="number"
+          min={0}
+          step={0.01}
+          value={price?.input ?? ''}
+          onChange={(e) => updatePrice({ input: toAmount(e.target.value) })}
+          placeholder={t('settings.notPriced')}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="price-output" className={labelClass}>{t('settings.outputPrice', { model })}</label>
+        <input
+          id="price-output"
+          type="number"
+          min={0}
+          step={0.01}
+          value={price?.output ?? ''}
+          onChange={(e) => updatePrice({ output: toAmount(e.target.value) })}
+          placeholder={t('settings.notPriced')}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1 sm:col-span-2">
+        <label htmlFor="tts-base-url" className={labelClass}>{t('settings.speechBaseUrl')}</label>
+        <input
+          id="tts-base-url"
+          type="url"
+          value={proxyMode ? t('settings.schoolServer') : tts.baseUrl}
+          disabled={disabled || proxyMode || !usesCloudTts}
+          onChange={(e) => onTtsChange({ baseUrl: e.target.value })}
+          placeholder={DEFAULT_TTS_SETTINGS.baseUrl}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { ConversationSummary } from '../types';
+import { useI18n } from '../i18n';
+import { ScrollText } from 'lucide-react';
+
+interface SummaryMenuProps {
+  summary: ConversationSummary | null;
+}
+
+/**
+ * Shows the running summary the tutor keeps of older turns in long sessions.
+ */
+export const SummaryMenu: React.FC<SummaryMenuProps> = ({ summary }) => {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`p-2 rounded-lg transition-colors ${isOpen ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+        title={t('summary.open')}
+      >
+        <ScrollText size={22} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-80 rounded-xl bg-slate-900 border border-slate-700 shadow-xl p-4 z-30">
+          <h2 className="text-sm font-semibold text-white mb-2">{t('summary.title')}</h2>
+          {summary ? (
+            <>
+              <p className="text-sm text-slate-300 whitespace-pre-wrap">{summary.text}</p>
+              <p className="mt-3 text-xs text-slate-500">
+                {t('summary.updated', { time: new Date(summary.updatedAt).toLocaleTimeString(locale) })}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">
+              {t('summary.empty')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { UsageRecord, UsageSettings } from '../types';
+import { DailyUsage, formatUsd, usageToCsv, UsageTotals } from '../utils/usage';
+import { downloadFile } from '../utils/exportUtils';
+import { useI18n } from '../i18n';
+import { Coins, Download } from 'lucide-react';
+
+interface UsageMenuProps {
+  session: UsageTotals;
+  today: UsageTotals;
+  days: DailyUsage[];
+  records: UsageRecord[];
+  budget: Pick<UsageSettings, 'warnAtUsd' | 'capUsd'>;
+}
+
+// Days listed in the popover; the CSV export has the full history
+const RECENT_DAYS = 7;
+
+/**
+ * Header badge with the estimated cost of the current session, opening the
+ * token and cost totals per session and per day.
+ */
+export const UsageMenu: React.FC<UsageMenuProps> = ({ session, today, days, records, budget }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const overCap = budget.capUsd > 0 && session.costUsd >= budget.capUsd;
+  const overWarning = budget.warnAtUsd > 0 && session.costUsd >= budget.warnAtUsd;
+  const badgeColor = overCap ? 'text-red-400' : overWarning ? 'text-amber-300' : 'text-slate-400';
+
+  const exportCsv = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`tutor-usage-${date}.csv`, usageToCsv(records), 'text/csv;charset=utf-8');
+  };
+
+  const renderTotals = (label: string, totals: UsageTotals) => (
+    <div className="rounded-lg bg-slate-800/60 border border-slate-700/60 px-3 py-2">
+      <p className="text-xs uppercase tracking-wide text-slate-400">{label}</p>
+      <p className="text-lg font-semibold text-white">{formatUsd(totals.costUsd)}</p>
+      <p className="text-xs text-slate-400">
+        {t('usage.tokensDetail', { prompt: totals.promptTokens, completion: totals.completionTokens })}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-1.5 px-2 py-2 rounded-lg transition-colors ${isOpen ? 'bg-slate-700' : 'hover:bg-slate-800'} ${badgeColor}`}
+        title={t('usage.open')}
+      >
+        <Coins size={20} />
+        <span className="text-xs font-medium tabular-nums">{formatUsd(session.costUsd)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-96 rounded-xl bg-slate-900 border border-slate-700 shadow-xl p-4 z-30">
+          <h2 className="text-sm font-semibold text-white mb-3">{t('usage.title')}</h2>
+          <div className="grid grid-cols-2 gap-2">
+            {renderTotals(t('usage.session'), session)}
+            {renderTotals(t('usage.today'), today)}
+          </div>
+          <p className={`mt-2 text-xs ${overWarning ? badgeColor : 'text-slate-500'}`}>
+            {budget.capUsd > 0 || budget.warnAtUsd > 0
+              ? t('usage.budget', { warn: formatUsd(budget.warnAtUsd), cap: formatUsd(budget.capUsd) })
+              : t('usage.noBudget')}
+          </p>
+
+          <h3 className="mt-4 mb-1 text-xs uppercase tracking-wide text-slate-400">{t('usage.byDay')}</h3>
+          {days.length ? (
+            <table className="w-full text-xs text-slate-300">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="text-left font-normal py-1">{t('usage.day')}</th>
+                  <th className="text-right font-normal">{t('usage.requests')}</th>
+                  <th className="text-right font-normal">{t('usage.tokens')}</th>
+                  <th className="text-right font-normal">{t('usage.cost')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.slice(0, RECENT_DAYS).map(day => (
+                  <tr key={day.day} className="border-t border-slate-800">
+                    <td className="py-1">{day.day}</td>
+                    <td className="text-right tabular-nums">{day.requests}</td>
+                    <td className="text-right tabular-nums">{day.promptTokens + day.completionTokens}</td>
+                    <td className="text-right tabular-nums">{formatUsd(day.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-slate-400">{t('usage.empty')}</p>
+          )}
+          {days.some(day => day.hasUnpriced) && (
+            <p className="mt-2 text-xs text-slate-500">{t('usage.unpriced')}</p>
+          )}
+
+          <button
+            onClick={exportCsv}
+            disabled={!records.length}
+            className="mt-4 w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm text-slate-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={16} /> {t('usage.export')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
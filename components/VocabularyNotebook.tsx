@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Accent, ReviewGrade, SpeechSynthesizer, VocabularyCard } from '../types';
+import { createBrowserSynthesizer } from '../synthesizers/browser';
+import { MessageKey, useI18n } from '../i18n';
+import { BookOpen, Trash2, Volume2, X } from 'lucide-react';
+
+interface VocabularyNotebookProps {
+  cards: VocabularyCard[];
+  dueCards: VocabularyCard[];
+  onReview: (card: VocabularyCard, grade: ReviewGrade) => void;
+  onRemove: (id: string) => void;
+  // Voice settings for reading cards aloud
+  accent: Accent;
+  speed: number;
+  onClose: () => void;
+}
+
+type Tab = 'review' | 'words';
+
+const GRADES: { grade: ReviewGrade; label: MessageKey; className: string }[] = [
+  { grade: 1, label: 'notebook.again', className: 'bg-red-500/15 border-red-500/40 text-red-300 hover:bg-red-500/25' },
+  { grade: 3, label: 'notebook.hard', className: 'bg-amber-500/15 border-amber-500/40 text-amber-300 hover:bg-amber-500/25' },
+  { grade: 4, label: 'notebook.good', className: 'bg-emerald-500/15 border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/25' },
+  { grade: 5, label: 'notebook.easy', className: 'bg-indigo-500/15 border-indigo-500/40 text-indigo-300 hover:bg-indigo-500/25' }
+];
+
+/**
+ * The learner's saved words and phrases, with a flashcard review of the
+ * cards due today.
+ */
+export const VocabularyNotebook: React.FC<VocabularyNotebookProps> = ({
+  cards,
+  dueCards,
+  onReview,
+  onRemove,
+  accent,
+  speed,
+  onClose
+}) => {
+  const { locale, t } = useI18n();
+  const [tab, setTab] = useState<Tab>(dueCards.length ? 'review' : 'words');
+  // Card ids left in this review, fixed when it starts; lapsed cards go to the back
+  const [queue, setQueue] = useState<string[]>(() => dueCards.map(card => card.id));
+  const [reviewed, setReviewed] = useState(0);
+  const [showAnswer, setShowAnswer] = useState(false);
+
+  const synthesizerRef = useRef<SpeechSynthesizer | null>(null);
+  useEffect(() => {
+    synthesizerRef.current = createBrowserSynthesizer({ speed, accent });
+    return () => synthesizerRef.current?.dispose();
+  }, [accent, speed]);
+
+  const speak = (text: string) => {
+    synthesizerRef.current?.cancel();
+    synthesizerRef.current?.speak(text, () => {});
+  };
+
+  const current = cards.find(card => card.id === queue[0]);
+
+  const grade = (value: ReviewGrade) => {
+    if (!current) return;
+    onReview(current, value);
+    setQueue(prev => (value < 3 ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+    if (value >= 3) setReviewed(prev => prev + 1);
+    setShowAnswer(false);
+  };
+
+  const restartReview = () => {
+    setQueue(dueCards.map(card => card.id));
+    setReviewed(0);
+    setShowAnswer(false);
+  };
+
+  const formatDue = (card: VocabularyCard) => (card.dueAt <= Date.now()
+    ? t('notebook.dueNow')
+    : t('notebook.due', { date: new Date(card.dueAt).toLocaleDateString(locale) }));
+
+  const tabClass = (value: Tab) => `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+    tab === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[90vh] flex flex-col rounded-2xl bg-slate-900 border border-slate-700 shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('notebook.title')}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <BookOpen size={20} className="text-indigo-400" /> {t('notebook.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('notebook.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => setTab('review')} className={tabClass('review')}>
+            {t('notebook.review', { count: dueCards.length })}
+          </button>
+          <button onClick={() => setTab('words')} className={tabClass('words')}>
+            {t('notebook.words', { count: cards.length })}
+          </button>
+        </div>
+
+        {tab === 'review' && (
+          current ? (
+            <div className="flex flex-col items-center text-center gap-4">
+              <p className="text-xs text-slate-500">{t('notebook.progress', { done: reviewed, left: queue.length })}</p>
+              <div className="w-full rounded-xl bg-slate-800/60 border border-slate-700/60 px-6 py-8">
+                <div className="flex items-center justify-center gap-2">
+                  <p className="text-2xl font-semibold text-white" lang="en">{current.term}</p>
+                  <button onClick={() => speak(current.term)} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700" title={t('notebook.listen')}>
+                    <Volume2 size={18} />
+                  </button>
+                </div>
+                {showAnswer && (
+                  <div className="mt-4 space-y-2 text-sm">
+                    <p className="text-slate-300 italic" lang="en">
+                      “{current.context}”
+                      <button onClick={() => speak(current.context)} className="ml-1 align-middle p-1 rounded text-slate-500 hover:text-white" title={t('notebook.listen')}>
+                        <Volume2 size={14} />
+                      </button>
+                    </p>
+                    {current.note && <p className="text-slate-400">{current.note}</p>}
+                  </div>
+                )}
+              </div>
+              {showAnswer ? (
+                <div className="grid grid-cols-4 gap-2 w-full">
+                  {GRADES.map(({ grade: value, label, className }) => (
+                    <button key={value} onClick={() => grade(value)} className={`py-2 rounded-lg border text-sm font-medium ${className}`}>
+                      {t(label)}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowAnswer(true)}
+                  className="w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium"
+                >
+                  {t('notebook.showAnswer')}
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="text-center text-sm text-slate-400 py-6 space-y-3">
+              <p>{reviewed ? t('notebook.finished', { count: reviewed }) : t('notebook.nothingDue')}</p>
+              {dueCards.length > 0 && (
+                <button onClick={restartReview} className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200">
+                  {t('notebook.reviewAgain')}
+                </button>
+              )}
+            </div>
+          )
+        )}
+
+        {tab === 'words' && (
+          cards.length ? (
+            <ul className="overflow-y-auto space-y-2 pr-1">
+              {cards.map(card => (
+                <li key={card.id} className="flex items-start gap-3 rounded-xl bg-slate-800/60 border border-slate-700/60 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-white" lang="en">{card.term}</p>
+                    <p className="text-xs text-slate-400 truncate" lang="en" title={card.context}>{card.context}</p>
+                    <p className="text-[11px] text-slate-500 mt-1">
+                      {formatDue(card)}
+                      {card.source === 'correction' && ` · ${t('notebook.fromCorrection')}`}
+                    </p>
+                  </div>
+                  <button onClick={() => speak(card.term)} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700" title={t('notebook.listen')}>
+                    <Volume2 size={16} />
+                  </button>
+                  <button onClick={() => onRemove(card.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-700" title={t('notebook.remove')}>
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-center text-sm text-slate-400 py-6 space-y-1">
+              <p>{t('notebook.empty')}</p>
+              <p className="text-slate-500">{t('notebook.emptyHint')}</p>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
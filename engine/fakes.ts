@@ -0,0 +1,199 @@
+import { LlmProvider, LlmRequest, RecognizerEvents, SpeechRecognizer, SpeechSynthesizer, TokenUsage, TutorSession } from '../types';
+import { TutorError } from '../utils/errors';
+import { PipelineAdapters, SessionStorage } from './sessionEngine';
+
+// In-memory adapters for driving the session engine without a browser,
+// microphone or network, e.g. from tests or a Node script.
+
+export interface FakeRecognizer {
+  // Passed as PipelineAdapters.createRecognizer
+  create: (events: RecognizerEvents) => SpeechRecognizer;
+  readonly isRunning: boolean;
+  // Times start() was called, to check when listening resumes
+  readonly starts: number;
+  // Simulates the learner saying something
+  say: (transcript: string, isFinal?: boolean) => void;
+  fail: (error: TutorError) => void;
+}
+
+export const createFakeRecognizer = (): FakeRecognizer => {
+  let events: RecognizerEvents | null = null;
+  let running = false;
+  let starts = 0;
+
+  return {
+    create: (recognizerEvents) => {
+      events = recognizerEvents;
+      return {
+        start: () => {
+          if (running) throw new Error('Recognizer already started');
+          running = true;
+          starts += 1;
+          events?.onStart();
+        },
+        stop: () => {
+          if (!running) return;
+          running = false;
+          events?.onEnd();
+        },
+        abort: () => {
+          if (!running) return;
+          running = false;
+          events?.onEnd();
+        },
+        dispose: () => {
+          running = false;
+          events = null;
+        }
+      };
+    },
+    get isRunning() {
+      return running;
+    },
+    get starts() {
+      return starts;
+    },
+    say: (transcript, isFinal = true) => {
+      if (running) events?.onResult(transcript, isFinal);
+    },
+    fail: (error) => {
+      running = false;
+      events?.onError(error);
+    }
+  };
+};
+
+interface PendingReply {
+  request: LlmRequest;
+  resolve: (text: string) => void;
+  reject: (error: Error) => void;
+}
+
+export interface FakeLlm extends LlmProvider {
+  // Requests waiting for reply() or fail(), oldest first
+  readonly pending: PendingReply[];
+  readonly requests: LlmRequest[];
+  // Streams `text` to the oldest pending request in chunks, then completes it,
+  // reporting `usage` first when given
+  reply: (text: string, chunks?: number, usage?: TokenUsage) => void;
+  fail: (error: Error) => void;
+}
+
+/**
+ * Chat model whose replies are released by the caller, so a request can be
+ * left in flight while something else happens. Honors the abort signal.
+ */
+export const createFakeLlm = (): FakeLlm => {
+  const pending: PendingReply[] = [];
+  const requests: LlmRequest[] = [];
+
+  return {
+    id: 'mock',
+    pending,
+    requests,
+    streamChat: (request) => new Promise<string>((resolve, reject) => {
+      requests.push(request);
+      const entry = { request, resolve, reject };
+      pending.push(entry);
+      request.signal?.addEventListener('abort', () => {
+        const index = pending.indexOf(entry);
+        if (index !== -1) pending.splice(index, 1);
+        reject(new DOMException('The request was aborted', 'AbortError'));
+      });
+    }),
+    reply: (text, chunks = 1, usage) => {
+      const entry = pending.shift();
+      if (!entry) throw new Error('No pending chat request');
+      const size = Math.ceil(text.length / chunks);
+      for (let end = size; end < text.length; end += size) {
+        entry.request.onDelta?.(text.slice(0, end));
+      }
+      entry.request.onDelta?.(text);
+      if (usage) entry.request.onUsage?.(usage);
+      entry.resolve(text);
+    },
+    fail: (error) => {
+      const entry = pending.shift();
+      if (!entry) throw new Error('No pending chat request');
+      entry.reject(error);
+    }
+  };
+};
+
+export interface FakeSynthesizer extends SpeechSynthesizer {
+  // Everything passed to speak(), including cancelled text
+  readonly spoken: string[];
+  // Utterances still "playing"
+  readonly queued: number;
+  // Finishes the oldest utterance, or all of them
+  finishOne: () => void;
+  finishAll: () => void;
+}
+
+export const createFakeSynthesizer = (): FakeSynthesizer => {
+  const spoken: string[] = [];
+  let queue: (() => void)[] = [];
+
+  return {
+    spoken,
+    get queued() {
+      return queue.length;
+    },
+    speak: (text, onDone) => {
+      spoken.push(text);
+      queue.push(onDone);
+    },
+    // Like the browser synthesizer, cancelled utterances never call back
+    cancel: () => {
+      queue = [];
+    },
+    dispose: () => {
+      queue = [];
+    },
+    finishOne: () => {
+      queue.shift()?.();
+    },
+    finishAll: () => {
+      while (queue.length) queue.shift()?.();
+    }
+  };
+};
+
+export interface MemoryStorage extends SessionStorage {
+  readonly sessions: Map<string, TutorSession>;
+}
+
+export const createMemoryStorage = (): MemoryStorage => {
+  const sessions = new Map<string, TutorSession>();
+  return {
+    sessions,
+    create: async (session) => {
+      sessions.set(session.id, session);
+    },
+    // Like the IndexedDB store, a deleted session stays deleted
+    patch: async (sessionId, patch) => {
+      const stored = sessions.get(sessionId);
+      if (stored) sessions.set(sessionId, { ...stored, ...patch });
+    }
+  };
+};
+
+export interface FakePipeline {
+  adapters: PipelineAdapters;
+  recognizer: FakeRecognizer;
+  llm: FakeLlm;
+  synthesizer: FakeSynthesizer;
+}
+
+// All three pipeline fakes, ready for a `connect` event
+export const createFakePipeline = (): FakePipeline => {
+  const recognizer = createFakeRecognizer();
+  const llm = createFakeLlm();
+  const synthesizer = createFakeSynthesizer();
+  return {
+    adapters: { createRecognizer: recognizer.create, llm, synthesizer },
+    recognizer,
+    llm,
+    synthesizer
+  };
+};
@@ -0,0 +1,335 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionState, TurnState } from '../types';
+import { TutorError } from '../utils/errors';
+import { CORRECTIONS_MARKER } from '../utils/corrections';
+import { createSessionEngine, SessionEngine, SessionEngineOptions } from './sessionEngine';
+import { createFakePipeline, createMemoryStorage, FakePipeline, MemoryStorage } from './fakes';
+
+// Lets pending promise callbacks (streamed replies, saves) run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+interface Harness {
+  engine: SessionEngine;
+  pipeline: FakePipeline;
+  storage: MemoryStorage;
+  onStop: ReturnType<typeof vi.fn>;
+}
+
+const engines: SessionEngine[] = [];
+
+const start = (options: Partial<SessionEngineOptions> = {}, openingLine: string | null = null): Harness => {
+  const storage = createMemoryStorage();
+  const pipeline = createFakePipeline();
+  const onStop = vi.fn();
+  const engine = createSessionEngine({ storage, onStop, saveDelayMs: 0, ...options });
+  engines.push(engine);
+  engine.dispatch({ type: 'connecting', scenarioId: 'casual-chat', level: 'B1' });
+  engine.dispatch({
+    type: 'connect',
+    pipeline: { adapters: pipeline.adapters, systemInstruction: 'You are a tutor.', temperature: 0.7, openingLine }
+  });
+  return { engine, pipeline, storage, onStop };
+};
+
+const reply = (text: string, corrections: unknown[] = []) => `${text}\n${CORRECTIONS_MARKER}\n${JSON.stringify(corrections)}`;
+
+afterEach(() => {
+  engines.splice(0).forEach(engine => engine.dispose());
+  vi.useRealTimers();
+});
+
+describe('turn-taking', () => {
+  it('speaks the opening line before listening to the learner', () => {
+    const { engine, pipeline } = start({}, 'Hi there!');
+
+    expect(engine.getSnapshot().connectionState).toBe(ConnectionState.CONNECTED);
+    expect(engine.getSnapshot().turnState).toBe(TurnState.TUTOR_SPEAKING);
+    expect(pipeline.synthesizer.spoken).toEqual(['Hi there!']);
+    expect(pipeline.recognizer.isRunning).toBe(false);
+
+    pipeline.synthesizer.finishAll();
+    expect(engine.getSnapshot().turnState).toBe(TurnState.LISTENING);
+    expect(pipeline.recognizer.isRunning).toBe(true);
+  });
+
+  it('answers an utterance, speaks it sentence by sentence and hands the turn back', async () => {
+    const { engine, pipeline } = start();
+
+    pipeline.recognizer.say('I goed to the park', true);
+    expect(engine.getSnapshot().turnState).toBe(TurnState.THINKING);
+    expect(pipeline.llm.pending).toHaveLength(1);
+
+    pipeline.llm.reply(reply('Nice! What did you do there? Tell me more', [
+      { original: 'I goed', corrected: 'I went', category: 'verb-tense', explanation: 'Irregular verb.' }
+    ]), 4);
+    await flush();
+
+    expect(pipeline.synthesizer.spoken).toEqual(['Nice!', 'What did you do there?', 'Tell me more']);
+    expect(engine.getSnapshot().turnState).toBe(TurnState.TUTOR_SPEAKING);
+    expect(pipeline.recognizer.isRunning).toBe(false);
+
+    const [user, tutor] = engine.getSnapshot().messages;
+    expect(user).toMatchObject({ role: 'user', text: 'I goed to the park', isComplete: true });
+    expect(user.corrections).toEqual([
+      { original: 'I goed', corrected: 'I went', category: 'verb-tense', explanation: 'Irregular verb.' }
+    ]);
+    expect(tutor).toMatchObject({ role: 'model', text: 'Nice! What did you do there? Tell me more', isComplete: true });
+
+    pipeline.synthesizer.finishAll();
+    expect(engine.getSnapshot().turnState).toBe(TurnState.LISTENING);
+    expect(pipeline.recognizer.isRunning).toBe(true);
+  });
+
+  it('sends the learner turn once, after the earlier history', async () => {
+    const { pipeline } = start();
+
+    pipeline.recognizer.say('hello there friend', true);
+    pipeline.llm.reply(reply('Hello!'));
+    await flush();
+    pipeline.synthesizer.finishAll();
+    pipeline.recognizer.say('how are you', true);
+
+    expect(pipeline.llm.requests[1].messages.map(msg => [msg.role, msg.content.split('\n')[0]])).toEqual([
+      ['system', 'You are a tutor.'],
+      ['user', 'hello there friend'],
+      ['assistant', 'Hello!'],
+      ['user', 'how are you']
+    ]);
+  });
+
+  it('keeps a typed message apart from the reply that answers it', async () => {
+    const { engine, pipeline } = start();
+
+    engine.dispatch({ type: 'send-text', text: 'I like read books' });
+    pipeline.llm.reply(reply('Me too!', [
+      { original: 'like read', corrected: 'like reading', category: 'grammar', explanation: '' }
+    ]));
+    await flush();
+
+    const [user, tutor] = engine.getSnapshot().messages;
+    expect(user.id).not.toBe(tutor.id);
+    expect(user).toMatchObject({ role: 'user', text: 'I like read books' });
+    expect(user.corrections).toHaveLength(1);
+    expect(tutor).toMatchObject({ role: 'model', text: 'Me too!' });
+  });
+
+  it('speaks the whole tail of a reply that starts with whitespace', async () => {
+    const { pipeline } = start();
+    // Providers trim the completion they return but not the streamed text
+    pipeline.llm.streamChat = (request) => {
+      request.onDelta?.('\n\nGreat job. You are');
+      request.onDelta?.('\n\nGreat job. You are improving');
+      return Promise.resolve('Great job. You are improving');
+    };
+
+    pipeline.recognizer.say('I practiced a lot', true);
+    await flush();
+
+    expect(pipeline.synthesizer.spoken).toEqual(['Great job.', 'You are improving']);
+  });
+
+  it('stops the tutor when the learner talks over it', async () => {
+    const { engine, pipeline } = start({}, 'Hi there! How is your day going so far?');
+    expect(engine.getSnapshot().turnState).toBe(TurnState.TUTOR_SPEAKING);
+
+    engine.dispatch({ type: 'mic-level', rms: 0.2 });
+    engine.dispatch({ type: 'mic-level', rms: 0.2 });
+
+    expect(engine.getSnapshot().turnState).toBe(TurnState.LISTENING);
+    expect(pipeline.synthesizer.queued).toBe(0);
+    expect(pipeline.recognizer.isRunning).toBe(true);
+  });
+
+  it('sends a push-to-talk utterance when the key is released', async () => {
+    const onUtterance = vi.fn();
+    const { engine, pipeline } = start({ inputMode: 'push-to-talk', onUtterance });
+    expect(pipeline.recognizer.isRunning).toBe(false);
+
+    engine.dispatch({ type: 'start-talking' });
+    pipeline.recognizer.say('I want', true);
+    pipeline.recognizer.say('a coffee', true);
+    engine.dispatch({ type: 'stop-talking' });
+
+    const [user] = engine.getSnapshot().messages;
+    expect(user).toMatchObject({ role: 'user', text: 'I want a coffee', isComplete: true });
+    expect(onUtterance).toHaveBeenCalledWith(user.id);
+    expect(pipeline.llm.pending).toHaveLength(1);
+  });
+
+  it('completes spoken turns without an utterance callback', () => {
+    const { engine, pipeline } = start();
+
+    pipeline.recognizer.say('good morning', true);
+
+    const [user] = engine.getSnapshot().messages;
+    expect(user).toMatchObject({ role: 'user', text: 'good morning', isComplete: true });
+    expect(user.fluency?.wordCount).toBe(2);
+  });
+});
+
+describe('mic toggling', () => {
+  it('stops listening while muted and resumes when unmuted', () => {
+    const { engine, pipeline } = start();
+
+    engine.dispatch({ type: 'toggle-mic' });
+    expect(engine.getSnapshot().isMicOn).toBe(false);
+    expect(pipeline.recognizer.isRunning).toBe(false);
+
+    pipeline.recognizer.say('can you hear me', true);
+    expect(engine.getSnapshot().messages).toHaveLength(0);
+
+    engine.dispatch({ type: 'toggle-mic' });
+    expect(pipeline.recognizer.isRunning).toBe(true);
+  });
+
+  it('waits for the tutor to finish before listening again', () => {
+    const { engine, pipeline } = start({}, 'Hi there!');
+
+    engine.dispatch({ type: 'toggle-mic' });
+    engine.dispatch({ type: 'toggle-mic' });
+    expect(pipeline.recognizer.isRunning).toBe(false);
+
+    pipeline.synthesizer.finishAll();
+    expect(pipeline.recognizer.isRunning).toBe(true);
+  });
+
+  it('stays muted after the tutor finishes speaking', () => {
+    const { engine, pipeline } = start({}, 'Hi there!');
+
+    engine.dispatch({ type: 'toggle-mic' });
+    pipeline.synthesizer.finishAll();
+
+    expect(engine.getSnapshot().turnState).toBe(TurnState.LISTENING);
+    expect(pipeline.recognizer.isRunning).toBe(false);
+  });
+});
+
+describe('disconnect during a request', () => {
+  it('aborts the reply and drops the placeholder', async () => {
+    const { engine, pipeline, storage, onStop } = start();
+
+    pipeline.recognizer.say('tell me a story', true);
+    const [request] = pipeline.llm.requests;
+    engine.dispatch({ type: 'disconnect' });
+    await flush();
+
+    const snapshot = engine.getSnapshot();
+    expect(request.signal?.aborted).toBe(true);
+    expect(pipeline.llm.pending).toHaveLength(0);
+    expect(snapshot.connectionState).toBe(ConnectionState.DISCONNECTED);
+    expect(snapshot.turnState).toBe(TurnState.LISTENING);
+    expect(snapshot.error).toBeNull();
+    expect(snapshot.messages.map(msg => msg.text)).toEqual(['tell me a story']);
+    expect(onStop).toHaveBeenCalledWith(null);
+
+    // Saved once the batched write runs
+    await vi.waitFor(() => expect(storage.sessions.get(snapshot.session!.id)?.endedAt).not.toBeNull());
+    const stored = storage.sessions.get(snapshot.session!.id);
+    expect(stored?.messages.map(msg => msg.text)).toEqual(['tell me a story']);
+  });
+
+  it('keeps what was streamed before the disconnect', async () => {
+    const { engine, pipeline } = start();
+
+    pipeline.recognizer.say('tell me a story', true);
+    pipeline.llm.pending[0].request.onDelta?.('Once upon a time');
+    engine.dispatch({ type: 'disconnect' });
+    await flush();
+
+    const [, tutor] = engine.getSnapshot().messages;
+    expect(tutor).toMatchObject({ role: 'model', text: 'Once upon a time', isComplete: true });
+  });
+
+  it('does not write back a session deleted after the disconnect', async () => {
+    const { engine, pipeline, storage } = start();
+
+    pipeline.recognizer.say('hello', true);
+    const sessionId = engine.getSnapshot().session!.id;
+    storage.sessions.delete(sessionId);
+    engine.dispatch({ type: 'disconnect' });
+    await flush();
+
+    expect(storage.sessions.has(sessionId)).toBe(false);
+  });
+});
+
+describe('error recovery', () => {
+  it('shows a failed reply and keeps listening', async () => {
+    const { engine, pipeline } = start();
+
+    pipeline.recognizer.say('hello', true);
+    pipeline.llm.fail(new TutorError('unknown', 'Bad response'));
+    await flush();
+
+    let snapshot = engine.getSnapshot();
+    expect(snapshot.connectionState).toBe(ConnectionState.CONNECTED);
+    expect(snapshot.turnState).toBe(TurnState.LISTENING);
+    expect(snapshot.error?.kind).toBe('unknown');
+    expect(snapshot.messages.map(msg => msg.role)).toEqual(['user']);
+
+    engine.dispatch({ type: 'dismiss-error' });
+    pipeline.recognizer.say('hello again', true);
+    pipeline.llm.reply(reply('Hi!'));
+    await flush();
+
+    snapshot = engine.getSnapshot();
+    expect(snapshot.error).toBeNull();
+    expect(snapshot.messages.map(msg => msg.text)).toEqual(['hello', 'hello again', 'Hi!']);
+  });
+
+  it('retries a dropped request while reconnecting', async () => {
+    vi.useFakeTimers();
+    const { engine, pipeline } = start();
+
+    pipeline.recognizer.say('hello', true);
+    pipeline.llm.fail(new TutorError('network', 'Offline'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(engine.getSnapshot().connectionState).toBe(ConnectionState.RECONNECTING);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(pipeline.llm.pending).toHaveLength(1);
+    pipeline.llm.reply(reply('Back again.'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const snapshot = engine.getSnapshot();
+    expect(snapshot.connectionState).toBe(ConnectionState.CONNECTED);
+    expect(snapshot.messages.map(msg => msg.text)).toEqual(['hello', 'Back again.']);
+    expect(pipeline.llm.requests).toHaveLength(2);
+  });
+
+  it('restarts a recognizer that dropped, then gives up', async () => {
+    vi.useFakeTimers();
+    const { engine, pipeline, onStop } = start({ maxRecognizerRestarts: 1, recognizerRestartDelayMs: 100 });
+
+    pipeline.recognizer.fail(new TutorError('network', 'Offline'));
+    expect(engine.getSnapshot().connectionState).toBe(ConnectionState.RECONNECTING);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(engine.getSnapshot().connectionState).toBe(ConnectionState.CONNECTED);
+    expect(pipeline.recognizer.starts).toBe(2);
+
+    const failure = new TutorError('network', 'Still offline');
+    pipeline.recognizer.fail(failure);
+    expect(engine.getSnapshot().connectionState).toBe(ConnectionState.ERROR);
+    expect(onStop).toHaveBeenCalledWith(failure);
+  });
+
+  it('ends the session on a fatal error and can start over from it', async () => {
+    const { engine, pipeline, onStop } = start();
+
+    pipeline.recognizer.say('hello', true);
+    pipeline.llm.fail(new TutorError('invalid-key', 'Rejected'));
+    await flush();
+
+    let snapshot = engine.getSnapshot();
+    expect(snapshot.connectionState).toBe(ConnectionState.ERROR);
+    expect(snapshot.error?.kind).toBe('invalid-key');
+    expect(snapshot.session?.endedAt).not.toBeNull();
+    expect(onStop).toHaveBeenCalledWith(snapshot.error);
+
+    engine.dispatch({ type: 'load-session', session: null });
+    snapshot = engine.getSnapshot();
+    expect(snapshot.connectionState).toBe(ConnectionState.DISCONNECTED);
+    expect(snapshot.error).toBeNull();
+    expect(snapshot.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,824 @@
+import {
+  CefrLevel,
+  ChatMessage,
+  ConnectionState,
+  Correction,
+  InputMode,
+  LlmProvider,
+  RecognizerEvents,
+  SpeechRecognizer,
+  SpeechSynthesizer,
+  TokenUsage,
+  TurnState,
+  TutorSession
+} from '../types';
+import { takeCompleteSentences } from '../utils/streamUtils';
+import { parseCorrections, splitReply } from '../utils/corrections';
+import { buildHistory, messagesToSummarize, summarizeHistory } from '../utils/history';
+import { toTutorError, TutorError, withRetry } from '../utils/errors';
+import { createUtteranceTimer } from '../utils/fluency';
+import { createSession } from '../storage/sessionStore';
+
+// Placeholder text of a tutor message whose reply has not started
+export const PENDING_REPLY_TEXT = 'Thinking...';
+
+// Barge-in: the mic level must clear both a floor and a multiple of the
+// tutor's echo for this many consecutive audio frames (~256 ms each)
+const BARGE_IN_MIN_RMS = 0.06;
+const BARGE_IN_ECHO_RATIO = 2.5;
+const BARGE_IN_FRAMES = 2;
+
+// A learner message and the reply placeholder are added in the same
+// millisecond, so the timestamp alone does not make ids unique
+let messageCount = 0;
+const newMessageId = () => {
+  messageCount += 1;
+  return `message-${Date.now()}-${messageCount}`;
+};
+
+/**
+ * The speech pipeline of one connection: the recognizer is created by the
+ * engine so it can hand over its callbacks.
+ */
+export interface PipelineAdapters {
+  createRecognizer: (events: RecognizerEvents) => SpeechRecognizer;
+  llm: LlmProvider;
+  // Folds older turns into the running summary; the conversation model when not set
+  summaryLlm?: LlmProvider;
+  synthesizer: SpeechSynthesizer;
+}
+
+export interface PipelineConfig {
+  adapters: PipelineAdapters;
+  systemInstruction: string;
+  temperature: number;
+  // Spoken when the conversation is still empty
+  openingLine: string | null;
+}
+
+// A transport that handles speech itself (realtime mode); the engine only
+// asks it to stop talking when the learner interrupts
+export interface ExternalTransport {
+  interrupt: () => void;
+}
+
+export interface SessionStorage {
+  create: (session: TutorSession) => Promise<void>;
+  // Only updates a session that is still stored
+  patch: (sessionId: string, patch: Partial<TutorSession>) => Promise<void>;
+}
+
+export interface VocabularyCollector {
+  collect: (corrections: Correction[], context: string, sessionId: string | null) => Promise<void>;
+}
+
+export interface SessionEngineOptions {
+  storage: SessionStorage;
+  vocabulary?: VocabularyCollector;
+  inputMode?: InputMode;
+  // Called after every disconnect or failure, with the error when it failed,
+  // to release what the host set up around the engine (microphone, audio)
+  onStop?: (failure: TutorError | null) => void;
+  // Called when a spoken utterance becomes a learner message, so the host
+  // can keep the audio it captured for it
+  onUtterance?: (messageId: string) => void;
+  // Streaming updates arrive many times a second; batch the storage writes
+  saveDelayMs?: number;
+  // Recognizer restarts after network drops before the session gives up
+  maxRecognizerRestarts?: number;
+  recognizerRestartDelayMs?: number;
+}
+
+export interface SessionSnapshot {
+  connectionState: ConnectionState;
+  turnState: TurnState;
+  messages: ChatMessage[];
+  // Session the messages belong to (null until the first connect)
+  session: TutorSession | null;
+  isMicOn: boolean;
+  // Push-to-talk key or button currently held
+  isTalking: boolean;
+  inputMode: InputMode;
+  // Last error worth showing the learner; cleared on dismiss or reconnect
+  error: TutorError | null;
+}
+
+export type SessionEvent =
+  // Setup before the microphone and adapters are ready
+  | { type: 'connecting'; scenarioId: string; level: CefrLevel }
+  // Exactly one of pipeline or transport
+  | { type: 'connect'; pipeline?: PipelineConfig; transport?: ExternalTransport }
+  | { type: 'disconnect' }
+  | { type: 'fail'; error: TutorError }
+  | { type: 'report-error'; error: TutorError }
+  | { type: 'dismiss-error' }
+  | { type: 'send-text'; text: string }
+  | { type: 'toggle-mic' }
+  | { type: 'start-talking' }
+  | { type: 'stop-talking' }
+  | { type: 'set-input-mode'; inputMode: InputMode }
+  // RMS level of one microphone frame, for barge-in detection
+  | { type: 'mic-level'; rms: number }
+  // Resumes a stored session, or starts over with null; only while disconnected
+  // or after a failure, whose error it clears
+  | { type: 'load-session'; session: TutorSession | null }
+  | { type: 'patch-session'; sessionId: string; patch: Partial<TutorSession> }
+  | { type: 'update-messages'; update: (messages: ChatMessage[]) => ChatMessage[] }
+  // Turn changes reported by an external transport
+  | { type: 'set-turn'; turnState: TurnState };
+
+export interface SessionEngine {
+  dispatch: (event: SessionEvent) => void;
+  getSnapshot: () => SessionSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  // Disconnects and drops pending saves; the engine cannot be used afterwards
+  dispose: () => void;
+}
+
+/**
+ * Framework-agnostic tutor conversation. Connection states go
+ * DISCONNECTED → CONNECTING → CONNECTED ⇄ RECONNECTING → DISCONNECTED, or
+ * ERROR after a fatal failure; while connected the turn moves
+ * LISTENING → THINKING → TUTOR_SPEAKING → LISTENING. Everything that touches
+ * the outside world (recognition, chat model, speech, storage) is injected,
+ * so the engine runs with fakes outside the browser.
+ */
+export function createSessionEngine({
+  storage,
+  vocabulary,
+  inputMode = 'hands-free',
+  onStop,
+  onUtterance,
+  saveDelayMs = 500,
+  maxRecognizerRestarts = 3,
+  recognizerRestartDelayMs = 1000
+}: SessionEngineOptions): SessionEngine {
+  let snapshot: SessionSnapshot = {
+    connectionState: ConnectionState.DISCONNECTED,
+    turnState: TurnState.LISTENING,
+    messages: [],
+    session: null,
+    isMicOn: true,
+    isTalking: false,
+    inputMode,
+    error: null
+  };
+  const listeners = new Set<() => void>();
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Per-connection state
+  let pipeline: PipelineConfig | null = null;
+  let transport: ExternalTransport | null = null;
+  let recognizer: SpeechRecognizer | null = null;
+  // Aborts the in-flight completion stream (new turn or disconnect)
+  let completionAbort: AbortController | null = null;
+  let replyStreaming = false;
+  // Chunks queued in the synthesizer; the generation invalidates callbacks
+  // from chunks dropped by cancelSpeech
+  let pendingUtterances = 0;
+  let speechGeneration = 0;
+  let echoLevel = 0;
+  let bargeInFrames = 0;
+  // Backoff restarts of a recognizer that dropped (network, aborted)
+  let recognizerRestarts = 0;
+  let restartTimer: ReturnType<typeof setTimeout> | null = null;
+  // Recognized text of the push-to-talk utterance being held
+  let pttFinal = '';
+  let pttInterim = '';
+  // Times the utterance in progress for the fluency metrics
+  let utteranceTimer = createUtteranceTimer();
+  let openingLine: string | null = null;
+  let summarizing = false;
+
+  const save = (session: TutorSession) => {
+    storage.patch(session.id, { messages: session.messages, endedAt: session.endedAt, summary: session.summary })
+      .catch(e => console.error('Failed to save session', e));
+  };
+
+  const scheduleSave = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      if (snapshot.session) save(snapshot.session);
+    }, saveDelayMs);
+  };
+
+  const update = (patch: Partial<SessionSnapshot>) => {
+    // Write the outgoing session now rather than drop its pending save
+    if (saveTimer && snapshot.session && patch.session !== undefined && patch.session?.id !== snapshot.session.id) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+      save(snapshot.session);
+    }
+    const next = { ...snapshot, ...patch };
+    if (next.session && (patch.messages || patch.session)) {
+      next.session = { ...next.session, messages: next.messages };
+    }
+    snapshot = next;
+    if (next.session && (patch.messages || patch.session)) scheduleSave();
+    listeners.forEach(listener => listener());
+  };
+
+  const setMessages = (apply: (messages: ChatMessage[]) => ChatMessage[]) => {
+    update({ messages: apply(snapshot.messages) });
+  };
+
+  const setConnection = (connectionState: ConnectionState) => {
+    if (snapshot.connectionState !== connectionState) update({ connectionState });
+  };
+
+  const setTurn = (turnState: TurnState) => {
+    if (snapshot.turnState !== turnState) update({ turnState });
+  };
+
+  // A reconnecting session still has its audio and recognizer set up
+  const isLive = () => snapshot.connectionState === ConnectionState.CONNECTED
+    || snapshot.connectionState === ConnectionState.RECONNECTING;
+  const isPushToTalk = () => snapshot.inputMode === 'push-to-talk';
+
+  // Updates the message still being recognized or streamed, or starts one
+  const updateStreamingMessage = (role: 'user' | 'model', text: string) => {
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (last && last.role === role && !last.isComplete) {
+        return [...prev.slice(0, -1), { ...last, text }];
+      }
+      return [...prev, { id: newMessageId(), role, text, isComplete: false, timestamp: Date.now() }];
+    });
+  };
+
+  // Completes the message still in progress, or adds one; returns its id
+  const commitMessage = (role: 'user' | 'model', text: string, extra: Partial<ChatMessage> = {}): string => {
+    const last = snapshot.messages[snapshot.messages.length - 1];
+    if (last && last.role === role && !last.isComplete) {
+      setMessages(prev => [...prev.slice(0, -1), { ...last, ...extra, text, isComplete: true }]);
+      return last.id;
+    }
+    const id = newMessageId();
+    setMessages(prev => [...prev, { id, role, text, isComplete: true, timestamp: Date.now(), ...extra }]);
+    return id;
+  };
+
+  const suspendRecognition = () => {
+    try {
+      recognizer?.abort();
+    } catch (e) {
+      // ignore
+    }
+  };
+
+  const resumeRecognition = () => {
+    if (!isLive() || !snapshot.isMicOn || restartTimer) return;
+    if (isPushToTalk() && !snapshot.isTalking) return;
+    try {
+      recognizer?.start();
+    } catch (e) {
+      // already running
+    }
+  };
+
+  // Hands the turn back to the learner once the reply is fully streamed and spoken
+  const finishTutorTurnIfIdle = () => {
+    if (pendingUtterances > 0 || replyStreaming) return;
+    if (snapshot.turnState === TurnState.LISTENING) return;
+    setTurn(TurnState.LISTENING);
+    resumeRecognition();
+  };
+
+  const cancelSpeech = () => {
+    speechGeneration += 1;
+    pendingUtterances = 0;
+    pipeline?.adapters.synthesizer.cancel();
+  };
+
+  // Queues text behind anything already being spoken
+  const speakText = (text: string) => {
+    if (!pipeline) return;
+    const generation = speechGeneration;
+    pendingUtterances += 1;
+    if (snapshot.turnState !== TurnState.TUTOR_SPEAKING) {
+      setTurn(TurnState.TUTOR_SPEAKING);
+      suspendRecognition();
+    }
+
+    pipeline.adapters.synthesizer.speak(text, () => {
+      if (generation !== speechGeneration) return;
+      pendingUtterances = Math.max(0, pendingUtterances - 1);
+      finishTutorTurnIfIdle();
+    });
+  };
+
+  // The learner started talking over the tutor: stop the reply and listen
+  const bargeIn = () => {
+    if (transport) {
+      transport.interrupt();
+      setTurn(TurnState.LISTENING);
+      return;
+    }
+    completionAbort?.abort();
+    replyStreaming = false;
+    cancelSpeech();
+    finishTutorTurnIfIdle();
+  };
+
+  const detectBargeIn = (rms: number) => {
+    // Push-to-talk interrupts by pressing the key instead
+    if (snapshot.turnState !== TurnState.TUTOR_SPEAKING || isPushToTalk()) {
+      echoLevel = 0;
+      bargeInFrames = 0;
+      return;
+    }
+
+    const threshold = Math.max(BARGE_IN_MIN_RMS, echoLevel * BARGE_IN_ECHO_RATIO);
+    if (rms > threshold) {
+      bargeInFrames += 1;
+      if (bargeInFrames >= BARGE_IN_FRAMES) {
+        bargeInFrames = 0;
+        bargeIn();
+      }
+    } else {
+      bargeInFrames = 0;
+      // Track how loud the tutor's own voice is when it leaks into the mic
+      echoLevel = echoLevel * 0.8 + rms * 0.2;
+    }
+  };
+
+  // Folds older turns into the running summary in the background once the
+  // unsummarized history grows past the budget
+  const updateSummaryIfNeeded = () => {
+    if (summarizing || !pipeline) return;
+    const previous = snapshot.session?.summary ?? null;
+    const toFold = messagesToSummarize(snapshot.messages, previous);
+    if (toFold.length === 0) return;
+
+    const sessionId = snapshot.session?.id;
+    summarizing = true;
+    summarizeHistory(pipeline.adapters.summaryLlm ?? pipeline.adapters.llm, previous, toFold)
+      .then(summary => {
+        if (snapshot.session?.id === sessionId) update({ session: { ...snapshot.session, summary } });
+      })
+      .catch(e => console.warn('Could not update the conversation summary', e))
+      .finally(() => {
+        summarizing = false;
+      });
+  };
+
+  // Streams the reply, calling onDelta with the accumulated text after each chunk.
+  // Failed requests are retried with backoff until the first chunk arrives;
+  // after that a retry would repeat what was already shown and spoken.
+  const fetchCompletion = async (
+    config: PipelineConfig,
+    userText: string,
+    onDelta: (text: string) => void,
+    onUsage: (usage: TokenUsage) => void,
+    signal: AbortSignal
+  ): Promise<string> => {
+    // The learner's turn is already in the chat and goes in as newUserText,
+    // so only what came before it is history. Built once for all retries.
+    const turnIndex = snapshot.messages.map(msg => msg.role).lastIndexOf('user');
+    const history = buildHistory({
+      systemInstruction: config.systemInstruction,
+      messages: turnIndex >= 0 ? snapshot.messages.slice(0, turnIndex) : snapshot.messages,
+      summary: snapshot.session?.summary ?? null,
+      newUserText: userText
+    });
+    let streamed = false;
+    let retried = false;
+
+    const completion = await withRetry(() => config.adapters.llm.streamChat({
+      messages: history,
+      temperature: config.temperature,
+      signal,
+      onDelta: (text) => {
+        streamed = true;
+        onDelta(text);
+      },
+      onUsage
+    }), {
+      signal,
+      shouldRetry: () => !streamed,
+      onRetry: (failure, attempt, delayMs) => {
+        console.warn(`Retrying chat request (attempt ${attempt}) in ${Math.round(delayMs)} ms`, failure);
+        retried = true;
+        setConnection(ConnectionState.RECONNECTING);
+      }
+    });
+
+    if (retried && snapshot.connectionState === ConnectionState.RECONNECTING) {
+      setConnection(ConnectionState.CONNECTED);
+    }
+    return completion;
+  };
+
+  // Runs one tutor turn for a learner message that is already in the chat:
+  // streams the reply, speaks it sentence by sentence and attaches corrections
+  const respondTo = async (userText: string) => {
+    const config = pipeline;
+    if (!config) return;
+    // placeholder model message while fetching
+    const pendingId = newMessageId();
+    setMessages(prev => [
+      ...prev,
+      { id: pendingId, role: 'model', text: PENDING_REPLY_TEXT, isComplete: false, timestamp: Date.now() }
+    ]);
+
+    // A new turn supersedes any reply still streaming or being spoken
+    completionAbort?.abort();
+    cancelSpeech();
+    const controller = new AbortController();
+    completionAbort = controller;
+    replyStreaming = true;
+    setTurn(TurnState.THINKING);
+
+    let spokenLength = 0;
+    let usage: TokenUsage | undefined;
+    const speakCompleteSentences = (text: string) => {
+      const { sentences, consumed } = takeCompleteSentences(text.slice(spokenLength));
+      sentences.forEach(speakText);
+      spokenLength += consumed;
+    };
+
+    try {
+      const completion = await fetchCompletion(config, userText, (partial) => {
+        // Providers trim the final completion but not the streamed text, so
+        // both are trimmed the same way for spokenLength to line up
+        const reply = splitReply(partial).reply.trimStart();
+        if (!reply) return;
+        setMessages(prev => prev.map(msg => (msg.id === pendingId ? { ...msg, text: reply } : msg)));
+        speakCompleteSentences(reply);
+      }, (reported) => {
+        usage = reported;
+      }, controller.signal);
+
+      const { reply: rawReply, correctionsJson } = splitReply(completion);
+      const reply = rawReply.trimStart();
+      const corrections = parseCorrections(correctionsJson);
+      setMessages(prev => {
+        const pendingIndex = prev.findIndex(msg => msg.id === pendingId);
+        // The user turn this reply answers is the last one before the placeholder
+        let userIndex = -1;
+        for (let i = pendingIndex - 1; i >= 0; i--) {
+          if (prev[i].role === 'user') {
+            userIndex = i;
+            break;
+          }
+        }
+        return prev.map((msg, index) => {
+          if (msg.id === pendingId) return { ...msg, text: reply, isComplete: true, usage };
+          if (index === userIndex) return { ...msg, corrections };
+          return msg;
+        });
+      });
+      if (corrections.length && vocabulary) {
+        vocabulary.collect(corrections, userText, snapshot.session?.id ?? null)
+          .catch(e => console.warn('Could not save corrections to the notebook', e));
+      }
+      // Speak whatever trailed the last sentence boundary
+      const remainder = reply.slice(spokenLength).trim();
+      if (remainder) speakText(remainder);
+      updateSummaryIfNeeded();
+    } catch (e) {
+      // Keep what was streamed so far, drop the placeholder if nothing arrived
+      setMessages(prev => prev
+        .filter(msg => !(msg.id === pendingId && msg.text === PENDING_REPLY_TEXT))
+        .map(msg => (msg.id === pendingId ? { ...msg, isComplete: true } : msg)));
+      if (controller.signal.aborted) return;
+
+      const failure = toTutorError(e);
+      if (failure.fatal) {
+        fail(failure);
+        return;
+      }
+      // The learner can simply say it again
+      console.error('Tutor reply failed', failure);
+      update({ error: failure });
+      if (snapshot.connectionState === ConnectionState.RECONNECTING) {
+        setConnection(ConnectionState.CONNECTED);
+      }
+    } finally {
+      if (completionAbort === controller) {
+        completionAbort = null;
+        replyStreaming = false;
+        if (snapshot.turnState === TurnState.THINKING) {
+          // Nothing was spoken (error or empty reply)
+          setTurn(TurnState.LISTENING);
+        } else {
+          finishTutorTurnIfIdle();
+        }
+      }
+    }
+  };
+
+  const handleStart = () => {
+    // Results from a suspended recognition never became a message
+    utteranceTimer = createUtteranceTimer();
+    setConnection(ConnectionState.CONNECTED);
+    // The opening line is spoken once recognition is up, so suspending it
+    // for the tutor's turn is safe
+    if (openingLine) {
+      commitMessage('model', openingLine);
+      speakText(openingLine);
+      openingLine = null;
+    }
+  };
+
+  const handleResult = async (transcript: string, isFinal: boolean) => {
+    // Late results from before the tutor took the turn
+    if (snapshot.turnState === TurnState.TUTOR_SPEAKING) return;
+    // Hearing the learner means the recognizer has recovered
+    recognizerRestarts = 0;
+    utteranceTimer.mark();
+
+    // Push-to-talk collects everything said while the key is held and
+    // sends it as one turn when recognition ends (handleEnd)
+    if (isPushToTalk()) {
+      if (isFinal) {
+        pttFinal = `${pttFinal} ${transcript}`.trim();
+        pttInterim = '';
+      } else {
+        pttInterim = transcript;
+      }
+      updateStreamingMessage('user', `${pttFinal} ${pttInterim}`.trim());
+      return;
+    }
+
+    updateStreamingMessage('user', transcript);
+
+    if (isFinal) {
+      const fluency = utteranceTimer.finish(transcript);
+      utteranceTimer = createUtteranceTimer();
+      const messageId = commitMessage('user', transcript, { fluency });
+      onUtterance?.(messageId);
+      await respondTo(transcript);
+    }
+  };
+
+  const handleEnd = () => {
+    if (isPushToTalk() && !snapshot.isTalking) {
+      const utterance = `${pttFinal} ${pttInterim}`.trim();
+      pttFinal = '';
+      pttInterim = '';
+      const fluency = utteranceTimer.finish(utterance);
+      utteranceTimer = createUtteranceTimer();
+      if (utterance) {
+        const messageId = commitMessage('user', utterance, { fluency });
+        onUtterance?.(messageId);
+        respondTo(utterance);
+      } else {
+        // Key released without speech
+        setMessages(prev => prev.filter(msg => msg.isComplete || msg.role !== 'user'));
+      }
+      return;
+    }
+    // Also restarts a push-to-talk recognizer that timed out while the key is held
+    if (snapshot.turnState !== TurnState.TUTOR_SPEAKING) resumeRecognition();
+  };
+
+  const restartRecognizer = (failure: TutorError) => {
+    if (recognizerRestarts >= maxRecognizerRestarts) {
+      fail(failure);
+      return;
+    }
+    recognizerRestarts += 1;
+    setConnection(ConnectionState.RECONNECTING);
+
+    const delayMs = recognizerRestartDelayMs * 2 ** (recognizerRestarts - 1);
+    restartTimer = setTimeout(() => {
+      restartTimer = null;
+      if (snapshot.connectionState !== ConnectionState.RECONNECTING) return;
+      if (!snapshot.isMicOn
+        || snapshot.turnState === TurnState.TUTOR_SPEAKING
+        || (isPushToTalk() && !snapshot.isTalking)) {
+        // Resumed when the mic is turned back on, the tutor finishes or the key is held
+        setConnection(ConnectionState.CONNECTED);
+        return;
+      }
+      try {
+        // handleStart marks the session connected again
+        recognizer?.start();
+      } catch (e) {
+        // Still running (the Whisper recognizer keeps listening after a failed upload)
+        setConnection(ConnectionState.CONNECTED);
+      }
+    }, delayMs);
+  };
+
+  const handleRecognizerError = (failure: TutorError) => {
+    if (failure.fatal) {
+      fail(failure);
+    } else if (failure.kind === 'network' || failure.kind === 'recognizer-aborted') {
+      console.warn('Recognizer dropped, restarting', failure);
+      restartRecognizer(failure);
+    } else {
+      // Rate limits and server errors on one utterance; keep listening
+      console.error('Recognizer error', failure);
+      update({ error: failure });
+    }
+  };
+
+  const connectPipeline = (config: PipelineConfig) => {
+    pipeline = config;
+    openingLine = snapshot.messages.length === 0 ? config.openingLine : null;
+    utteranceTimer = createUtteranceTimer();
+    recognizer = config.adapters.createRecognizer({
+      onStart: handleStart,
+      onResult: handleResult,
+      onEnd: handleEnd,
+      onError: handleRecognizerError
+    });
+    if (isPushToTalk()) {
+      // Nothing to start until the learner holds the key
+      handleStart();
+    } else {
+      recognizer.start();
+    }
+  };
+
+  const teardown = () => {
+    if (restartTimer) {
+      clearTimeout(restartTimer);
+      restartTimer = null;
+    }
+    recognizerRestarts = 0;
+    recognizer?.dispose();
+    recognizer = null;
+
+    // Cancel any streaming reply and queued speech
+    completionAbort?.abort();
+    completionAbort = null;
+    replyStreaming = false;
+    cancelSpeech();
+    pipeline?.adapters.synthesizer.dispose();
+    pipeline = null;
+    transport = null;
+    pttFinal = '';
+    pttInterim = '';
+    openingLine = null;
+  };
+
+  const disconnect = () => {
+    teardown();
+    const session = snapshot.session && snapshot.session.endedAt === null
+      ? { ...snapshot.session, endedAt: Date.now() }
+      : snapshot.session;
+    update({
+      connectionState: ConnectionState.DISCONNECTED,
+      turnState: TurnState.LISTENING,
+      isTalking: false,
+      session
+    });
+    onStop?.(null);
+  };
+
+  // Tears the session down and leaves it in the error state with a banner
+  const fail = (failure: TutorError) => {
+    console.error('Session failed', failure);
+    teardown();
+    const session = snapshot.session && snapshot.session.endedAt === null
+      ? { ...snapshot.session, endedAt: Date.now() }
+      : snapshot.session;
+    update({
+      connectionState: ConnectionState.ERROR,
+      turnState: TurnState.LISTENING,
+      isTalking: false,
+      session,
+      error: failure
+    });
+    onStop?.(failure);
+  };
+
+  const dispatch = (event: SessionEvent) => {
+    switch (event.type) {
+      case 'connecting': {
+        if (isLive()) return;
+        const session = snapshot.session
+          ? { ...snapshot.session, endedAt: null }
+          : createSession(event.scenarioId, event.level, snapshot.messages);
+        if (!snapshot.session) {
+          storage.create(session).catch(e => console.error('Failed to save session', e));
+        }
+        update({ connectionState: ConnectionState.CONNECTING, error: null, session });
+        return;
+      }
+      case 'connect': {
+        if (snapshot.connectionState !== ConnectionState.CONNECTING) return;
+        if (event.pipeline) {
+          connectPipeline(event.pipeline);
+        } else {
+          transport = event.transport ?? null;
+          setConnection(ConnectionState.CONNECTED);
+        }
+        return;
+      }
+      case 'disconnect':
+        disconnect();
+        return;
+      case 'fail':
+        fail(event.error);
+        return;
+      case 'report-error':
+        update({ error: event.error });
+        return;
+      case 'dismiss-error':
+        update({ error: null });
+        return;
+      case 'send-text': {
+        // Typed messages go through the same reply and corrections pipeline as speech
+        const text = event.text.trim();
+        if (!text || !isLive() || !pipeline) return;
+        commitMessage('user', text);
+        respondTo(text);
+        return;
+      }
+      case 'toggle-mic': {
+        const isMicOn = !snapshot.isMicOn;
+        update({ isMicOn });
+        if (!isMicOn) {
+          recognizer?.stop();
+        } else if (snapshot.turnState !== TurnState.TUTOR_SPEAKING) {
+          resumeRecognition();
+        }
+        return;
+      }
+      case 'start-talking': {
+        // Push-to-talk: capture one utterance, interrupting the tutor if needed
+        if (!isPushToTalk() || snapshot.isTalking || !isLive() || !pipeline || !snapshot.isMicOn) return;
+        pttFinal = '';
+        pttInterim = '';
+        update({ isTalking: true });
+        if (snapshot.turnState !== TurnState.LISTENING) bargeIn();
+        resumeRecognition();
+        return;
+      }
+      case 'stop-talking': {
+        // The utterance is sent once the final result is in (handleEnd)
+        if (!snapshot.isTalking) return;
+        update({ isTalking: false });
+        try {
+          recognizer?.stop();
+        } catch (e) {
+          // not running
+        }
+        return;
+      }
+      case 'set-input-mode': {
+        // Switching modes mid-session stops or resumes listening right away
+        update({ inputMode: event.inputMode, isTalking: false });
+        if (event.inputMode === 'push-to-talk') {
+          suspendRecognition();
+        } else if (snapshot.turnState === TurnState.LISTENING) {
+          resumeRecognition();
+        }
+        return;
+      }
+      case 'mic-level':
+        if (snapshot.isMicOn) detectBargeIn(event.rms);
+        return;
+      case 'load-session': {
+        // A failed session is already torn down, so it can be left the same way
+        if (snapshot.connectionState !== ConnectionState.DISCONNECTED
+          && snapshot.connectionState !== ConnectionState.ERROR) return;
+        const { session } = event;
+        update({
+          connectionState: ConnectionState.DISCONNECTED,
+          error: null,
+          session,
+          messages: session
+            ? session.messages
+              .filter(msg => msg.isComplete || msg.text !== PENDING_REPLY_TEXT)
+              .map(msg => ({ ...msg, isComplete: true }))
+            : []
+        });
+        return;
+      }
+      case 'patch-session':
+        if (snapshot.session?.id === event.sessionId) {
+          update({ session: { ...snapshot.session, ...event.patch } });
+        }
+        return;
+      case 'update-messages':
+        setMessages(event.update);
+        return;
+      case 'set-turn':
+        setTurn(event.turnState);
+        return;
+    }
+  };
+
+  return {
+    dispatch,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      disconnect();
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = null;
+      listeners.clear();
+    }
+  };
+}
@@ -1,76 +1,258 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { ConnectionState, ChatMessage } from '../types';
-
-const MODEL_NAME = 'gpt-4o-mini';
-
-// System instruction for English Tutor
-const SYSTEM_INSTRUCTION = `You are a friendly, patient, and encouraging English language tutor.
-Your goal is to have a casual conversation with the user to help them practice their spoken English.
-If the user makes a significant grammatical error, gently correct them in a natural way (e.g., "Oh, did you mean...?") and then continue the conversation.
-Do not be overly pedantic. Keep the tone light and fun.
-Speak clearly and at a moderate pace.`;
-
-type SpeechRecognitionConstructor = { new (): SpeechRecognition };
-
-export const useGptTutor = () => {
-  const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [volume, setVolume] = useState<number>(0);
-  const [isMicOn, setIsMicOn] = useState<boolean>(true);
-  const [apiKey, setApiKey] = useState<string>(() => {
-    const viteEnvKey = (import.meta as any).env?.VITE_API_KEY as string | undefined;
-    if (viteEnvKey) return viteEnvKey;
-
-    const processEnvKey = (typeof process !== 'undefined'
-      ? (process as any).env?.API_KEY
-      : undefined) as string | undefined;
-    if (processEnvKey) return processEnvKey;
+import { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import {
+  CefrLevel,
+  ConnectionState,
+  ChatMessage,
+  Dictation,
+  DictationEvents,
+  InputMode,
+  LearnerProfile,
+  LlmProviderId,
+  LlmSettings,
+  RealtimeSettings,
+  SpeechRecognizer,
+  SpeechSynthesizer,
+  TranscriptionSettings,
+  TtsSettings,
+  TurnState,
+  TutorSession,
+  UiLocale,
+  UsagePurpose,
+  UsageSettings
+} from '../types';
+import { unsummarizedMessages } from '../utils/history';
+import { buildSystemInstruction, CEFR_LEVELS, DEFAULT_LEVEL, DEFAULT_SCENARIO_ID, getScenario, SCENARIOS } from '../utils/scenarios';
+import { createProvider, DEFAULT_LLM_SETTINGS, PROVIDERS } from '../providers';
+import { getSession, patchSession, saveSession, subscribeToSessions } from '../storage/sessionStore';
+import { profileStorageKey } from '../storage/profileStore';
+import { collectCorrections } from '../storage/vocabularyStore';
+import { createRecognizer, DEFAULT_TRANSCRIPTION_SETTINGS, isWebSpeechSupported, RECOGNIZER_ENGINES } from '../recognizers';
+import { createSynthesizer, DEFAULT_TTS_SETTINGS, SYNTHESIZER_ENGINES } from '../synthesizers';
+import { connectRealtime, RealtimeClient, REALTIME_SAMPLE_RATE } from '../realtime/realtimeClient';
+import { createSessionEngine, SessionEngine } from '../engine/sessionEngine';
+import { createPcmPlayer, PcmPlayer } from '../utils/pcmPlayer';
+import { decodeBase64, encodeWav, pcm16ToWav } from '../utils/audioUtils';
+import { createUtteranceRecorder, UtteranceRecorder } from '../utils/recorder';
+import { createMicCapture, MicCapture } from '../utils/micCapture';
+import { getRecording, recordingId, saveRecording } from '../storage/recordingStore';
+import { clearProxyToken, getProxyToken, PROXY_BASE_URL, PROXY_MODE } from '../utils/proxy';
+import { toTutorError, TutorError } from '../utils/errors';
+import { translateToSpanish } from '../utils/translation';
+import { generateSessionReport } from '../utils/report';
+import { generateQuiz, QuizMistake } from '../utils/quiz';
+import { DEFAULT_USAGE_SETTINGS, formatUsd, withUsageTracking } from '../utils/usage';
+import { addUsageRecord } from '../storage/usageStore';
+import { useUsage } from './useUsage';
+import { useI18n } from '../i18n';
+
+const SETTINGS_STORAGE_KEY = 'tutor_llm_settings';
+const PRACTICE_STORAGE_KEY = 'tutor_practice_prefs';
+const TRANSCRIPTION_STORAGE_KEY = 'tutor_transcription_settings';
+const TTS_STORAGE_KEY = 'tutor_tts_settings';
+const REALTIME_STORAGE_KEY = 'tutor_realtime_settings';
+const ACCESS_CODE_STORAGE_KEY = 'tutor_access_code';
+const EXPLANATION_LANGUAGE_STORAGE_KEY = 'tutor_explanation_language';
+const AUTO_COLLECT_STORAGE_KEY = 'tutor_auto_collect_vocabulary';
+const USAGE_STORAGE_KEY = 'tutor_usage_settings';
+
+export const DEFAULT_REALTIME_SETTINGS: RealtimeSettings = {
+  mode: 'pipeline',
+  url: 'wss://api.openai.com/v1/realtime',
+  model: 'gpt-4o-realtime-preview'
+};
 
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('openai_api_key') ?? '';
+// Each provider keeps its own key so switching back and forth does not lose it
+const API_KEY_STORAGE_KEYS: Record<LlmProviderId, string | null> = {
+  openai: 'openai_api_key',
+  gemini: 'gemini_api_key',
+  'openai-compatible': 'compatible_api_key',
+  mock: null
+};
+
+// Settings are kept per learner profile
+const readSetting = (key: string, profile: LearnerProfile) => localStorage.getItem(profileStorageKey(key, profile.id));
+const writeSetting = (key: string, profile: LearnerProfile, value: string) =>
+  localStorage.setItem(profileStorageKey(key, profile.id), value);
+
+const loadSettings = (profile: LearnerProfile): LlmSettings => {
+  if (typeof window === 'undefined') return DEFAULT_LLM_SETTINGS;
+  try {
+    const stored = JSON.parse(readSetting(SETTINGS_STORAGE_KEY, profile) ?? 'null');
+    if (stored && stored.provider in PROVIDERS) {
+      return { ...DEFAULT_LLM_SETTINGS, ...stored };
     }
+  } catch (e) {
+    // ignore malformed settings
+  }
+  return DEFAULT_LLM_SETTINGS;
+};
 
-    return '';
-  });
+// A profile without saved settings recognizes its preferred accent
+const loadTranscriptionSettings = (profile: LearnerProfile): TranscriptionSettings => {
+  const defaults = { ...DEFAULT_TRANSCRIPTION_SETTINGS, lang: profile.accent };
+  if (typeof window === 'undefined') return defaults;
+  try {
+    const stored = JSON.parse(readSetting(TRANSCRIPTION_STORAGE_KEY, profile) ?? 'null');
+    if (stored && stored.engine in RECOGNIZER_ENGINES) {
+      return { ...defaults, ...stored };
+    }
+  } catch (e) {
+    // ignore malformed settings
+  }
+  return defaults;
+};
 
-  const connectionStateRef = useRef(connectionState);
-  useEffect(() => {
-    connectionStateRef.current = connectionState;
-  }, [connectionState]);
+// ...and speaks with it
+const loadTtsSettings = (profile: LearnerProfile): TtsSettings => {
+  const defaults = { ...DEFAULT_TTS_SETTINGS, accent: profile.accent };
+  if (typeof window === 'undefined') return defaults;
+  try {
+    const stored = JSON.parse(readSetting(TTS_STORAGE_KEY, profile) ?? 'null');
+    if (stored && stored.engine in SYNTHESIZER_ENGINES) {
+      return { ...defaults, ...stored };
+    }
+  } catch (e) {
+    // ignore malformed settings
+  }
+  return defaults;
+};
 
-  const micStateRef = useRef(isMicOn);
-  useEffect(() => {
-    micStateRef.current = isMicOn;
-  }, [isMicOn]);
+const loadRealtimeSettings = (profile: LearnerProfile): RealtimeSettings => {
+  if (typeof window === 'undefined') return DEFAULT_REALTIME_SETTINGS;
+  try {
+    const stored = JSON.parse(readSetting(REALTIME_STORAGE_KEY, profile) ?? 'null');
+    if (stored && (stored.mode === 'pipeline' || stored.mode === 'realtime')) {
+      return { ...DEFAULT_REALTIME_SETTINGS, ...stored };
+    }
+  } catch (e) {
+    // ignore malformed settings
+  }
+  return DEFAULT_REALTIME_SETTINGS;
+};
 
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('openai_api_key', apiKey);
+const loadExplanationLanguage = (profile: LearnerProfile): UiLocale => {
+  if (typeof window === 'undefined') return 'en';
+  return readSetting(EXPLANATION_LANGUAGE_STORAGE_KEY, profile) === 'es' ? 'es' : 'en';
+};
+
+const loadAutoCollect = (profile: LearnerProfile): boolean => {
+  if (typeof window === 'undefined') return true;
+  return readSetting(AUTO_COLLECT_STORAGE_KEY, profile) !== 'false';
+};
+
+// Stored prices are layered over the defaults, so newly listed models get a price
+const loadUsageSettings = (profile: LearnerProfile): UsageSettings => {
+  if (typeof window === 'undefined') return DEFAULT_USAGE_SETTINGS;
+  try {
+    const stored = JSON.parse(readSetting(USAGE_STORAGE_KEY, profile) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        ...DEFAULT_USAGE_SETTINGS,
+        ...stored,
+        prices: { ...DEFAULT_USAGE_SETTINGS.prices, ...stored.prices }
+      };
     }
-  }, [apiKey]);
+  } catch (e) {
+    // ignore malformed settings
+  }
+  return DEFAULT_USAGE_SETTINGS;
+};
+
+interface PracticePrefs {
+  scenarioId: string;
+  level: CefrLevel;
+}
+
+const loadPracticePrefs = (profile: LearnerProfile): PracticePrefs => {
+  const defaults: PracticePrefs = { scenarioId: DEFAULT_SCENARIO_ID, level: profile.level ?? DEFAULT_LEVEL };
+  if (typeof window === 'undefined') return defaults;
+  try {
+    const stored = JSON.parse(readSetting(PRACTICE_STORAGE_KEY, profile) ?? 'null');
+    return {
+      scenarioId: SCENARIOS.some(s => s.id === stored?.scenarioId) ? stored.scenarioId : defaults.scenarioId,
+      level: CEFR_LEVELS.includes(stored?.level) ? stored.level : defaults.level
+    };
+  } catch (e) {
+    return defaults;
+  }
+};
 
-  // Audio Contexts (used for volume visualization only)
+// Server keys stay on the proxy; VITE_API_KEY is an explicit opt-in for local development
+const readEnvApiKey = (provider: LlmProviderId): string | undefined =>
+  (provider === 'openai' ? (import.meta as any).env?.VITE_API_KEY as string | undefined : undefined);
+
+const loadApiKey = (provider: LlmProviderId, profile: LearnerProfile): string => {
+  const envKey = readEnvApiKey(provider);
+  if (envKey) return envKey;
+
+  const storageKey = API_KEY_STORAGE_KEYS[provider];
+  if (storageKey && typeof window !== 'undefined') {
+    return readSetting(storageKey, profile) ?? '';
+  }
+
+  return '';
+};
+
+/**
+ * The tutor for one learner profile. The app remounts it when the profile
+ * changes, so `profile` is fixed for the hook's lifetime.
+ */
+export const useGptTutor = (profile: LearnerProfile) => {
+  const { t } = useI18n();
+  // Taps on the microphone and on the tutor's voice, drawn by the visualizer
+  const [micAnalyser, setMicAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [settings, setSettings] = useState<LlmSettings>(() => loadSettings(profile));
+  const [apiKey, setApiKey] = useState<string>(() => loadApiKey(settings.provider, profile));
+  // In proxy mode the server holds the key and every request goes through it
+  const requiresApiKey = !PROXY_MODE && PROVIDERS[settings.provider].requiresApiKey;
+  // The school's access code belongs to the device, not to a profile
+  const [accessCode, setAccessCode] = useState<string>(() =>
+    typeof window !== 'undefined' ? localStorage.getItem(ACCESS_CODE_STORAGE_KEY) ?? '' : ''
+  );
+  const proxyTokenRef = useRef('');
+  const [transcription, setTranscription] = useState<TranscriptionSettings>(() => loadTranscriptionSettings(profile));
+  const [tts, setTts] = useState<TtsSettings>(() => loadTtsSettings(profile));
+  const [realtime, setRealtime] = useState<RealtimeSettings>(() => loadRealtimeSettings(profile));
+  const isRealtime = realtime.mode === 'realtime';
+  // Practice scenario and CEFR level, chosen before connecting
+  const [practice, setPractice] = useState<PracticePrefs>(() => loadPracticePrefs(profile));
+  // Language the tutor explains corrections in
+  const [explanationLanguage, setExplanationLanguage] = useState<UiLocale>(() => loadExplanationLanguage(profile));
+  // Save corrected phrases to the vocabulary notebook automatically
+  const [autoCollectVocabulary, setAutoCollectVocabulary] = useState<boolean>(() => loadAutoCollect(profile));
+  const autoCollectRef = useRef(autoCollectVocabulary);
+  // Post-session report being written after "End Session"
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  // Price table and per-session spending budget
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => loadUsageSettings(profile));
+
+  // Microphone graph: level metering, recording and realtime streaming
   const inputContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-
-  const disconnect = useCallback(() => {
-    // Stop recognition
-    connectionStateRef.current = ConnectionState.DISCONNECTED;
-    if (recognitionRef.current) {
-      recognitionRef.current.onresult = null;
-      recognitionRef.current.onend = null;
-      recognitionRef.current.onerror = null;
-      try {
-        recognitionRef.current.stop();
-      } catch (e) {
-        // ignore
-      }
-      recognitionRef.current = null;
+  // Realtime (speech-to-speech) mode
+  const realtimeClientRef = useRef<RealtimeClient | null>(null);
+  const outputContextRef = useRef<AudioContext | null>(null);
+  const realtimePlayerRef = useRef<PcmPlayer | null>(null);
+  // The learner's voice since their turn started, kept with each utterance
+  const recorderRef = useRef<UtteranceRecorder | null>(null);
+  // Realtime tutor audio by response id, stored when the response is done
+  const realtimeAudioRef = useRef(new Map<string, Uint8Array[]>());
+
+  // Releases what the hook sets up around the engine: the microphone, its
+  // audio graph and the realtime connection
+  const releaseAudio = () => {
+    realtimeClientRef.current?.close();
+    realtimeClientRef.current = null;
+    realtimePlayerRef.current?.stop();
+    realtimePlayerRef.current = null;
+    realtimeAudioRef.current.clear();
+    recorderRef.current = null;
+    if (outputContextRef.current) {
+      outputContextRef.current.close();
+      outputContextRef.current = null;
     }
-
-    // Stop Audio Input
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -79,259 +261,755 @@ export const useGptTutor = () => {
       inputContextRef.current.close();
       inputContextRef.current = null;
     }
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
+    micCaptureRef.current?.dispose();
+    micCaptureRef.current = null;
+    setMicAnalyser(null);
+    setOutputAnalyser(null);
+  };
+
+  // Stores the audio of a message of the active session and flags the
+  // message, so the chat shows its play button
+  const keepRecording = (messageId: string, role: 'user' | 'model', blob: Blob, durationMs: number) => {
+    const sessionId = engine.getSnapshot().session?.id;
+    if (!sessionId) return;
+    saveRecording({
+      id: recordingId(sessionId, messageId),
+      sessionId,
+      messageId,
+      role,
+      blob,
+      durationMs,
+      createdAt: Date.now()
+    })
+      .then(() => {
+        if (engine.getSnapshot().session?.id !== sessionId) return;
+        engine.dispatch({
+          type: 'update-messages',
+          update: prev => prev.map(msg => (msg.id === messageId ? { ...msg, hasAudio: true } : msg))
+        });
+      })
+      .catch(e => console.error('Failed to save recording', e));
+  };
+
+  const keepUtterance = (messageId: string) => {
+    const recorder = recorderRef.current;
+    const samples = recorder?.take();
+    if (!recorder || !samples) return;
+    keepRecording(messageId, 'user', encodeWav(samples, recorder.sampleRate), (samples.length / recorder.sampleRate) * 1000);
+  };
+
+  // The conversation itself (turns, recognition, replies, speech) lives in
+  // the session engine; this hook binds it to React and the browser
+  const engineRef = useRef<SessionEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createSessionEngine({
+      storage: { create: saveSession, patch: patchSession },
+      vocabulary: {
+        collect: (corrections, context, sessionId) => (autoCollectRef.current
+          ? collectCorrections(corrections, context, sessionId)
+          : Promise.resolve())
+      },
+      inputMode: transcription.inputMode,
+      onUtterance: (messageId) => keepUtterance(messageId),
+      onStop: (failure) => {
+        releaseAudio();
+        // A rejected session token is cached; get a fresh one next time
+        if (PROXY_MODE && failure?.kind === 'invalid-key') clearProxyToken();
+      }
+    });
+  }
+  const engine = engineRef.current;
+  const { connectionState, turnState, messages, session: activeSession, isMicOn, isTalking, error } =
+    useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+  const usage = useUsage(activeSession?.id ?? null);
+
+  useEffect(() => {
+    const storageKey = API_KEY_STORAGE_KEYS[settings.provider];
+    if (storageKey && typeof window !== 'undefined') {
+      writeSetting(storageKey, profile, apiKey);
     }
+  }, [apiKey, settings.provider]);
 
-    setConnectionState(ConnectionState.DISCONNECTED);
-    setVolume(0);
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      writeSetting(SETTINGS_STORAGE_KEY, profile, JSON.stringify(settings));
+    }
+  }, [settings]);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      writeSetting(PRACTICE_STORAGE_KEY, profile, JSON.stringify(practice));
+    }
+  }, [practice]);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      writeSetting(TRANSCRIPTION_STORAGE_KEY, profile, JSON.stringify(transcription));
+    }
+  }, [transcription]);
+
+  const updateTranscription = useCallback((patch: Partial<TranscriptionSettings>) => {
+    setTranscription(prev => ({ ...prev, ...patch }));
   }, []);
 
-  const speakText = (text: string) => {
-    if (typeof window === 'undefined' || typeof window.speechSynthesis === 'undefined') return;
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      writeSetting(EXPLANATION_LANGUAGE_STORAGE_KEY, profile, explanationLanguage);
+    }
+  }, [explanationLanguage]);
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1;
-    utterance.pitch = 1;
-    window.speechSynthesis.cancel();
-    window.speechSynthesis.speak(utterance);
-  };
+  useEffect(() => {
+    autoCollectRef.current = autoCollectVocabulary;
+    if (typeof window !== 'undefined') {
+      writeSetting(AUTO_COLLECT_STORAGE_KEY, profile, String(autoCollectVocabulary));
+    }
+  }, [autoCollectVocabulary]);
 
-  const buildHistory = (newUserText: string): { role: 'system' | 'user' | 'assistant'; content: string }[] => {
-    const history: { role: 'system' | 'user' | 'assistant'; content: string }[] = [
-      { role: 'system', content: SYSTEM_INSTRUCTION }
-    ];
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      writeSetting(USAGE_STORAGE_KEY, profile, JSON.stringify(usageSettings));
+    }
+  }, [usageSettings]);
 
-    messages.forEach(msg => {
-      history.push({ role: msg.role === 'user' ? 'user' : 'assistant', content: msg.text });
-    });
+  const updateUsageSettings = useCallback((patch: Partial<UsageSettings>) => {
+    setUsageSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  // Warns once per session near the budget and stops the session at the cap.
+  // The check runs as the cost comes in and again on connect, so a resumed
+  // session that is already over the cap stops right away.
+  const budgetWarnedRef = useRef<string | null>(null);
+  const sessionCost = usage.session.costUsd;
+  useEffect(() => {
+    const sessionId = activeSession?.id;
+    const isLive = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
+    if (!sessionId || !isLive) return;
+    const { warnAtUsd, capUsd } = usageSettings;
+    if (capUsd > 0 && sessionCost >= capUsd) {
+      engine.dispatch({
+        type: 'fail',
+        error: new TutorError('budget', `This session has cost ${formatUsd(sessionCost)} of its ${formatUsd(capUsd)} budget`)
+      });
+    } else if (warnAtUsd > 0 && sessionCost >= warnAtUsd && budgetWarnedRef.current !== sessionId) {
+      budgetWarnedRef.current = sessionId;
+      engine.dispatch({
+        type: 'report-error',
+        error: new TutorError('budget-warning', `This session has cost ${formatUsd(sessionCost)} so far`)
+      });
+    }
+  }, [engine, activeSession?.id, connectionState, sessionCost, usageSettings]);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      writeSetting(TTS_STORAGE_KEY, profile, JSON.stringify(tts));
+    }
+  }, [tts]);
+
+  const updateTts = useCallback((patch: Partial<TtsSettings>) => {
+    setTts(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      writeSetting(REALTIME_STORAGE_KEY, profile, JSON.stringify(realtime));
+    }
+  }, [realtime]);
 
-    history.push({ role: 'user', content: newUserText });
-    return history;
+  const updateRealtime = useCallback((patch: Partial<RealtimeSettings>) => {
+    setRealtime(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  useEffect(() => {
+    if (PROXY_MODE && typeof window !== 'undefined') {
+      localStorage.setItem(ACCESS_CODE_STORAGE_KEY, accessCode);
+    }
+  }, [accessCode]);
+
+  const [accessCodeRequired, setAccessCodeRequired] = useState(false);
+  useEffect(() => {
+    if (!PROXY_MODE) return;
+    fetch('/api/health')
+      .then(response => response.json())
+      .then(data => setAccessCodeRequired(Boolean(data?.accessCodeRequired)))
+      .catch(e => console.error('Proxy health check failed', e));
+  }, []);
+
+  // OpenAI key for the speech endpoints, or the proxy session token
+  const speechApiKey = () => (PROXY_MODE ? proxyTokenRef.current : loadApiKey('openai', profile));
+
+  const updateSettings = useCallback((patch: Partial<LlmSettings>) => {
+    if (patch.provider && patch.provider !== settings.provider) {
+      // Switching provider resets model/URL to that provider's defaults
+      const info = PROVIDERS[patch.provider];
+      setApiKey(loadApiKey(patch.provider, profile));
+      setSettings({
+        ...settings,
+        model: info.defaultModel,
+        baseUrl: info.defaultBaseUrl,
+        ...patch
+      });
+      return;
+    }
+    setSettings({ ...settings, ...patch });
+  }, [settings]);
+
+  const disconnect = useCallback(() => engine.dispatch({ type: 'disconnect' }), [engine]);
+  const dismissError = useCallback(() => engine.dispatch({ type: 'dismiss-error' }), [engine]);
+  // Nothing is running after a disconnect or a failure
+  const isStopped = () => {
+    const { connectionState } = engine.getSnapshot();
+    return connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR;
   };
 
-  const fetchCompletion = async (userText: string): Promise<string> => {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: MODEL_NAME,
-        messages: buildHistory(userText),
-        temperature: 0.8
-      })
+  // Loads a stored session so the next connect continues it
+  const resumeSession = useCallback((session: TutorSession) => {
+    if (!isStopped()) return;
+    engine.dispatch({ type: 'load-session', session });
+    // Older sessions were stored without a level
+    setPractice({ scenarioId: session.scenarioId, level: session.level ?? DEFAULT_LEVEL });
+  }, [engine]);
+
+  const startNewSession = useCallback(() => {
+    engine.dispatch({ type: 'load-session', session: null });
+  }, [engine]);
+
+  // Deleting the loaded session (from the sidebar or another tab) ends it,
+  // instead of leaving a conversation whose saves go nowhere
+  useEffect(() => subscribeToSessions(() => {
+    const sessionId = engine.getSnapshot().session?.id;
+    if (!sessionId) return;
+    getSession(sessionId).then(stored => {
+      if (stored || engine.getSnapshot().session?.id !== sessionId) return;
+      if (!isStopped()) engine.dispatch({ type: 'disconnect' });
+      engine.dispatch({ type: 'load-session', session: null });
+    }).catch(e => console.warn('Could not check the current session', e));
+  }), [engine]);
+
+  // The scenario is part of the session, so it can only change before it starts
+  const updatePractice = useCallback((patch: Partial<PracticePrefs>) => {
+    if (!isStopped()) return;
+    setPractice(prev => ({ ...prev, ...patch }));
+    const session = engine.getSnapshot().session;
+    if (!session) return;
+    if (patch.scenarioId && session.scenarioId !== patch.scenarioId) {
+      // A different scenario means a fresh conversation
+      engine.dispatch({ type: 'load-session', session: null });
+    } else if (patch.level) {
+      engine.dispatch({ type: 'patch-session', sessionId: session.id, patch: { level: patch.level } });
+    }
+  }, [engine]);
+
+  // Switching modes mid-session stops or resumes listening right away
+  const updateInputMode = useCallback((inputMode: InputMode) => {
+    engine.dispatch({ type: 'set-input-mode', inputMode });
+    setTranscription(prev => ({ ...prev, inputMode }));
+  }, [engine]);
+
+  // Every chat request is metered against the session it was made for
+  const createChatProvider = (
+    purpose: UsagePurpose,
+    sessionId: () => string | null = () => engine.getSnapshot().session?.id ?? null
+  ) => {
+    const provider = PROXY_MODE
+      ? createProvider({ ...settings, provider: 'openai', baseUrl: PROXY_BASE_URL }, proxyTokenRef.current)
+      : createProvider(settings, apiKey);
+    return withUsageTracking(provider, {
+      model: settings.model || PROVIDERS[provider.id].defaultModel,
+      purpose,
+      prices: usageSettings.prices,
+      sessionId,
+      onRecord: (record) => {
+        addUsageRecord(record).catch(e => console.error('Failed to record usage', e));
+      }
+    });
+  };
+
+  // Creates or updates a message by id; realtime events arrive out of order
+  const upsertMessage = (
+    id: string,
+    role: 'user' | 'model',
+    patch: (current: ChatMessage | undefined) => Partial<ChatMessage>
+  ) => {
+    engine.dispatch({
+      type: 'update-messages',
+      update: prev => {
+        const index = prev.findIndex(msg => msg.id === id);
+        if (index === -1) {
+          return [...prev, { id, role, text: '', isComplete: false, timestamp: Date.now(), ...patch(undefined) }];
+        }
+        return prev.map((msg, i) => (i === index ? { ...msg, ...patch(msg) } : msg));
+      }
     });
+  };
 
-    if (!response.ok) {
-      throw new Error('OpenAI request failed');
+  const startRealtimeClient = (): Promise<RealtimeClient> => {
+    const player = realtimePlayerRef.current as PcmPlayer;
+    const { messages: history, session } = engine.getSnapshot();
+    const summary = session?.summary ?? null;
+    let instructions = buildSystemInstruction(getScenario(practice.scenarioId), practice.level, {
+      structuredCorrections: false,
+      explanationLanguage,
+      learner: profile
+    });
+    // A resumed conversation is replayed as context rather than as items
+    if (summary) {
+      instructions += '\n\nSummary of the earlier conversation:\n' + summary.text;
+    }
+    const recent = unsummarizedMessages(history, summary);
+    if (recent.length > 0) {
+      instructions += '\n\nConversation so far:\n' + recent
+        .map(msg => `${msg.role === 'user' ? 'User' : 'Tutor'}: ${msg.text}`)
+        .join('\n');
     }
 
-    const data = await response.json();
-    const content = data?.choices?.[0]?.message?.content;
-    if (typeof content === 'string') return content;
-    if (Array.isArray(content)) return content.map((c: any) => c?.text ?? '').join(' ').trim();
-    return '';
+    return connectRealtime({
+      url: realtime.url || DEFAULT_REALTIME_SETTINGS.url,
+      model: realtime.model,
+      apiKey: speechApiKey(),
+      instructions,
+      voice: tts.voice,
+      transcriptionModel: transcription.model || DEFAULT_TRANSCRIPTION_SETTINGS.model
+    }, {
+      onSpeechStarted: (itemId) => {
+        // The server interrupts its own reply; drop audio already queued here
+        player.stop();
+        engine.dispatch({ type: 'set-turn', turnState: TurnState.LISTENING });
+        upsertMessage(itemId, 'user', current => (current ? {} : { text: '…' }));
+      },
+      onUserTranscript: (itemId, transcript) => {
+        if (!transcript) {
+          engine.dispatch({ type: 'update-messages', update: prev => prev.filter(msg => msg.id !== itemId) });
+          return;
+        }
+        upsertMessage(itemId, 'user', () => ({ text: transcript, isComplete: true }));
+        keepUtterance(itemId);
+      },
+      onAssistantTranscriptDelta: (responseId, delta) => {
+        upsertMessage(responseId, 'model', current => ({ text: (current?.text ?? '') + delta }));
+      },
+      onAssistantTranscriptDone: (responseId, transcript) => {
+        upsertMessage(responseId, 'model', current => ({ text: transcript || current?.text || '', isComplete: true }));
+      },
+      onAudioDelta: (responseId, base64) => {
+        const pcm = decodeBase64(base64);
+        const chunks = realtimeAudioRef.current.get(responseId) ?? [];
+        chunks.push(pcm);
+        realtimeAudioRef.current.set(responseId, chunks);
+        const source = player.enqueue(pcm);
+        engine.dispatch({ type: 'set-turn', turnState: TurnState.TUTOR_SPEAKING });
+        source.addEventListener('ended', () => {
+          if (!player.isPlaying() && engine.getSnapshot().turnState === TurnState.TUTOR_SPEAKING) {
+            engine.dispatch({ type: 'set-turn', turnState: TurnState.LISTENING });
+          }
+        });
+      },
+      onResponseDone: (responseId) => {
+        upsertMessage(responseId, 'model', () => ({ isComplete: true }));
+        const chunks = realtimeAudioRef.current.get(responseId);
+        realtimeAudioRef.current.delete(responseId);
+        if (chunks?.length) {
+          const pcm = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+          let offset = 0;
+          chunks.forEach(c => {
+            pcm.set(c, offset);
+            offset += c.length;
+          });
+          keepRecording(responseId, 'model', pcm16ToWav(pcm, REALTIME_SAMPLE_RATE), (pcm.length / 2 / REALTIME_SAMPLE_RATE) * 1000);
+        }
+      },
+      onError: (message) => {
+        // The socket stays open, so report it and keep talking
+        console.error('Realtime error', message);
+        engine.dispatch({ type: 'report-error', error: new TutorError('server', message) });
+      },
+      onClose: () => {
+        engine.dispatch({ type: 'fail', error: new TutorError('network', 'The realtime connection closed unexpectedly') });
+      }
+    });
   };
 
   const connect = useCallback(async () => {
-    if (!apiKey) {
-      alert('Please provide a valid OpenAI API Key to start the session.');
+    if (PROXY_MODE && isRealtime) {
+      alert(t('connect.realtimeViaProxy'));
       return;
     }
 
-    try {
-      setConnectionState(ConnectionState.CONNECTING);
+    engine.dispatch({ type: 'dismiss-error' });
+    if (PROXY_MODE) {
+      try {
+        proxyTokenRef.current = await getProxyToken(accessCode);
+      } catch (e) {
+        engine.dispatch({ type: 'fail', error: toTutorError(e) });
+        return;
+      }
+    }
 
-      const SpeechRecognitionClass: SpeechRecognitionConstructor | undefined =
-        (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-      if (!SpeechRecognitionClass) {
-        alert('Speech recognition is not supported in this browser.');
-        setConnectionState(ConnectionState.ERROR);
+    if (!isRealtime && requiresApiKey && !apiKey) {
+      alert(t('connect.missingKey', { provider: PROVIDERS[settings.provider].label }));
+      return;
+    }
+
+    engine.dispatch({ type: 'connecting', scenarioId: practice.scenarioId, level: practice.level });
+    // Disconnected or failed while waiting for the microphone or the server
+    const cancelled = () => engine.getSnapshot().connectionState !== ConnectionState.CONNECTING;
+
+    try {
+      if (!isRealtime && transcription.engine === 'browser' && !isWebSpeechSupported()) {
+        engine.dispatch({ type: 'fail', error: new TutorError('unsupported', 'Speech recognition is not supported in this browser.') });
         return;
       }
 
-      // Initialize Audio Contexts for volume visualization
+      // Output audio is created inside the click handler so the browser allows playback
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      inputContextRef.current = new AudioContextClass({ sampleRate: 16000 });
+      const synthesizer = isRealtime
+        ? null
+        : createSynthesizer(PROXY_MODE ? { ...tts, baseUrl: PROXY_BASE_URL } : tts, speechApiKey());
+      if (isRealtime) {
+        outputContextRef.current = new AudioContextClass({ sampleRate: REALTIME_SAMPLE_RATE });
+        realtimePlayerRef.current = createPcmPlayer(outputContextRef.current, REALTIME_SAMPLE_RATE);
+      }
+
+      // Input audio graph for metering, recording and realtime mic streaming
+      inputContextRef.current = new AudioContextClass({ sampleRate: isRealtime ? REALTIME_SAMPLE_RATE : 16000 });
+      recorderRef.current = createUtteranceRecorder(inputContextRef.current.sampleRate);
 
       // Get Microphone Stream
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true }
+      });
       streamRef.current = stream;
+      if (cancelled()) {
+        synthesizer?.dispose();
+        releaseAudio();
+        return;
+      }
 
       const source = inputContextRef.current.createMediaStreamSource(streamRef.current);
-      const processor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-      scriptProcessorRef.current = processor;
+      // Blocks arrive from the audio thread a few times a second and are
+      // owned by the handler; nothing here goes through React state
+      const capture = await createMicCapture(inputContextRef.current, source, (samples, rms) => {
+        if (!engine.getSnapshot().isMicOn) return;
+        engine.dispatch({ type: 'mic-level', rms });
+
+        // Record the learner's turns only; push-to-talk only while the key is held
+        const recorder = recorderRef.current;
+        const { turnState: turn, inputMode: mode, isTalking: talking } = engine.getSnapshot();
+        if (turn === TurnState.TUTOR_SPEAKING) {
+          recorder?.clear();
+        } else if (isRealtime || mode !== 'push-to-talk' || talking) {
+          recorder?.push(samples);
+        }
 
-      processor.onaudioprocess = (e) => {
-        if (!micStateRef.current) {
-          setVolume(0);
+        // Half-duplex: keep the tutor's own voice out of the server's VAD
+        if (realtimeClientRef.current && turn !== TurnState.TUTOR_SPEAKING) {
+          realtimeClientRef.current.sendAudio(samples);
+        }
+      });
+      micCaptureRef.current = capture;
+      if (cancelled()) {
+        synthesizer?.dispose();
+        releaseAudio();
+        return;
+      }
+      setMicAnalyser(capture.analyser);
+      setOutputAnalyser(isRealtime ? realtimePlayerRef.current?.analyser ?? null : synthesizer?.analyser ?? null);
+
+      if (isRealtime) {
+        const client = await startRealtimeClient();
+        if (cancelled()) {
+          client.close();
+          releaseAudio();
           return;
         }
+        realtimeClientRef.current = client;
+        engine.dispatch({
+          type: 'connect',
+          transport: {
+            interrupt: () => {
+              realtimePlayerRef.current?.stop();
+              realtimeClientRef.current?.cancelResponse();
+            }
+          }
+        });
+        return;
+      }
 
-        const inputData = e.inputBuffer.getChannelData(0);
-        let sum = 0;
-        for (let i = 0; i < inputData.length; i++) {
-          sum += inputData[i] * inputData[i];
+      const context = inputContextRef.current;
+      engine.dispatch({
+        type: 'connect',
+        pipeline: {
+          adapters: {
+            createRecognizer: (events) => createRecognizer({
+              settings: PROXY_MODE ? { ...transcription, baseUrl: PROXY_BASE_URL } : transcription,
+              lang: transcription.lang,
+              apiKey: speechApiKey(),
+              context,
+              source
+            }, events),
+            llm: createChatProvider('conversation'),
+            summaryLlm: createChatProvider('summary'),
+            synthesizer: synthesizer as SpeechSynthesizer
+          },
+          systemInstruction: buildSystemInstruction(getScenario(practice.scenarioId), practice.level, { explanationLanguage, learner: profile }),
+          temperature: settings.temperature,
+          openingLine: getScenario(practice.scenarioId).openingLine
         }
-        const rms = Math.sqrt(sum / inputData.length);
-        setVolume(rms);
-      };
+      });
+    } catch (e) {
+      // Microphone permission, missing device or the realtime handshake
+      engine.dispatch({ type: 'fail', error: toTutorError(e) });
+    }
+  }, [engine, apiKey, requiresApiKey, accessCode, settings, transcription, tts, realtime, practice, explanationLanguage, usageSettings, t]);
+
+  const startTalking = useCallback(() => engine.dispatch({ type: 'start-talking' }), [engine]);
+  const stopTalking = useCallback(() => engine.dispatch({ type: 'stop-talking' }), [engine]);
+  const sendText = useCallback((text: string) => engine.dispatch({ type: 'send-text', text }), [engine]);
+
+  // Tap-to-translate: fetches the Spanish translation of a tutor message once
+  // and keeps it on the message, so it is saved with the session. Rejects when
+  // it fails, so the chat can offer a retry
+  const translateMessage = async (id: string) => {
+    const message = engine.getSnapshot().messages.find(msg => msg.id === id);
+    if (!message || message.role !== 'model' || !message.isComplete || message.translation) return;
+    try {
+      if (PROXY_MODE && !proxyTokenRef.current) {
+        proxyTokenRef.current = await getProxyToken(accessCode);
+      }
+      const translation = await translateToSpanish(createChatProvider('translation'), message.text);
+      engine.dispatch({
+        type: 'update-messages',
+        update: prev => prev.map(msg => (msg.id === id ? { ...msg, translation } : msg))
+      });
+    } catch (e) {
+      console.error('Translation failed', e);
+      engine.dispatch({ type: 'report-error', error: toTutorError(e) });
+      throw e;
+    }
+  };
 
-      source.connect(processor);
-      processor.connect(inputContextRef.current.destination);
+  // Quiz exercises for the picked mistakes, written in the explanation language
+  const createQuiz = async (mistakes: QuizMistake[]) => {
+    if (PROXY_MODE && !proxyTokenRef.current) {
+      proxyTokenRef.current = await getProxyToken(accessCode);
+    }
+    return generateQuiz(createChatProvider('quiz', () => null), mistakes, { language: explanationLanguage });
+  };
 
-      const recognition: SpeechRecognition = new SpeechRecognitionClass();
-      recognition.lang = 'en-US';
-      recognition.continuous = true;
-      recognition.interimResults = true;
+  // Spoken quiz answers go through the same recognizer as the conversation,
+  // on a microphone stream of their own that is released when the answer ends
+  const dictate = async (events: DictationEvents): Promise<Dictation> => {
+    if (PROXY_MODE && transcription.engine !== 'browser' && !proxyTokenRef.current) {
+      proxyTokenRef.current = await getProxyToken(accessCode);
+    }
 
-      recognition.onstart = () => {
-        setConnectionState(ConnectionState.CONNECTED);
-      };
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextClass({ sampleRate: 16000 });
+    let stream: MediaStream | null = null;
+    let recognizer: SpeechRecognizer | null = null;
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      recognizer?.dispose();
+      stream?.getTracks().forEach(track => track.stop());
+      context.close();
+    };
 
-      recognition.onresult = async (event: SpeechRecognitionEvent) => {
-        const result = event.results[event.results.length - 1];
-        const transcript = result[0].transcript.trim();
-
-        updateStreamingMessage('user', transcript);
-
-        if (result.isFinal) {
-          commitMessage('user', transcript);
-
-          // placeholder model message while fetching
-          const pendingId = Date.now().toString();
-          setMessages(prev => [
-            ...prev,
-            {
-              id: pendingId,
-              role: 'model',
-              text: 'Thinking...',
-              isComplete: false,
-              timestamp: Date.now()
-            }
-          ]);
-
-          try {
-            const completion = await fetchCompletion(transcript);
-            setMessages(prev => prev.map(msg =>
-              msg.id === pendingId
-                ? { ...msg, text: completion, isComplete: true }
-                : msg
-            ));
-            speakText(completion);
-          } catch (error) {
-            console.error(error);
-            setMessages(prev => prev.map(msg =>
-              msg.id === pendingId
-                ? { ...msg, text: 'There was an error contacting OpenAI.', isComplete: true }
-                : msg
-            ));
-            setConnectionState(ConnectionState.ERROR);
-          }
+    // Final results add up; the latest interim result follows them
+    let finalText = '';
+    const join = (...parts: string[]) => parts.filter(Boolean).join(' ');
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true }
+      });
+      recognizer = createRecognizer({
+        settings: PROXY_MODE ? { ...transcription, baseUrl: PROXY_BASE_URL } : transcription,
+        lang: transcription.lang,
+        apiKey: speechApiKey(),
+        context,
+        source: context.createMediaStreamSource(stream)
+      }, {
+        onStart: () => {},
+        onResult: (transcript, isFinal) => {
+          if (isFinal) finalText = join(finalText, transcript);
+          events.onText(isFinal ? finalText : join(finalText, transcript));
+        },
+        onEnd: () => {
+          release();
+          events.onEnd(finalText);
+        },
+        onError: (error) => {
+          release();
+          events.onError(error);
         }
-      };
+      });
+      recognizer.start();
+    } catch (e) {
+      release();
+      throw toTutorError(e);
+    }
 
-      recognition.onend = () => {
-        if (connectionStateRef.current === ConnectionState.CONNECTED && micStateRef.current) {
-          recognition.start();
-        }
-      };
+    return {
+      stop: () => recognizer?.stop(),
+      cancel: release
+    };
+  };
 
-      recognition.onerror = () => {
-        setConnectionState(ConnectionState.ERROR);
-      };
+  // Plays a message back: the stored recording when there is one, otherwise
+  // the tutor's text spoken again with the current voice. The mic is muted
+  // meanwhile so a live session does not hear the playback as the learner.
+  const [playingMessageId, setPlayingMessageId] = useState<string | null>(null);
+  const playbackRef = useRef<{ messageId: string; stop: () => void } | null>(null);
 
-      recognitionRef.current = recognition;
-      recognition.start();
-    } catch (e) {
-      console.error('Connection failed', e);
-      setConnectionState(ConnectionState.ERROR);
-    }
-  }, [apiKey, isMicOn, connectionState, messages]);
-
-  // Helper to update the "pending" message in the UI list
-  const updateStreamingMessage = (role: 'user' | 'model', text: string) => {
-    setMessages(prev => {
-      const last = prev[prev.length - 1];
-      if (last && last.role === role && !last.isComplete) {
-        return [
-            ...prev.slice(0, -1),
-            { ...last, text }
-        ];
+  const stopPlayback = useCallback(() => {
+    playbackRef.current?.stop();
+  }, []);
+
+  const playMessage = async (sessionId: string | null, message: ChatMessage) => {
+    const wasPlaying = playbackRef.current?.messageId === message.id;
+    playbackRef.current?.stop();
+    // Pressing play again on the same message stops it
+    if (wasPlaying) return;
+
+    const snapshot = engine.getSnapshot();
+    const isLive = snapshot.connectionState === ConnectionState.CONNECTED
+      || snapshot.connectionState === ConnectionState.RECONNECTING;
+    const muted = isLive && snapshot.isMicOn;
+    let release = () => {};
+    const playback = {
+      messageId: message.id,
+      stop: () => {
+        if (playbackRef.current !== playback) return;
+        playbackRef.current = null;
+        release();
+        setPlayingMessageId(null);
+        if (muted && !engine.getSnapshot().isMicOn) engine.dispatch({ type: 'toggle-mic' });
+      }
+    };
+    playbackRef.current = playback;
+    setPlayingMessageId(message.id);
+    if (muted) engine.dispatch({ type: 'toggle-mic' });
+
+    try {
+      const recording = message.hasAudio && sessionId ? await getRecording(sessionId, message.id) : undefined;
+      if (playbackRef.current !== playback) return;
+      if (recording) {
+        const url = URL.createObjectURL(recording.blob);
+        const audio = new Audio(url);
+        release = () => {
+          audio.pause();
+          URL.revokeObjectURL(url);
+        };
+        audio.addEventListener('ended', playback.stop);
+        await audio.play();
+      } else if (message.role === 'model') {
+        if (PROXY_MODE && tts.engine === 'cloud' && !proxyTokenRef.current) {
+          proxyTokenRef.current = await getProxyToken(accessCode);
+          if (playbackRef.current !== playback) return;
+        }
+        const synthesizer = createSynthesizer(PROXY_MODE ? { ...tts, baseUrl: PROXY_BASE_URL } : tts, speechApiKey());
+        release = () => synthesizer.dispose();
+        synthesizer.speak(message.text, playback.stop);
       } else {
-        return [
-            ...prev,
-            {
-                id: Date.now().toString(),
-                role,
-                text,
-                isComplete: false,
-                timestamp: Date.now()
-            }
-        ];
+        playback.stop();
       }
-    });
+    } catch (e) {
+      console.error('Playback failed', e);
+      playback.stop();
+    }
   };
 
-  // Helper to mark a message as complete
-  const commitMessage = (role: 'user' | 'model', text: string) => {
-    setMessages(prev => {
-       const last = prev[prev.length - 1];
-       if (last && last.role === role && !last.isComplete) {
-         return [
-           ...prev.slice(0, -1),
-           { ...last, text, isComplete: true }
-         ];
-       }
-       return [
-         ...prev,
-         {
-           id: Date.now().toString(),
-           role,
-           text,
-           isComplete: true,
-           timestamp: Date.now()
-         }
-       ];
-    });
-  };
+  useEffect(() => stopPlayback, [stopPlayback]);
 
   const toggleMic = () => {
-    setIsMicOn(prev => {
-      const next = !prev;
-      if (!next) {
-        recognitionRef.current?.stop();
-        setVolume(0);
-      } else if (connectionState === ConnectionState.CONNECTED) {
-        try {
-          recognitionRef.current?.start();
-        } catch (e) {
-          // ignore
-        }
+    engine.dispatch({ type: 'toggle-mic' });
+  };
+
+  // Ends the conversation and writes its feedback report. The report is
+  // saved straight to the stored session, which may no longer be the active
+  // one by the time the model replies.
+  const endSession = async () => {
+    const session = engine.getSnapshot().session;
+    engine.dispatch({ type: 'disconnect' });
+    if (!session || !session.messages.some(msg => msg.role === 'user')) return;
+
+    setIsGeneratingReport(true);
+    try {
+      if (PROXY_MODE && !proxyTokenRef.current) {
+        proxyTokenRef.current = await getProxyToken(accessCode);
       }
-      return next;
-    });
+      const report = await generateSessionReport(createChatProvider('report', () => session.id), session, { language: explanationLanguage });
+      engine.dispatch({ type: 'patch-session', sessionId: session.id, patch: { report } });
+      await patchSession(session.id, { report });
+    } catch (e) {
+      console.error('Failed to create the session report', e);
+      engine.dispatch({ type: 'report-error', error: toTutorError(e) });
+    } finally {
+      setIsGeneratingReport(false);
+    }
   };
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      disconnect();
+      engine.dispatch({ type: 'disconnect' });
     };
-  }, [disconnect]);
+  }, [engine]);
 
   return {
     connectionState,
     connect,
     disconnect,
+    endSession,
     messages,
-    volume,
+    micAnalyser,
+    outputAnalyser,
     isMicOn,
+    turnState,
     toggleMic,
+    isTalking,
+    startTalking,
+    stopTalking,
+    sendText,
+    inputMode: transcription.inputMode,
+    updateInputMode,
+    error,
+    dismissError,
     apiKey,
-    setApiKey
+    setApiKey,
+    requiresApiKey,
+    proxyMode: PROXY_MODE,
+    accessCode,
+    setAccessCode,
+    accessCodeRequired,
+    settings,
+    updateSettings,
+    transcription,
+    updateTranscription,
+    tts,
+    updateTts,
+    realtime,
+    updateRealtime,
+    activeSessionId: activeSession?.id ?? null,
+    summary: activeSession?.summary ?? null,
+    report: activeSession?.report ?? null,
+    isGeneratingReport,
+    resumeSession,
+    startNewSession,
+    explanationLanguage,
+    setExplanationLanguage,
+    autoCollectVocabulary,
+    setAutoCollectVocabulary,
+    usage,
+    usageSettings,
+    updateUsageSettings,
+    translateMessage,
+    playMessage,
+    playingMessageId,
+    createQuiz,
+    dictate,
+    scenarioId: practice.scenarioId,
+    level: practice.level,
+    updatePractice
   };
 };
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LearnerProfile } from '../types';
+import {
+  deleteProfile,
+  hashPin,
+  listProfiles,
+  newProfileId,
+  ProfileDraft,
+  saveProfile,
+  subscribeToProfiles
+} from '../storage/profileStore';
+
+/**
+ * The learner profiles of this device, most recently used first.
+ */
+export const useProfiles = () => {
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(listProfiles);
+
+  useEffect(() => subscribeToProfiles(() => setProfiles(listProfiles())), []);
+
+  const create = useCallback(async (draft: ProfileDraft, pin: string): Promise<LearnerProfile> => {
+    const id = newProfileId();
+    const profile: LearnerProfile = {
+      ...draft,
+      id,
+      pinHash: pin ? await hashPin(id, pin) : null,
+      createdAt: Date.now(),
+      lastUsedAt: null
+    };
+    saveProfile(profile);
+    return profile;
+  }, []);
+
+  // `pin` replaces the PIN when given; an empty string removes it
+  const update = useCallback(async (profile: LearnerProfile, draft: ProfileDraft, pin?: string): Promise<LearnerProfile> => {
+    const pinHash = pin === undefined ? profile.pinHash : pin ? await hashPin(profile.id, pin) : null;
+    const updated = { ...profile, ...draft, pinHash };
+    saveProfile(updated);
+    return updated;
+  }, []);
+
+  const remove = useCallback((id: string) => deleteProfile(id), []);
+
+  return {
+    profiles,
+    create,
+    update,
+    remove
+  };
+};
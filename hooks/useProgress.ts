@@ -0,0 +1,40 @@
+import { useState, useEffect, useMemo } from 'react';
+import { LearnerProfile, TutorSession, VocabularyCard } from '../types';
+import { profileStorageKey } from '../storage/profileStore';
+import { dailyPracticeMinutes, DEFAULT_DAILY_GOAL_MINUTES, practiceStreak, weeklyProgress } from '../utils/progress';
+import { dayKey } from '../utils/usage';
+
+const GOAL_STORAGE_KEY = 'tutor_daily_goal_minutes';
+
+const loadGoal = (profile: LearnerProfile): number => {
+  if (typeof window === 'undefined') return DEFAULT_DAILY_GOAL_MINUTES;
+  const stored = localStorage.getItem(profileStorageKey(GOAL_STORAGE_KEY, profile.id));
+  const minutes = Number(stored);
+  return stored !== null && Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_DAILY_GOAL_MINUTES;
+};
+
+/**
+ * Weekly progress, today's practice and the streak toward the profile's
+ * daily goal, all computed from the stored sessions and notebook.
+ */
+export const useProgress = (profile: LearnerProfile, sessions: TutorSession[], cards: VocabularyCard[]) => {
+  // Minutes of conversation a day; 0 counts any practice
+  const [goalMinutes, setGoalMinutes] = useState<number>(() => loadGoal(profile));
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(profileStorageKey(GOAL_STORAGE_KEY, profile.id), String(goalMinutes));
+    }
+  }, [profile.id, goalMinutes]);
+
+  const weeks = useMemo(() => weeklyProgress(sessions, cards), [sessions, cards]);
+  const minutesByDay = useMemo(() => dailyPracticeMinutes(sessions), [sessions]);
+
+  return {
+    weeks,
+    todayMinutes: Math.round(minutesByDay.get(dayKey(Date.now())) ?? 0),
+    streak: practiceStreak(minutesByDay, goalMinutes),
+    goalMinutes,
+    setGoalMinutes
+  };
+};
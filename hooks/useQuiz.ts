@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Exercise, QuizResult } from '../types';
+import { addQuizResult, listQuizResults, subscribeToQuizResults } from '../storage/quizStore';
+import { computeMastery, gradeAnswer } from '../utils/quiz';
+
+/**
+ * Quiz answers with the mastery of each correction category, kept in sync
+ * as answers are recorded.
+ */
+export const useQuiz = () => {
+  const [results, setResults] = useState<QuizResult[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setResults(await listQuizResults());
+    } catch (e) {
+      console.error('Failed to load quiz results', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToQuizResults(refresh);
+  }, [refresh]);
+
+  const mastery = useMemo(() => computeMastery(results), [results]);
+
+  // Grades an answer and records it; resolves right away with the grade
+  const answer = useCallback((exercise: Exercise, response: string, spoken: boolean): boolean => {
+    const correct = gradeAnswer(exercise, response);
+    addQuizResult({
+      id: `quiz-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      exerciseType: exercise.type,
+      category: exercise.category,
+      prompt: exercise.prompt,
+      answer: exercise.answer,
+      response: response.trim(),
+      correct,
+      spoken,
+      sessionId: exercise.sessionId
+    }).catch(e => console.error('Failed to record quiz answer', e));
+    return correct;
+  }, []);
+
+  return {
+    results,
+    mastery,
+    answer
+  };
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TutorSession } from '../types';
+import { deleteSession, listSessions, renameSession, subscribeToSessions } from '../storage/sessionStore';
+
+/**
+ * Lists stored sessions (newest first) and keeps the list in sync with writes
+ * made anywhere in the app.
+ */
+export const useSessionHistory = () => {
+  const [sessions, setSessions] = useState<TutorSession[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (e) {
+      console.error('Failed to load sessions', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToSessions(refresh);
+  }, [refresh]);
+
+  const rename = useCallback((id: string, title: string) => renameSession(id, title), []);
+  const remove = useCallback((id: string) => deleteSession(id), []);
+
+  return {
+    sessions,
+    rename,
+    remove
+  };
+};
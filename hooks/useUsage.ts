@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { UsageRecord } from '../types';
+import { listUsage, subscribeToUsage } from '../storage/usageStore';
+import { dailyUsage, dayKey, sumUsage } from '../utils/usage';
+
+/**
+ * The stored usage history with its totals for one session, today and each
+ * day, kept in sync as requests are recorded.
+ */
+export const useUsage = (sessionId: string | null) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await listUsage());
+    } catch (e) {
+      console.error('Failed to load usage history', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToUsage(refresh);
+  }, [refresh]);
+
+  const session = useMemo(
+    () => sumUsage(sessionId ? records.filter(record => record.sessionId === sessionId) : []),
+    [records, sessionId]
+  );
+  const days = useMemo(() => dailyUsage(records), [records]);
+  const today = days.find(day => day.day === dayKey(Date.now())) ?? sumUsage([]);
+
+  return {
+    records,
+    session,
+    today,
+    days
+  };
+};
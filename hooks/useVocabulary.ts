@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ReviewGrade, VocabularyCard } from '../types';
+import { addCard, deleteCard, listCards, saveCard, subscribeToVocabulary } from '../storage/vocabularyStore';
+import { CardDraft, isDue, scheduleReview } from '../utils/srs';
+
+/**
+ * The vocabulary notebook (newest first) with the cards due for review,
+ * kept in sync with cards collected anywhere in the app.
+ */
+export const useVocabulary = () => {
+  const [cards, setCards] = useState<VocabularyCard[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCards(await listCards());
+    } catch (e) {
+      console.error('Failed to load vocabulary', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToVocabulary(refresh);
+  }, [refresh]);
+
+  const save = useCallback((draft: CardDraft) => addCard(draft), []);
+  const remove = useCallback((id: string) => deleteCard(id), []);
+  const review = useCallback((card: VocabularyCard, grade: ReviewGrade) => saveCard(scheduleReview(card, grade)), []);
+
+  const now = Date.now();
+  const dueCards = cards.filter(card => isDue(card, now)).sort((a, b) => a.dueAt - b.dueAt);
+
+  return {
+    cards,
+    dueCards,
+    save,
+    remove,
+    review
+  };
+};
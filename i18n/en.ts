@@ -0,0 +1,362 @@
+// English catalog. It defines the set of keys; other catalogs must translate all of them.
+export const en = {
+  'app.title': 'English Practice Tutor',
+  'app.language': 'Interface language',
+
+  'header.history': 'Conversation History',
+  'header.settings': 'Tutor Settings',
+  'status.live': 'Live',
+  'status.offline': 'Offline',
+  'status.reconnecting': 'Reconnecting',
+
+  'apiKey.label': '{provider} API Key',
+  'apiKey.placeholder': 'Enter your {provider} key',
+  'apiKey.hint': 'Your key is stored only in this browser.',
+  'accessCode.label': 'Class Code',
+  'accessCode.placeholder': 'Class code',
+  'connect.missingKey': 'Please provide a valid {provider} API Key to start the session.',
+  'connect.realtimeViaProxy': 'Realtime mode is not available through the school server. Switch to the standard session mode.',
+
+  'viewing.prefix': 'Viewing',
+  'viewing.suffix': '(read-only)',
+  'viewing.resume': 'Resume',
+  'viewing.resumeHint': 'Continue this conversation',
+  'viewing.endFirst': 'End the current session first',
+  'viewing.back': 'Back to current conversation',
+  'import.failed': 'Could not save the imported conversation.',
+
+  'error.dismiss': 'Dismiss',
+  'error.invalid-key.title': 'The API key was rejected',
+  'error.invalid-key.fix': 'Check the key in the header (or your class code) and start the conversation again.',
+  'error.rate-limit.title': 'Too many requests',
+  'error.rate-limit.fix': 'Wait a few seconds, then keep talking.',
+  'error.quota.title': 'Usage quota reached',
+  'error.quota.fix': 'Your account or class has used its quota. Add credit or try again tomorrow.',
+  'error.network.title': 'Connection problem',
+  'error.network.fix': 'Check your internet connection. The tutor retries automatically.',
+  'error.server.title': 'The AI service had a problem',
+  'error.server.fix': 'This is usually temporary. Try again in a moment.',
+  'error.mic-denied.title': 'Microphone access was blocked',
+  'error.mic-denied.fix': 'Allow microphone access in the browser address bar, then start again.',
+  'error.mic-unavailable.title': 'No microphone found',
+  'error.mic-unavailable.fix': 'Connect a microphone or headset and start again.',
+  'error.recognizer-aborted.title': 'Speech recognition stopped',
+  'error.recognizer-aborted.fix': 'Start the conversation again. If it keeps happening, try the server recognizer in settings.',
+  'error.unsupported.title': 'Not supported in this browser',
+  'error.unsupported.fix': 'Use Chrome or Edge, or choose the server (Whisper) recognizer in settings.',
+  'error.budget-warning.title': 'This session is close to its budget',
+  'error.budget-warning.fix': 'It stops when it reaches the spending cap in settings. Wrap up, or ask your teacher to raise the cap.',
+  'error.budget.title': 'Session budget reached',
+  'error.budget.fix': 'This conversation has used its spending cap. Start a new session, or raise the cap in settings.',
+  'error.unknown.title': 'Something went wrong',
+  'error.unknown.fix': 'Try again. If the problem continues, reload the page.',
+
+  'turn.start': 'Start Session',
+  'turn.reconnecting': 'Reconnecting...',
+  'turn.tutorSpeaking': 'Tutor speaking',
+  'turn.thinking': 'Thinking...',
+  'turn.muted': 'Microphone Muted',
+  'turn.holdSpace': 'Hold Space to talk',
+  'turn.listening': 'Listening...',
+  'hint.connect': 'Connect to begin.',
+  'hint.reconnecting': 'The connection dropped. Trying again...',
+  'hint.releaseToSend': 'Release to send.',
+  'hint.pushToTalk': 'Or hold the button. You can also type below.',
+  'hint.interrupt': 'Start talking to interrupt.',
+  'hint.speak': 'Speak naturally to practice.',
+
+  'composer.placeholder': 'Type a message...',
+  'composer.offline': 'Start a conversation to type or talk',
+  'composer.realtime': 'Typing is not available in realtime mode',
+  'composer.send': 'Send',
+
+  'controls.pushToTalkMode': 'Push-to-talk (switch to hands-free)',
+  'controls.handsFreeMode': 'Hands-free (switch to push-to-talk)',
+  'controls.holdToTalk': 'Hold to talk',
+  'controls.holdToTalkHint': 'Hold to talk (or hold Space)',
+  'controls.listening': 'Listening…',
+  'controls.toggleMic': 'Toggle Microphone',
+  'controls.connecting': 'Connecting...',
+  'controls.start': 'Start Conversation',
+  'controls.end': 'End Session',
+
+  'chat.emptyTitle': 'Ready to practice English?',
+  'chat.emptyHint': 'Click "Start Conversation" below.',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'You',
+  'chat.translate': 'Tap to translate',
+  'chat.translating': 'Translating…',
+  'chat.translationFailed': 'The translation could not be loaded.',
+  'chat.retryTranslation': 'Try again',
+  'chat.playRecording': 'Hear yourself',
+  'chat.replay': 'Replay',
+  'chat.stop': 'Stop',
+  'chat.saveSelection': 'Save "{term}" to notebook',
+  'chat.saveCorrection': 'Save to notebook',
+  'chat.saved': 'In your notebook',
+
+  'fluency.open': 'Fluency summary',
+  'fluency.title': 'Fluency summary',
+  'fluency.close': 'Close',
+  'fluency.empty': 'No spoken turns were measured yet. Metrics are collected while you speak (not for typed messages).',
+  'fluency.wpm': 'Words per minute',
+  'fluency.wpmHint': 'Measured while speaking, pauses between sentences included.',
+  'fluency.utterances': 'Spoken turns',
+  'fluency.averageLength': 'Average turn',
+  'fluency.words': '{count} words',
+  'fluency.typeTokenRatio': 'Vocabulary diversity',
+  'fluency.typeTokenRatioHint': 'Distinct words divided by total words (type/token ratio).',
+  'fluency.pauses': 'Pauses',
+  'fluency.averagePause': 'Average pause',
+  'fluency.longestPause': 'Longest pause',
+  'fluency.fillers': 'Filler words',
+  'fluency.fillersHint': 'Words like "um", "uh" and "like", total and per 100 words.',
+  'fluency.topFillers': 'Most used fillers:',
+
+  'report.open': 'Session report',
+  'report.title': 'Session report',
+  'report.generating': 'Writing your session report…',
+  'report.empty': 'There is no report for this conversation yet. Reports are created when you end a session.',
+  'report.close': 'Close',
+  'report.summary': 'What we talked about',
+  'report.mistakes': 'Most frequent mistakes',
+  'report.category': 'Category',
+  'report.count': 'Times',
+  'report.examples': 'Examples',
+  'report.noMistakes': 'No corrections were needed. Well done!',
+  'report.vocabulary': 'New vocabulary',
+  'report.focus': 'Focus on next',
+  'report.none': 'Nothing to show.',
+  'report.print': 'Print',
+  'report.download': 'Download HTML',
+
+  'notebook.open': 'Vocabulary notebook',
+  'notebook.openDue': 'Vocabulary notebook ({count} to review)',
+  'notebook.title': 'Vocabulary notebook',
+  'notebook.close': 'Close',
+  'notebook.review': 'Review ({count})',
+  'notebook.words': 'Words ({count})',
+  'notebook.progress': '{done} reviewed · {left} left',
+  'notebook.listen': 'Listen',
+  'notebook.showAnswer': 'Show answer',
+  'notebook.again': 'Again',
+  'notebook.hard': 'Hard',
+  'notebook.good': 'Good',
+  'notebook.easy': 'Easy',
+  'notebook.finished': 'Done! You reviewed {count} cards today.',
+  'notebook.nothingDue': 'Nothing to review right now. Come back tomorrow!',
+  'notebook.reviewAgain': 'Review the remaining cards',
+  'notebook.dueNow': 'Due now',
+  'notebook.due': 'Next review {date}',
+  'notebook.fromCorrection': 'from a correction',
+  'notebook.remove': 'Remove',
+  'notebook.empty': 'Your notebook is empty.',
+  'notebook.emptyHint': 'Select a word in the chat, or save a correction, to add it here.',
+
+  'profiles.title': 'Who is practicing?',
+  'profiles.welcome': 'Create a profile to start practicing. Everyone who shares this device gets their own history, vocabulary and settings.',
+  'profiles.add': 'Add a profile',
+  'profiles.edit': 'Edit profile',
+  'profiles.create': 'New profile',
+  'profiles.name': 'Name',
+  'profiles.nativeLanguage': 'Native language',
+  'profiles.level': 'English level',
+  'profiles.accent': 'Preferred accent',
+  'profiles.goals': 'Goals',
+  'profiles.goalsPlaceholder': 'e.g. pass the B2 exam, talk with customers at work',
+  'profiles.pin': 'PIN (optional)',
+  'profiles.newPin': 'New PIN (leave empty to keep the current one)',
+  'profiles.pinHint': '4 to 8 digits. Keeps classmates out of your profile.',
+  'profiles.removePin': 'Remove the PIN',
+  'profiles.save': 'Save',
+  'profiles.cancel': 'Cancel',
+  'profiles.delete': 'Delete profile',
+  'profiles.confirmDelete': 'Delete {name} with all their conversations, vocabulary and settings? This cannot be undone.',
+  'profiles.locked': 'Protected with a PIN',
+  'profiles.enterPin': 'Enter the PIN for {name}',
+  'profiles.unlock': 'Continue',
+  'profiles.wrongPin': 'Wrong PIN. Try again.',
+  'profiles.invalidPin': 'The PIN must be 4 to 8 digits.',
+  'profiles.switch': 'Switch profile',
+  'profiles.switchDisabled': 'End the conversation to switch profile',
+
+  'quiz.open': 'Practice quiz',
+  'quiz.openDisabled': 'End the conversation to take a quiz',
+  'quiz.title': 'Practice quiz',
+  'quiz.close': 'Close',
+  'quiz.intro': 'Exercises made from {count} mistakes in your recent conversations, starting with your weakest areas.',
+  'quiz.noMistakes': 'No corrections in your recent conversations yet. Talk with the tutor first, then come back to practice your mistakes.',
+  'quiz.start': 'Start quiz',
+  'quiz.generating': 'Preparing your exercises…',
+  'quiz.failed': 'The quiz could not be prepared. Please try again.',
+  'quiz.progress': 'Question {current} of {total}',
+  'quiz.type.fill-blank': 'Fill in the blank',
+  'quiz.type.multiple-choice': 'Choose the right answer',
+  'quiz.type.reorder': 'Put the words in order',
+  'quiz.type.fix-sentence': 'Fix this sentence',
+  'quiz.placeholder': 'Type or say your answer',
+  'quiz.speak': 'Say your answer',
+  'quiz.stopSpeaking': 'Stop listening',
+  'quiz.listening': 'Listening…',
+  'quiz.clear': 'Clear',
+  'quiz.check': 'Check',
+  'quiz.correct': 'Correct!',
+  'quiz.incorrect': 'Not quite. The answer is:',
+  'quiz.next': 'Next',
+  'quiz.results': 'See results',
+  'quiz.score': 'You got {correct} of {total} right.',
+  'quiz.again': 'New quiz',
+  'quiz.mastery': 'Mastery by category',
+  'quiz.masteryDetail': '{correct} of {attempts} correct',
+  'quiz.level.new': 'New',
+  'quiz.level.learning': 'Learning',
+  'quiz.level.practicing': 'Practicing',
+  'quiz.level.mastered': 'Mastered',
+
+  'progress.open': 'Progress',
+  'progress.title': 'Your progress',
+  'progress.close': 'Close',
+  'progress.streak': 'Day streak',
+  'progress.streakDays': '{count} days',
+  'progress.today': 'Today',
+  'progress.todayMinutes': '{minutes} of {goal} min',
+  'progress.goalMet': 'Goal reached. Great work!',
+  'progress.goal': 'Daily goal (minutes)',
+  'progress.goalHint': 'Time in conversation. 0 counts any practice.',
+  'progress.minutes': 'Practice minutes per week',
+  'progress.sessions': 'Sessions per week',
+  'progress.words': 'Words spoken per week',
+  'progress.errors': 'Corrections per 100 words',
+  'progress.vocabulary': 'Vocabulary notebook size',
+  'progress.empty': 'No practice yet. Your weekly progress will show up here after your first conversation.',
+
+  'visualizer.showBars': 'Show frequency bars',
+  'visualizer.showWaveform': 'Show waveform',
+
+  'usage.open': 'Usage and cost',
+  'usage.title': 'Usage and cost',
+  'usage.session': 'This session',
+  'usage.today': 'Today',
+  'usage.byDay': 'By day',
+  'usage.day': 'Day',
+  'usage.requests': 'Requests',
+  'usage.tokens': 'Tokens',
+  'usage.tokensDetail': '{prompt} in · {completion} out',
+  'usage.cost': 'Cost',
+  'usage.budget': 'Session budget: warning at {warn}, stops at {cap}',
+  'usage.noBudget': 'No session budget set',
+  'usage.unpriced': 'Some requests used a model with no price in settings and count as $0.',
+  'usage.empty': 'No requests yet.',
+  'usage.export': 'Export CSV',
+
+  'history.title': 'History',
+  'history.new': 'New Conversation',
+  'history.empty': 'No saved conversations yet.',
+  'history.messages': '{count} messages',
+  'history.inProgress': 'In progress',
+  'history.minutes': '{minutes} min',
+  'history.rename': 'Rename',
+  'history.save': 'Save',
+  'history.cancel': 'Cancel',
+  'history.delete': 'Delete',
+  'history.confirmDelete': 'Delete "{title}"?',
+
+  'export.open': 'Export / Import',
+  'export.markdown': 'Markdown',
+  'export.markdownHint': 'Share with your teacher',
+  'export.json': 'JSON',
+  'export.jsonHint': 'Full backup, can be imported',
+  'export.vtt': 'WebVTT',
+  'export.vttHint': 'Captions timed from the start',
+  'export.anki': 'Anki CSV',
+  'export.ankiHint': 'Flashcards of corrected sentences',
+  'export.bundle': 'Audio bundle (ZIP)',
+  'export.bundleHint': 'Transcript with your recordings as WAV',
+  'export.bundleFailed': 'Could not export the recordings: {message}',
+  'export.import': 'Import JSON…',
+  'export.importFailed': 'Could not import the conversation: {message}',
+
+  'summary.open': 'Conversation summary',
+  'summary.title': 'What the tutor remembers',
+  'summary.updated': 'Updated {time}. The most recent turns are sent in full.',
+  'summary.empty': 'No summary yet. Once the conversation gets long, older turns are summarized here so the tutor keeps track of them.',
+
+  'scenario.label': 'Scenario',
+  'scenario.level': 'Level',
+  'scenario.tryUsing': 'Try using: {words}',
+  'scenario.casual-chat.title': 'Small talk',
+  'scenario.casual-chat.description': 'A relaxed chat about everyday life.',
+  'scenario.job-interview.title': 'Job interview',
+  'scenario.job-interview.description': 'Answer questions from a hiring manager.',
+  'scenario.restaurant.title': 'Ordering at a restaurant',
+  'scenario.restaurant.description': 'Order a meal and handle questions from the waiter.',
+  'scenario.airport.title': 'Airport check-in',
+  'scenario.airport.description': 'Check in for a flight and deal with luggage and seats.',
+  'scenario.debate.title': 'Debate',
+  'scenario.debate.description': 'Defend an opinion against a friendly opponent.',
+
+  'level.A1': 'Beginner',
+  'level.A2': 'Elementary',
+  'level.B1': 'Intermediate',
+  'level.B2': 'Upper intermediate',
+  'level.C1': 'Advanced',
+  'level.C2': 'Proficient',
+
+  'accent.en-US': 'American',
+  'accent.en-GB': 'British',
+  'accent.en-AU': 'Australian',
+  'accent.en-IN': 'Indian',
+
+  'settings.mode': 'Session Mode',
+  'settings.mode.pipeline': 'Standard (speech → text → speech)',
+  'settings.mode.realtime': 'Realtime speech-to-speech',
+  'settings.realtimeModel': 'Realtime Model',
+  'settings.realtimeUrl': 'Realtime WebSocket URL',
+  'settings.provider': 'Provider',
+  'settings.provider.openai': 'OpenAI',
+  'settings.provider.gemini': 'Google Gemini',
+  'settings.provider.openai-compatible': 'Local (Ollama / LM Studio)',
+  'settings.provider.mock': 'Mock (offline)',
+  'settings.model': 'Model',
+  'settings.baseUrl': 'Base URL',
+  'settings.schoolServer': 'School server',
+  'settings.temperature': 'Temperature: {value}',
+  'settings.recognizer': 'Speech Recognition',
+  'settings.recognizer.auto': 'Automatic',
+  'settings.recognizer.browser': 'Browser (Web Speech)',
+  'settings.recognizer.whisper': 'Server (Whisper API)',
+  'settings.recognitionAccent': 'Recognition Accent',
+  'settings.transcriptionModel': 'Transcription Model',
+  'settings.transcriptionBaseUrl': 'Transcription Base URL',
+  'settings.synthesizer': 'Tutor Voice',
+  'settings.synthesizer.browser': 'Browser voice',
+  'settings.synthesizer.cloud': 'Cloud TTS (OpenAI-compatible)',
+  'settings.accent': 'Accent',
+  'settings.voice': 'Voice',
+  'settings.speed': 'Speed: {value}×',
+  'settings.speechModel': 'Speech Model',
+  'settings.speechBaseUrl': 'Speech Base URL',
+  'settings.explanations': 'Correction Explanations',
+  'settings.explanations.en': 'English',
+  'settings.explanations.es': 'Spanish (español)',
+  'settings.autoCollect': 'Save Corrections to Notebook',
+  'settings.autoCollect.auto': 'Automatically',
+  'settings.autoCollect.manual': 'Only when I save them',
+  'settings.budgetWarn': 'Session Budget Warning (USD)',
+  'settings.budgetCap': 'Session Budget Cap (USD)',
+  'settings.off': '0 = off',
+  'settings.inputPrice': 'Input Price, USD / 1M Tokens ({model})',
+  'settings.outputPrice': 'Output Price, USD / 1M Tokens ({model})',
+  'settings.notPriced': 'Not priced',
+
+  'category.grammar': 'Grammar',
+  'category.verb-tense': 'Verb tense',
+  'category.word-choice': 'Word choice',
+  'category.word-order': 'Word order',
+  'category.preposition': 'Preposition',
+  'category.article': 'Article',
+  'category.agreement': 'Agreement',
+  'category.other': 'Other'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,361 @@
+import type { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  'app.title': 'English Practice Tutor',
+  'app.language': 'Idioma de la interfaz',
+
+  'header.history': 'Historial de conversaciones',
+  'header.settings': 'Ajustes del tutor',
+  'status.live': 'En vivo',
+  'status.offline': 'Desconectado',
+  'status.reconnecting': 'Reconectando',
+
+  'apiKey.label': 'Clave de API de {provider}',
+  'apiKey.placeholder': 'Ingresa tu clave de {provider}',
+  'apiKey.hint': 'Guardamos la clave solo en tu navegador.',
+  'accessCode.label': 'Código de la clase',
+  'accessCode.placeholder': 'Código de la clase',
+  'connect.missingKey': 'Ingresa una clave de API de {provider} válida para iniciar la sesión.',
+  'connect.realtimeViaProxy': 'El modo en tiempo real no está disponible a través del servidor de la escuela. Cambia al modo de sesión estándar.',
+
+  'viewing.prefix': 'Viendo',
+  'viewing.suffix': '(solo lectura)',
+  'viewing.resume': 'Continuar',
+  'viewing.resumeHint': 'Continuar esta conversación',
+  'viewing.endFirst': 'Primero termina la sesión actual',
+  'viewing.back': 'Volver a la conversación actual',
+  'import.failed': 'No se pudo guardar la conversación importada.',
+
+  'error.dismiss': 'Cerrar',
+  'error.invalid-key.title': 'La clave de API fue rechazada',
+  'error.invalid-key.fix': 'Revisa la clave en la cabecera (o tu código de clase) y vuelve a iniciar la conversación.',
+  'error.rate-limit.title': 'Demasiadas solicitudes',
+  'error.rate-limit.fix': 'Espera unos segundos y sigue hablando.',
+  'error.quota.title': 'Se alcanzó el límite de uso',
+  'error.quota.fix': 'Tu cuenta o tu clase agotó su cuota. Agrega saldo o vuelve a intentarlo mañana.',
+  'error.network.title': 'Problema de conexión',
+  'error.network.fix': 'Revisa tu conexión a internet. El tutor reintenta automáticamente.',
+  'error.server.title': 'El servicio de IA tuvo un problema',
+  'error.server.fix': 'Suele ser temporal. Inténtalo de nuevo en un momento.',
+  'error.mic-denied.title': 'Se bloqueó el acceso al micrófono',
+  'error.mic-denied.fix': 'Permite el micrófono en la barra de direcciones del navegador y vuelve a empezar.',
+  'error.mic-unavailable.title': 'No se encontró un micrófono',
+  'error.mic-unavailable.fix': 'Conecta un micrófono o unos auriculares y vuelve a empezar.',
+  'error.recognizer-aborted.title': 'El reconocimiento de voz se detuvo',
+  'error.recognizer-aborted.fix': 'Inicia la conversación de nuevo. Si se repite, prueba el reconocedor del servidor en los ajustes.',
+  'error.unsupported.title': 'No es compatible con este navegador',
+  'error.unsupported.fix': 'Usa Chrome o Edge, o elige el reconocedor del servidor (Whisper) en los ajustes.',
+  'error.budget-warning.title': 'Esta sesión está cerca de su presupuesto',
+  'error.budget-warning.fix': 'Se detendrá al llegar al límite de gasto de los ajustes. Termina pronto o pide a tu profesor que suba el límite.',
+  'error.budget.title': 'Se alcanzó el presupuesto de la sesión',
+  'error.budget.fix': 'Esta conversación usó todo su límite de gasto. Empieza una sesión nueva o sube el límite en los ajustes.',
+  'error.unknown.title': 'Algo salió mal',
+  'error.unknown.fix': 'Inténtalo de nuevo. Si el problema continúa, recarga la página.',
+
+  'turn.start': 'Inicia una sesión',
+  'turn.reconnecting': 'Reconectando...',
+  'turn.tutorSpeaking': 'El tutor está hablando',
+  'turn.thinking': 'Pensando...',
+  'turn.muted': 'Micrófono silenciado',
+  'turn.holdSpace': 'Mantén la barra espaciadora para hablar',
+  'turn.listening': 'Escuchando...',
+  'hint.connect': 'Conéctate para empezar.',
+  'hint.reconnecting': 'Se perdió la conexión. Reintentando...',
+  'hint.releaseToSend': 'Suelta para enviar.',
+  'hint.pushToTalk': 'O mantén pulsado el botón. También puedes escribir abajo.',
+  'hint.interrupt': 'Empieza a hablar para interrumpir.',
+  'hint.speak': 'Habla con naturalidad para practicar.',
+
+  'composer.placeholder': 'Escribe un mensaje en inglés...',
+  'composer.offline': 'Inicia una conversación para escribir o hablar',
+  'composer.realtime': 'No se puede escribir en el modo en tiempo real',
+  'composer.send': 'Enviar',
+
+  'controls.pushToTalkMode': 'Pulsar para hablar (cambiar a manos libres)',
+  'controls.handsFreeMode': 'Manos libres (cambiar a pulsar para hablar)',
+  'controls.holdToTalk': 'Mantén para hablar',
+  'controls.holdToTalkHint': 'Mantén pulsado para hablar (o la barra espaciadora)',
+  'controls.listening': 'Escuchando…',
+  'controls.toggleMic': 'Activar o silenciar el micrófono',
+  'controls.connecting': 'Conectando...',
+  'controls.start': 'Iniciar conversación',
+  'controls.end': 'Terminar sesión',
+
+  'chat.emptyTitle': '¿Practicamos inglés?',
+  'chat.emptyHint': 'Haz clic en "Iniciar conversación" abajo.',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'Tú',
+  'chat.translate': 'Toca para traducir',
+  'chat.translating': 'Traduciendo…',
+  'chat.translationFailed': 'No se pudo cargar la traducción.',
+  'chat.retryTranslation': 'Reintentar',
+  'chat.playRecording': 'Escúchate',
+  'chat.replay': 'Volver a escuchar',
+  'chat.stop': 'Detener',
+  'chat.saveSelection': 'Guardar "{term}" en el cuaderno',
+  'chat.saveCorrection': 'Guardar en el cuaderno',
+  'chat.saved': 'Ya está en tu cuaderno',
+
+  'fluency.open': 'Resumen de fluidez',
+  'fluency.title': 'Resumen de fluidez',
+  'fluency.close': 'Cerrar',
+  'fluency.empty': 'Todavía no se midió ningún turno hablado. Las métricas se recogen mientras hablas (no en los mensajes escritos).',
+  'fluency.wpm': 'Palabras por minuto',
+  'fluency.wpmHint': 'Medido mientras hablas, incluidas las pausas entre frases.',
+  'fluency.utterances': 'Turnos hablados',
+  'fluency.averageLength': 'Turno promedio',
+  'fluency.words': '{count} palabras',
+  'fluency.typeTokenRatio': 'Variedad de vocabulario',
+  'fluency.typeTokenRatioHint': 'Palabras distintas divididas entre el total de palabras (type/token ratio).',
+  'fluency.pauses': 'Pausas',
+  'fluency.averagePause': 'Pausa promedio',
+  'fluency.longestPause': 'Pausa más larga',
+  'fluency.fillers': 'Muletillas',
+  'fluency.fillersHint': 'Palabras como "um", "uh" y "like", en total y cada 100 palabras.',
+  'fluency.topFillers': 'Muletillas más usadas:',
+
+  'report.open': 'Informe de la sesión',
+  'report.title': 'Informe de la sesión',
+  'report.generating': 'Preparando tu informe de la sesión…',
+  'report.empty': 'Esta conversación todavía no tiene informe. Los informes se crean al terminar una sesión.',
+  'report.close': 'Cerrar',
+  'report.summary': 'De qué hablamos',
+  'report.mistakes': 'Errores más frecuentes',
+  'report.category': 'Categoría',
+  'report.count': 'Veces',
+  'report.examples': 'Ejemplos',
+  'report.noMistakes': 'No hizo falta ninguna corrección. ¡Muy bien!',
+  'report.vocabulary': 'Vocabulario nuevo',
+  'report.focus': 'Para practicar ahora',
+  'report.none': 'Nada que mostrar.',
+  'report.print': 'Imprimir',
+  'report.download': 'Descargar HTML',
+
+  'notebook.open': 'Cuaderno de vocabulario',
+  'notebook.openDue': 'Cuaderno de vocabulario ({count} por repasar)',
+  'notebook.title': 'Cuaderno de vocabulario',
+  'notebook.close': 'Cerrar',
+  'notebook.review': 'Repasar ({count})',
+  'notebook.words': 'Palabras ({count})',
+  'notebook.progress': '{done} repasadas · quedan {left}',
+  'notebook.listen': 'Escuchar',
+  'notebook.showAnswer': 'Mostrar respuesta',
+  'notebook.again': 'Otra vez',
+  'notebook.hard': 'Difícil',
+  'notebook.good': 'Bien',
+  'notebook.easy': 'Fácil',
+  'notebook.finished': '¡Listo! Hoy repasaste {count} tarjetas.',
+  'notebook.nothingDue': 'No hay nada que repasar ahora. ¡Vuelve mañana!',
+  'notebook.reviewAgain': 'Repasar las tarjetas pendientes',
+  'notebook.dueNow': 'Para repasar ahora',
+  'notebook.due': 'Próximo repaso: {date}',
+  'notebook.fromCorrection': 'de una corrección',
+  'notebook.remove': 'Eliminar',
+  'notebook.empty': 'Tu cuaderno está vacío.',
+  'notebook.emptyHint': 'Selecciona una palabra en el chat, o guarda una corrección, para añadirla aquí.',
+
+  'profiles.title': '¿Quién va a practicar?',
+  'profiles.welcome': 'Crea un perfil para empezar a practicar. Cada persona que usa este dispositivo tiene su propio historial, vocabulario y configuración.',
+  'profiles.add': 'Añadir perfil',
+  'profiles.edit': 'Editar perfil',
+  'profiles.create': 'Nuevo perfil',
+  'profiles.name': 'Nombre',
+  'profiles.nativeLanguage': 'Lengua materna',
+  'profiles.level': 'Nivel de inglés',
+  'profiles.accent': 'Acento preferido',
+  'profiles.goals': 'Objetivos',
+  'profiles.goalsPlaceholder': 'p. ej. aprobar el examen B2, hablar con clientes en el trabajo',
+  'profiles.pin': 'PIN (opcional)',
+  'profiles.newPin': 'Nuevo PIN (déjalo vacío para mantener el actual)',
+  'profiles.pinHint': 'De 4 a 8 dígitos. Evita que tus compañeros entren en tu perfil.',
+  'profiles.removePin': 'Quitar el PIN',
+  'profiles.save': 'Guardar',
+  'profiles.cancel': 'Cancelar',
+  'profiles.delete': 'Eliminar perfil',
+  'profiles.confirmDelete': '¿Eliminar a {name} con todas sus conversaciones, vocabulario y configuración? No se puede deshacer.',
+  'profiles.locked': 'Protegido con PIN',
+  'profiles.enterPin': 'Escribe el PIN de {name}',
+  'profiles.unlock': 'Continuar',
+  'profiles.wrongPin': 'PIN incorrecto. Inténtalo de nuevo.',
+  'profiles.invalidPin': 'El PIN debe tener de 4 a 8 dígitos.',
+  'profiles.switch': 'Cambiar de perfil',
+  'profiles.switchDisabled': 'Termina la conversación para cambiar de perfil',
+
+  'quiz.open': 'Ejercicios',
+  'quiz.openDisabled': 'Termina la conversación para hacer ejercicios',
+  'quiz.title': 'Ejercicios',
+  'quiz.close': 'Cerrar',
+  'quiz.intro': 'Ejercicios creados a partir de {count} errores de tus conversaciones recientes, empezando por tus puntos débiles.',
+  'quiz.noMistakes': 'Todavía no hay correcciones en tus conversaciones recientes. Habla primero con el tutor y vuelve para practicar tus errores.',
+  'quiz.start': 'Empezar',
+  'quiz.generating': 'Preparando tus ejercicios…',
+  'quiz.failed': 'No se pudieron preparar los ejercicios. Inténtalo de nuevo.',
+  'quiz.progress': 'Pregunta {current} de {total}',
+  'quiz.type.fill-blank': 'Completa el espacio',
+  'quiz.type.multiple-choice': 'Elige la respuesta correcta',
+  'quiz.type.reorder': 'Ordena las palabras',
+  'quiz.type.fix-sentence': 'Corrige esta oración',
+  'quiz.placeholder': 'Escribe o di tu respuesta',
+  'quiz.speak': 'Di tu respuesta',
+  'quiz.stopSpeaking': 'Dejar de escuchar',
+  'quiz.listening': 'Escuchando…',
+  'quiz.clear': 'Borrar',
+  'quiz.check': 'Comprobar',
+  'quiz.correct': '¡Correcto!',
+  'quiz.incorrect': 'No exactamente. La respuesta es:',
+  'quiz.next': 'Siguiente',
+  'quiz.results': 'Ver resultados',
+  'quiz.score': 'Acertaste {correct} de {total}.',
+  'quiz.again': 'Nuevos ejercicios',
+  'quiz.mastery': 'Dominio por categoría',
+  'quiz.masteryDetail': '{correct} de {attempts} correctas',
+  'quiz.level.new': 'Nuevo',
+  'quiz.level.learning': 'Aprendiendo',
+  'quiz.level.practicing': 'Practicando',
+  'quiz.level.mastered': 'Dominado',
+
+  'progress.open': 'Progreso',
+  'progress.title': 'Tu progreso',
+  'progress.close': 'Cerrar',
+  'progress.streak': 'Racha de días',
+  'progress.streakDays': '{count} días',
+  'progress.today': 'Hoy',
+  'progress.todayMinutes': '{minutes} de {goal} min',
+  'progress.goalMet': 'Meta cumplida. ¡Buen trabajo!',
+  'progress.goal': 'Meta diaria (minutos)',
+  'progress.goalHint': 'Tiempo de conversación. Con 0 cuenta cualquier práctica.',
+  'progress.minutes': 'Minutos de práctica por semana',
+  'progress.sessions': 'Sesiones por semana',
+  'progress.words': 'Palabras habladas por semana',
+  'progress.errors': 'Correcciones cada 100 palabras',
+  'progress.vocabulary': 'Tamaño del cuaderno de vocabulario',
+  'progress.empty': 'Todavía no hay práctica. Tu progreso semanal aparecerá aquí después de tu primera conversación.',
+
+  'visualizer.showBars': 'Mostrar barras de frecuencia',
+  'visualizer.showWaveform': 'Mostrar forma de onda',
+
+  'usage.open': 'Uso y costo',
+  'usage.title': 'Uso y costo',
+  'usage.session': 'Esta sesión',
+  'usage.today': 'Hoy',
+  'usage.byDay': 'Por día',
+  'usage.day': 'Día',
+  'usage.requests': 'Solicitudes',
+  'usage.tokens': 'Tokens',
+  'usage.tokensDetail': '{prompt} de entrada · {completion} de salida',
+  'usage.cost': 'Costo',
+  'usage.budget': 'Presupuesto por sesión: aviso en {warn}, se detiene en {cap}',
+  'usage.noBudget': 'Sin presupuesto por sesión',
+  'usage.unpriced': 'Algunas solicitudes usaron un modelo sin precio en los ajustes y cuentan como $0.',
+  'usage.empty': 'Todavía no hay solicitudes.',
+  'usage.export': 'Exportar CSV',
+
+  'history.title': 'Historial',
+  'history.new': 'Nueva conversación',
+  'history.empty': 'Todavía no hay conversaciones guardadas.',
+  'history.messages': '{count} mensajes',
+  'history.inProgress': 'En curso',
+  'history.minutes': '{minutes} min',
+  'history.rename': 'Renombrar',
+  'history.save': 'Guardar',
+  'history.cancel': 'Cancelar',
+  'history.delete': 'Eliminar',
+  'history.confirmDelete': '¿Eliminar "{title}"?',
+
+  'export.open': 'Exportar / Importar',
+  'export.markdown': 'Markdown',
+  'export.markdownHint': 'Para compartir con tu profesor',
+  'export.json': 'JSON',
+  'export.jsonHint': 'Copia completa, se puede importar',
+  'export.vtt': 'WebVTT',
+  'export.vttHint': 'Subtítulos con tiempos desde el inicio',
+  'export.anki': 'CSV para Anki',
+  'export.ankiHint': 'Tarjetas con las oraciones corregidas',
+  'export.bundle': 'Paquete de audio (ZIP)',
+  'export.bundleHint': 'Transcripción con tus grabaciones en WAV',
+  'export.bundleFailed': 'No se pudieron exportar las grabaciones: {message}',
+  'export.import': 'Importar JSON…',
+  'export.importFailed': 'No se pudo importar la conversación: {message}',
+
+  'summary.open': 'Resumen de la conversación',
+  'summary.title': 'Lo que recuerda el tutor',
+  'summary.updated': 'Actualizado a las {time}. Los turnos más recientes se envían completos.',
+  'summary.empty': 'Todavía no hay resumen. Cuando la conversación se alarga, los turnos más antiguos se resumen aquí para que el tutor no los pierda.',
+
+  'scenario.label': 'Situación',
+  'scenario.level': 'Nivel',
+  'scenario.tryUsing': 'Intenta usar: {words}',
+  'scenario.casual-chat.title': 'Charla informal',
+  'scenario.casual-chat.description': 'Una conversación tranquila sobre la vida diaria.',
+  'scenario.job-interview.title': 'Entrevista de trabajo',
+  'scenario.job-interview.description': 'Responde las preguntas de una persona de recursos humanos.',
+  'scenario.restaurant.title': 'Pedir en un restaurante',
+  'scenario.restaurant.description': 'Pide una comida y responde las preguntas del mesero.',
+  'scenario.airport.title': 'Check-in en el aeropuerto',
+  'scenario.airport.description': 'Haz el check-in de un vuelo y resuelve temas de equipaje y asientos.',
+  'scenario.debate.title': 'Debate',
+  'scenario.debate.description': 'Defiende una opinión frente a un oponente amable.',
+
+  'level.A1': 'Principiante',
+  'level.A2': 'Elemental',
+  'level.B1': 'Intermedio',
+  'level.B2': 'Intermedio alto',
+  'level.C1': 'Avanzado',
+  'level.C2': 'Experto',
+
+  'accent.en-US': 'Estadounidense',
+  'accent.en-GB': 'Británico',
+  'accent.en-AU': 'Australiano',
+  'accent.en-IN': 'Indio',
+
+  'settings.mode': 'Modo de sesión',
+  'settings.mode.pipeline': 'Estándar (voz → texto → voz)',
+  'settings.mode.realtime': 'Voz a voz en tiempo real',
+  'settings.realtimeModel': 'Modelo en tiempo real',
+  'settings.realtimeUrl': 'URL WebSocket en tiempo real',
+  'settings.provider': 'Proveedor',
+  'settings.provider.openai': 'OpenAI',
+  'settings.provider.gemini': 'Google Gemini',
+  'settings.provider.openai-compatible': 'Local (Ollama / LM Studio)',
+  'settings.provider.mock': 'Simulado (sin conexión)',
+  'settings.model': 'Modelo',
+  'settings.baseUrl': 'URL base',
+  'settings.schoolServer': 'Servidor de la escuela',
+  'settings.temperature': 'Temperatura: {value}',
+  'settings.recognizer': 'Reconocimiento de voz',
+  'settings.recognizer.auto': 'Automático',
+  'settings.recognizer.browser': 'Navegador (Web Speech)',
+  'settings.recognizer.whisper': 'Servidor (API de Whisper)',
+  'settings.recognitionAccent': 'Acento para el reconocimiento',
+  'settings.transcriptionModel': 'Modelo de transcripción',
+  'settings.transcriptionBaseUrl': 'URL base de transcripción',
+  'settings.synthesizer': 'Voz del tutor',
+  'settings.synthesizer.browser': 'Voz del navegador',
+  'settings.synthesizer.cloud': 'TTS en la nube (compatible con OpenAI)',
+  'settings.accent': 'Acento',
+  'settings.voice': 'Voz',
+  'settings.speed': 'Velocidad: {value}×',
+  'settings.speechModel': 'Modelo de voz',
+  'settings.speechBaseUrl': 'URL base de voz',
+  'settings.explanations': 'Explicaciones de las correcciones',
+  'settings.explanations.en': 'Inglés (English)',
+  'settings.explanations.es': 'Español',
+  'settings.autoCollect': 'Guardar correcciones en el cuaderno',
+  'settings.autoCollect.auto': 'Automáticamente',
+  'settings.autoCollect.manual': 'Solo cuando yo las guarde',
+  'settings.budgetWarn': 'Aviso de presupuesto por sesión (USD)',
+  'settings.budgetCap': 'Límite de presupuesto por sesión (USD)',
+  'settings.off': '0 = desactivado',
+  'settings.inputPrice': 'Precio de entrada, USD / 1M tokens ({model})',
+  'settings.outputPrice': 'Precio de salida, USD / 1M tokens ({model})',
+  'settings.notPriced': 'Sin precio',
+
+  'category.grammar': 'Gramática',
+  'category.verb-tense': 'Tiempo verbal',
+  'category.word-choice': 'Vocabulario',
+  'category.word-order': 'Orden de palabras',
+  'category.preposition': 'Preposición',
+  'category.article': 'Artículo',
+  'category.agreement': 'Concordancia',
+  'category.other': 'Otro'
+};
@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Scenario, UiLocale } from '../types';
+import { en, MessageKey } from './en';
+import { es } from './es';
+
+export type { MessageKey };
+
+const LOCALE_STORAGE_KEY = 'tutor_ui_locale';
+
+const CATALOGS: Record<UiLocale, Record<MessageKey, string>> = { en, es };
+
+export const LOCALES: Record<UiLocale, string> = {
+  en: 'English',
+  es: 'Español'
+};
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+// Learners are Spanish speakers, so anything but an English browser gets Spanish
+const loadLocale = (): UiLocale => {
+  if (typeof window === 'undefined') return 'es';
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (stored && stored in CATALOGS) return stored as UiLocale;
+  return navigator.language?.toLowerCase().startsWith('en') ? 'en' : 'es';
+};
+
+/**
+ * Looks up `key` in the locale's catalog and fills `{name}` placeholders.
+ * Falls back to English, then to the key itself.
+ */
+export const translate = (locale: UiLocale, key: MessageKey, params?: Record<string, string | number>): string => {
+  const template = CATALOGS[locale][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+/**
+ * Title and description of a scenario in the interface language. Scenarios
+ * without catalog entries keep their English text.
+ */
+export const scenarioText = (t: Translate, scenario: Scenario): { title: string; description: string } => {
+  const title = `scenario.${scenario.id}.title`;
+  const description = `scenario.${scenario.id}.description`;
+  return {
+    title: title in en ? t(title as MessageKey) : scenario.title,
+    description: description in en ? t(description as MessageKey) : scenario.description
+  };
+};
+
+interface I18nContextValue {
+  locale: UiLocale;
+  setLocale: (locale: UiLocale) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: 'en',
+  setLocale: () => {},
+  t: (key, params) => translate('en', key, params)
+});
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<UiLocale>(loadLocale);
+
+  useEffect(() => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+  const value = useMemo(() => ({ locale, setLocale, t }), [locale, t]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,77 @@
+import { LlmProvider, LlmRequest, TokenUsage } from '../types';
+import { readSseData } from '../utils/streamUtils';
+import { errorFromResponse } from '../utils/errors';
+
+interface GeminiConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+/**
+ * Chat provider for the Gemini `streamGenerateContent` API. Gemini takes the
+ * system prompt separately and names the assistant role "model".
+ */
+export const createGeminiProvider = ({ baseUrl, model, apiKey }: GeminiConfig): LlmProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`;
+
+  const streamChat = async ({ messages, temperature, signal, onDelta, onUsage }: LlmRequest): Promise<string> => {
+    const systemText = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const contents = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }]
+      }));
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey
+      },
+      body: JSON.stringify({
+        contents,
+        ...(systemText ? { systemInstruction: { parts: [{ text: systemText }] } } : {}),
+        generationConfig: { temperature }
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Gemini');
+    }
+
+    let text = '';
+    // Every chunk repeats the running counts; the last one is the total
+    let usage: TokenUsage | null = null;
+    for await (const data of readSseData(response)) {
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch (e) {
+        continue;
+      }
+      if (chunk?.usageMetadata) {
+        usage = {
+          promptTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+          completionTokens: chunk.usageMetadata.candidatesTokenCount ?? 0
+        };
+      }
+      const parts = chunk?.candidates?.[0]?.content?.parts;
+      if (!Array.isArray(parts)) continue;
+      const delta = parts.map((p: any) => p?.text ?? '').join('');
+      if (delta) {
+        text += delta;
+        onDelta?.(text);
+      }
+    }
+    if (usage) onUsage?.(usage);
+    return text.trim();
+  };
+
+  return { id: 'gemini', streamChat };
+};
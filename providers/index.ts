@@ -0,0 +1,63 @@
+import { LlmProvider, LlmProviderId, LlmSettings } from '../types';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAiCompatibleProvider } from './openaiCompatible';
+
+export interface ProviderInfo {
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+}
+
+export const PROVIDERS: Record<LlmProviderId, ProviderInfo> = {
+  openai: {
+    label: 'OpenAI',
+    defaultModel: 'gpt-4o-mini',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    requiresApiKey: true
+  },
+  gemini: {
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.0-flash',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    requiresApiKey: true
+  },
+  'openai-compatible': {
+    label: 'Local (Ollama / LM Studio)',
+    defaultModel: 'llama3.1',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    requiresApiKey: false
+  },
+  mock: {
+    label: 'Mock (offline)',
+    defaultModel: 'mock',
+    defaultBaseUrl: '',
+    requiresApiKey: false
+  }
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'openai',
+  model: PROVIDERS.openai.defaultModel,
+  baseUrl: PROVIDERS.openai.defaultBaseUrl,
+  temperature: 0.8
+};
+
+export const createProvider = (settings: LlmSettings, apiKey: string): LlmProvider => {
+  const info = PROVIDERS[settings.provider];
+  const baseUrl = settings.baseUrl || info.defaultBaseUrl;
+  const model = settings.model || info.defaultModel;
+
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider({ baseUrl, model, apiKey });
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({ id: 'openai-compatible', baseUrl, model, apiKey });
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+    default:
+      return createOpenAiCompatibleProvider({ id: 'openai', baseUrl, model, apiKey });
+  }
+};
@@ -0,0 +1,61 @@
+import { Correction, LlmProvider, LlmRequest } from '../types';
+import { formatModelTurn } from '../utils/corrections';
+import { wait } from '../utils/errors';
+
+const CHUNK_DELAY_MS = 40;
+
+// A couple of predictable mistakes so the corrections UI can be exercised offline
+const MOCK_RULES: { pattern: RegExp; corrected: string; correction: Omit<Correction, 'original' | 'corrected'> }[] = [
+  {
+    pattern: /\bi\b/,
+    corrected: 'I',
+    correction: { category: 'grammar', explanation: 'The pronoun "I" is always capitalized.' }
+  },
+  {
+    pattern: /\bgoed\b/i,
+    corrected: 'went',
+    correction: { category: 'verb-tense', explanation: '"Go" is irregular: the past tense is "went".' }
+  }
+];
+
+export const buildMockCorrections = (text: string): Correction[] =>
+  MOCK_RULES.flatMap(({ pattern, corrected, correction }) => {
+    const match = text.match(pattern);
+    return match ? [{ original: match[0], corrected, ...correction }] : [];
+  });
+
+/**
+ * Builds the canned reply for a conversation. The same input always gives the
+ * same output so the UI can be exercised without network or API keys.
+ */
+export const buildMockReply = (messages: LlmRequest['messages']): string => {
+  const lastUser = [...messages].reverse().find(m => m.role === 'user');
+  const turn = messages.filter(m => m.role === 'user').length;
+  if (!lastUser) return 'Hello! What would you like to talk about today?';
+  const reply = `You said: "${lastUser.content}". That's turn number ${turn}. Can you tell me a bit more about it?`;
+  return formatModelTurn(reply, buildMockCorrections(lastUser.content));
+};
+
+/**
+ * Offline provider that streams a deterministic reply word by word.
+ */
+export const createMockProvider = (): LlmProvider => {
+  const streamChat = async ({ messages, signal, onDelta, onUsage }: LlmRequest): Promise<string> => {
+    const reply = buildMockReply(messages);
+    const words = reply.split(/(?<=\s)/);
+    let text = '';
+    for (let i = 0; i < words.length; i++) {
+      await wait(CHUNK_DELAY_MS, signal);
+      text += words[i];
+      onDelta?.(text);
+    }
+    // Rough counts (about four characters a token) so usage tracking works offline
+    onUsage?.({
+      promptTokens: Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4),
+      completionTokens: Math.ceil(text.length / 4)
+    });
+    return text;
+  };
+
+  return { id: 'mock', streamChat };
+};
@@ -0,0 +1,67 @@
+import { LlmProvider, LlmProviderId, LlmRequest } from '../types';
+import { readSseData } from '../utils/streamUtils';
+import { errorFromResponse } from '../utils/errors';
+
+interface OpenAiCompatibleConfig {
+  id: LlmProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Chat provider for any server implementing `/chat/completions` with SSE
+ * streaming: OpenAI itself, Ollama, LM Studio, vLLM and similar.
+ */
+export const createOpenAiCompatibleProvider = ({ id, baseUrl, model, apiKey }: OpenAiCompatibleConfig): LlmProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const streamChat = async ({ messages, temperature, signal, onDelta, onUsage }: LlmRequest): Promise<string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without auth
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        stream: true,
+        // Asks for a final chunk with the token counts. Only sent to OpenAI:
+        // older local servers reject unknown fields, and some report usage anyway.
+        ...(id === 'openai' ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Chat');
+    }
+
+    let text = '';
+    for await (const data of readSseData(response)) {
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch (e) {
+        continue;
+      }
+      if (chunk?.usage) {
+        onUsage?.({
+          promptTokens: chunk.usage.prompt_tokens ?? 0,
+          completionTokens: chunk.usage.completion_tokens ?? 0
+        });
+      }
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        onDelta?.(text);
+      }
+    }
+    return text.trim();
+  };
+
+  return { id, streamChat };
+};
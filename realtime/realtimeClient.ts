@@ -0,0 +1,143 @@
+import { float32ToPCM16 } from '../utils/audioUtils';
+
+export const REALTIME_SAMPLE_RATE = 24000;
+
+export interface RealtimeClientConfig {
+  url: string;
+  model: string;
+  apiKey?: string;
+  instructions: string;
+  voice: string;
+  transcriptionModel: string;
+}
+
+export interface RealtimeEvents {
+  // The server detected the learner starting to speak (also used for barge-in)
+  onSpeechStarted: (itemId: string) => void;
+  onUserTranscript: (itemId: string, transcript: string) => void;
+  onAssistantTranscriptDelta: (responseId: string, delta: string) => void;
+  onAssistantTranscriptDone: (responseId: string, transcript: string) => void;
+  // Base64 PCM16 at 24 kHz
+  onAudioDelta: (responseId: string, base64: string) => void;
+  onResponseDone: (responseId: string) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export interface RealtimeClient {
+  sendAudio: (samples: Float32Array) => void;
+  // Asks the server to stop generating the current response
+  cancelResponse: () => void;
+  close: () => void;
+}
+
+const buildUrl = (url: string, model: string) => {
+  const parsed = new URL(url);
+  if (!parsed.searchParams.has('model') && model) parsed.searchParams.set('model', model);
+  return parsed.toString();
+};
+
+/**
+ * Opens a WebSocket to an OpenAI Realtime-style endpoint and resolves once the
+ * session is configured. Mic audio goes up as base64 PCM16; the server's
+ * voice activity detection decides when a turn ends.
+ */
+export function connectRealtime(config: RealtimeClientConfig, events: RealtimeEvents): Promise<RealtimeClient> {
+  // Browsers cannot set headers on WebSockets; the key travels as a subprotocol
+  const protocols = ['realtime', 'openai-beta.realtime-v1'];
+  if (config.apiKey) protocols.push(`openai-insecure-api-key.${config.apiKey}`);
+
+  return new Promise((resolve, reject) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(buildUrl(config.url, config.model), protocols);
+    } catch (e) {
+      reject(e);
+      return;
+    }
+
+    let opened = false;
+    let closedByClient = false;
+
+    const send = (event: Record<string, unknown>) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+    };
+
+    const client: RealtimeClient = {
+      sendAudio: (samples) => {
+        send({ type: 'input_audio_buffer.append', audio: float32ToPCM16(samples).base64 });
+      },
+      cancelResponse: () => send({ type: 'response.cancel' }),
+      close: () => {
+        closedByClient = true;
+        socket.close();
+      }
+    };
+
+    socket.onopen = () => {
+      opened = true;
+      send({
+        type: 'session.update',
+        session: {
+          instructions: config.instructions,
+          voice: config.voice,
+          modalities: ['audio', 'text'],
+          input_audio_format: 'pcm16',
+          output_audio_format: 'pcm16',
+          input_audio_transcription: { model: config.transcriptionModel },
+          turn_detection: { type: 'server_vad' }
+        }
+      });
+      resolve(client);
+    };
+
+    socket.onmessage = (message) => {
+      let event: any;
+      try {
+        event = JSON.parse(message.data);
+      } catch (e) {
+        return;
+      }
+
+      switch (event.type) {
+        case 'input_audio_buffer.speech_started':
+          events.onSpeechStarted(event.item_id);
+          break;
+        case 'conversation.item.input_audio_transcription.completed':
+          events.onUserTranscript(event.item_id, (event.transcript ?? '').trim());
+          break;
+        case 'response.audio_transcript.delta':
+          events.onAssistantTranscriptDelta(event.response_id, event.delta ?? '');
+          break;
+        case 'response.audio_transcript.done':
+          events.onAssistantTranscriptDone(event.response_id, (event.transcript ?? '').trim());
+          break;
+        case 'response.audio.delta':
+          events.onAudioDelta(event.response_id, event.delta);
+          break;
+        case 'response.done':
+          events.onResponseDone(event.response?.id ?? event.response_id);
+          break;
+        case 'error':
+          // Cancelling when nothing is playing is harmless
+          if (event.error?.code === 'response_cancel_not_active') break;
+          events.onError(event.error?.message ?? 'Realtime server error');
+          break;
+        default:
+          break;
+      }
+    };
+
+    socket.onerror = () => {
+      if (!opened) reject(new Error('Could not connect to the realtime server'));
+    };
+
+    socket.onclose = () => {
+      if (!opened) {
+        reject(new Error('Could not connect to the realtime server'));
+        return;
+      }
+      if (!closedByClient) events.onClose();
+    };
+  });
+}
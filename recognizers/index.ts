@@ -0,0 +1,53 @@
+import { RecognizerEngine, RecognizerEvents, SpeechRecognizer, TranscriptionSettings } from '../types';
+import { createWebSpeechRecognizer, isWebSpeechSupported } from './webSpeech';
+import { createWhisperRecognizer } from './whisper';
+
+export { isWebSpeechSupported };
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  engine: 'auto',
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'whisper-1',
+  lang: 'en-US',
+  inputMode: 'hands-free'
+};
+
+export const RECOGNIZER_ENGINES: Record<RecognizerEngine, string> = {
+  auto: 'Automatic',
+  browser: 'Browser (Web Speech)',
+  whisper: 'Server (Whisper API)'
+};
+
+interface RecognizerOptions {
+  settings: TranscriptionSettings;
+  lang: string;
+  apiKey: string;
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+}
+
+/**
+ * "auto" prefers the browser recognizer and falls back to the Whisper API
+ * where the Web Speech API is missing (Firefox, many webviews).
+ */
+export const resolveEngine = (engine: RecognizerEngine): Exclude<RecognizerEngine, 'auto'> => {
+  if (engine !== 'auto') return engine;
+  return isWebSpeechSupported() ? 'browser' : 'whisper';
+};
+
+export const createRecognizer = (
+  { settings, lang, apiKey, context, source }: RecognizerOptions,
+  events: RecognizerEvents
+): SpeechRecognizer => {
+  if (resolveEngine(settings.engine) === 'browser') {
+    return createWebSpeechRecognizer(lang, events);
+  }
+  return createWhisperRecognizer({
+    baseUrl: settings.baseUrl || DEFAULT_TRANSCRIPTION_SETTINGS.baseUrl,
+    model: settings.model || DEFAULT_TRANSCRIPTION_SETTINGS.model,
+    apiKey,
+    lang,
+    context,
+    source
+  }, events);
+};
@@ -0,0 +1,81 @@
+import { RecognizerEvents, SpeechRecognizer } from '../types';
+import { TutorError } from '../utils/errors';
+
+type SpeechRecognitionConstructor = { new (): SpeechRecognition };
+
+const getSpeechRecognitionClass = (): SpeechRecognitionConstructor | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export const isWebSpeechSupported = () => Boolean(getSpeechRecognitionClass());
+
+const toTutorError = (code: string): TutorError => {
+  switch (code) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return new TutorError('mic-denied', 'Speech recognition permission denied');
+    case 'audio-capture':
+      return new TutorError('mic-unavailable', 'No microphone available for speech recognition');
+    case 'network':
+      return new TutorError('network', 'Speech recognition service unreachable');
+    case 'aborted':
+      return new TutorError('recognizer-aborted', 'Speech recognition was aborted');
+    default:
+      return new TutorError('unknown', `Speech recognition error: ${code}`);
+  }
+};
+
+/**
+ * Recognizer backed by the browser's Web Speech API (Chrome, Edge, Safari).
+ */
+export const createWebSpeechRecognizer = (lang: string, events: RecognizerEvents): SpeechRecognizer => {
+  const SpeechRecognitionClass = getSpeechRecognitionClass();
+  if (!SpeechRecognitionClass) {
+    throw new TutorError('unsupported', 'Speech recognition is not supported in this browser.');
+  }
+
+  const recognition = new SpeechRecognitionClass();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  // Set while an abort we asked for is in progress, so its error is not reported
+  let abortRequested = false;
+
+  recognition.onstart = () => {
+    abortRequested = false;
+    events.onStart();
+  };
+  recognition.onend = () => events.onEnd();
+  recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+    // Silence just ends the recognition; onend restarts it
+    if (event.error === 'no-speech') return;
+    if (event.error === 'aborted' && abortRequested) return;
+    events.onError(toTutorError(event.error));
+  };
+  recognition.onresult = (event: SpeechRecognitionEvent) => {
+    const result = event.results[event.results.length - 1];
+    events.onResult(result[0].transcript.trim(), result.isFinal);
+  };
+
+  return {
+    start: () => recognition.start(),
+    stop: () => recognition.stop(),
+    abort: () => {
+      abortRequested = true;
+      recognition.abort();
+    },
+    dispose: () => {
+      recognition.onstart = null;
+      recognition.onend = null;
+      recognition.onerror = null;
+      recognition.onresult = null;
+      try {
+        recognition.abort();
+      } catch (e) {
+        // ignore
+      }
+    }
+  };
+};
@@ -0,0 +1,164 @@
+import { RecognizerEvents, SpeechRecognizer } from '../types';
+import { concatSamples, encodeWav } from '../utils/audioUtils';
+import { errorFromResponse, TutorError } from '../utils/errors';
+import { createMicCapture, MIC_BLOCK_SIZE, MicCapture } from '../utils/micCapture';
+
+interface WhisperRecognizerConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  // BCP 47 tag; Whisper only wants the language part ("en")
+  lang: string;
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+}
+
+// Simple energy-based voice activity detection
+const SPEECH_RMS = 0.015;
+const END_OF_SPEECH_SILENCE_MS = 800;
+const MIN_SPEECH_MS = 300;
+const MAX_SEGMENT_MS = 30000;
+// Audio kept from before speech was detected so the first syllable is not clipped
+const PRE_ROLL_MS = 300;
+
+/**
+ * Recognizer for browsers without the Web Speech API. Captures mic PCM,
+ * cuts it into utterances at pauses, and posts each one as WAV to a
+ * Whisper-compatible `/audio/transcriptions` endpoint (OpenAI, whisper.cpp
+ * server, faster-whisper-server, or a stub).
+ */
+export const createWhisperRecognizer = (config: WhisperRecognizerConfig, events: RecognizerEvents): SpeechRecognizer => {
+  const { context, source, baseUrl, model, apiKey, lang } = config;
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+  const chunkMs = (MIC_BLOCK_SIZE / context.sampleRate) * 1000;
+  const preRollChunks = Math.max(1, Math.ceil(PRE_ROLL_MS / chunkMs));
+
+  // Set up on the first start; the worklet module loads asynchronously
+  let capture: Promise<MicCapture> | null = null;
+  let listening = false;
+  let preRoll: Float32Array[] = [];
+  let segment: Float32Array[] = [];
+  let speechMs = 0;
+  let silenceMs = 0;
+  const inFlight = new Set<AbortController>();
+  const pending = new Set<Promise<void>>();
+  let detached = false;
+
+  const emit = <K extends keyof RecognizerEvents>(name: K, ...args: Parameters<RecognizerEvents[K]>) => {
+    if (detached) return;
+    (events[name] as (...a: Parameters<RecognizerEvents[K]>) => void)(...args);
+  };
+
+  const resetSegment = () => {
+    preRoll = [];
+    segment = [];
+    speechMs = 0;
+    silenceMs = 0;
+  };
+
+  const transcribe = async (samples: Float32Array) => {
+    const controller = new AbortController();
+    inFlight.add(controller);
+
+    const form = new FormData();
+    form.append('file', encodeWav(samples, context.sampleRate), 'utterance.wav');
+    form.append('model', model);
+    form.append('language', lang.split('-')[0]);
+    form.append('response_format', 'json');
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form,
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        emit('onError', await errorFromResponse(response, 'Transcription'));
+        return;
+      }
+      const data = await response.json();
+      const text = typeof data?.text === 'string' ? data.text.trim() : '';
+      if (text) emit('onResult', text, true);
+    } catch (e) {
+      if (!controller.signal.aborted) emit('onError', new TutorError('network', 'Transcription service unreachable'));
+    } finally {
+      inFlight.delete(controller);
+    }
+  };
+
+  const flushSegment = () => {
+    if (speechMs >= MIN_SPEECH_MS) {
+      const task = transcribe(concatSamples(segment));
+      pending.add(task);
+      task.finally(() => pending.delete(task));
+    }
+    resetSegment();
+  };
+
+  const handleBlock = (chunk: Float32Array, rms: number) => {
+    if (!listening) return;
+    const isSpeech = rms > SPEECH_RMS;
+
+    if (segment.length === 0) {
+      if (!isSpeech) {
+        preRoll.push(chunk);
+        if (preRoll.length > preRollChunks) preRoll.shift();
+        return;
+      }
+      segment = [...preRoll];
+      preRoll = [];
+    }
+
+    segment.push(chunk);
+    if (isSpeech) {
+      speechMs += chunkMs;
+      silenceMs = 0;
+    } else {
+      silenceMs += chunkMs;
+    }
+
+    if (silenceMs >= END_OF_SPEECH_SILENCE_MS || segment.length * chunkMs >= MAX_SEGMENT_MS) {
+      flushSegment();
+    }
+  };
+
+  const start = () => {
+    if (listening) throw new Error('Recognizer already started');
+    if (!capture) {
+      capture = createMicCapture(context, source, handleBlock);
+      capture.catch(() => emit('onError', new TutorError('unsupported', 'Audio capture is not supported in this browser.')));
+    }
+    resetSegment();
+    listening = true;
+    // Match Web Speech, which reports start asynchronously
+    setTimeout(() => emit('onStart'), 0);
+  };
+
+  const end = (keepSegment: boolean) => {
+    if (!listening) return;
+    listening = false;
+    if (keepSegment) {
+      flushSegment();
+      // Like Web Speech, report the end only after the last result
+      Promise.all(pending).then(() => emit('onEnd'));
+      return;
+    }
+    resetSegment();
+    inFlight.forEach(c => c.abort());
+    inFlight.clear();
+    setTimeout(() => emit('onEnd'), 0);
+  };
+
+  return {
+    start,
+    stop: () => end(true),
+    abort: () => end(false),
+    dispose: () => {
+      end(false);
+      detached = true;
+      capture?.then(mic => mic.dispose(), () => {});
+      capture = null;
+    }
+  };
+};
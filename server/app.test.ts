@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const listen = (server: Server) => new Promise<string>(resolve => {
+  server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+});
+
+const close = (server: Server) => new Promise<void>(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+});
+
+const waitFor = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('proxy server', () => {
+  // Streaming requests get one SSE chunk and are then held open like a long reply
+  const upstream = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (!JSON.parse(body || '{}').stream) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"choices":[]}');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"content":"Hello"}}]}\n\n');
+    });
+  });
+  const usageLogPath = path.join(tmpdir(), `tutor-proxy-test-${process.pid}.log`);
+  let proxy: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.UPSTREAM_BASE_URL = await listen(upstream);
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.USAGE_LOG = usageLogPath;
+    process.env.DAILY_REQUEST_QUOTA = '2';
+    process.env.SESSIONS_PER_HOUR = '5';
+    // The config is read from the environment when the module loads
+    const { createProxyServer } = await import('./app');
+    proxy = createProxyServer();
+    baseUrl = await listen(proxy);
+  });
+
+  afterAll(async () => {
+    await close(proxy);
+    await close(upstream);
+    rmSync(usageLogPath, { force: true });
+  });
+
+  const createToken = async () => {
+    const response = await fetch(`${baseUrl}/api/session`, { method: 'POST', body: '{}' });
+    return (await response.json()).token as string;
+  };
+
+  const chat = (token: string) => fetch(`${baseUrl}/api/v1/chat/completions`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ stream: false })
+  });
+
+  it('keeps serving after the browser aborts a streaming reply', async () => {
+    const token = await createToken();
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/api/v1/chat/completions`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ stream: true }),
+      signal: controller.signal
+    });
+    const reader = response.body!.getReader();
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toContain('Hello');
+
+    controller.abort();
+    await waitFor(100);
+
+    const health = await fetch(`${baseUrl}/api/health`);
+    expect(health.status).toBe(200);
+  });
+
+  it('counts the daily quota per session token, not per shared address', async () => {
+    const first = await createToken();
+    const second = await createToken();
+
+    expect((await chat(first)).status).toBe(200);
+    expect((await chat(first)).status).toBe(200);
+    const refused = await chat(first);
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).error.code).toBe('insufficient_quota');
+
+    expect((await chat(second)).status).toBe(200);
+    const usage = await fetch(`${baseUrl}/api/usage`, { headers: { Authorization: `Bearer ${second}` } });
+    expect(await usage.json()).toEqual({ used: 1, limit: 2 });
+  });
+
+  it('caps how many session tokens one address can obtain', async () => {
+    // Three tokens were issued by the tests above
+    await createToken();
+    await createToken();
+    const refused = await fetch(`${baseUrl}/api/session`, { method: 'POST', body: '{}' });
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('retry-after')).toBeTruthy();
+  });
+});
@@ -0,0 +1,231 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { config } from './config';
+import { createProxySession, getProxySession, isValidAccessCode } from './sessions';
+import { checkAndCount, checkSessionIssue, getDailyUsage } from './limits';
+import { logUsage } from './usageLog';
+
+/**
+ * Request handling of the small proxy that keeps the OpenAI key on the
+ * server. Browsers get a short-lived session token from /api/session and call
+ * /api/v1/* with it; each call is rate limited, counted against the token's
+ * daily quota and logged.
+ */
+
+// Upstream endpoints the browser may reach through the proxy
+const PROXIED_ROUTES = new Set(['/chat/completions', '/audio/transcriptions', '/audio/speech']);
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Errors use the OpenAI error shape so the client handles them the same way
+const sendError = (res: ServerResponse, status: number, code: string, message: string, headers?: Record<string, string>) =>
+  sendJson(res, status, { error: { code, message } }, headers);
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// The browser closing a stream (the learner interrupting, a new turn) is not a failure
+const isClosedEarly = (e: unknown) => (e as Error)?.name === 'AbortError'
+  || (e as NodeJS.ErrnoException)?.code === 'ERR_STREAM_PREMATURE_CLOSE';
+
+const bearerToken = (req: IncomingMessage) => {
+  const header = req.headers.authorization ?? '';
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : undefined;
+};
+
+// Classmates behind the same school router share one address
+const clientAddress = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (config.trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const handleCreateSession = async (req: IncomingMessage, res: ServerResponse) => {
+  let body: any = {};
+  try {
+    const raw = (await readBody(req)).toString('utf8');
+    body = raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    sendError(res, 400, 'invalid_request', 'Body must be JSON.');
+    return;
+  }
+
+  if (!isValidAccessCode(body.accessCode)) {
+    sendError(res, 403, 'invalid_access_code', 'The class access code is not correct.');
+    return;
+  }
+
+  const address = clientAddress(req);
+  const limit = checkSessionIssue(address);
+  if (!limit.allowed) {
+    sendError(res, 429, 'rate_limit_exceeded', 'Too many new sessions from this network. Try again later.', {
+      'Retry-After': String(limit.retryAfterSeconds)
+    });
+    return;
+  }
+
+  const userId = typeof body.userId === 'string' && /^[\w.-]{1,64}$/.test(body.userId) ? body.userId : 'anonymous';
+  const session = createProxySession(userId, address);
+  sendJson(res, 200, { token: session.token, expiresAt: session.expiresAt });
+};
+
+const handleProxy = async (req: IncomingMessage, res: ServerResponse, route: string) => {
+  const session = getProxySession(bearerToken(req));
+  if (!session) {
+    sendError(res, 401, 'invalid_session', 'Your session has expired. Reconnect to continue.');
+    return;
+  }
+
+  const limit = checkAndCount(session.token);
+  if (!limit.allowed) {
+    const message = limit.reason === 'quota'
+      ? 'Daily practice quota reached. Try again tomorrow.'
+      : 'Too many requests. Wait a moment and try again.';
+    sendError(res, 429, limit.reason === 'quota' ? 'insufficient_quota' : 'rate_limit_exceeded', message, {
+      'Retry-After': String(limit.retryAfterSeconds)
+    });
+    return;
+  }
+
+  const started = Date.now();
+  let body: Buffer;
+  try {
+    body = await readBody(req);
+  } catch (e) {
+    sendError(res, 413, 'request_too_large', (e as Error).message);
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  let status = 502;
+  try {
+    const upstream = await fetch(`${config.upstreamBaseUrl}${route}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': req.headers['content-type'] ?? 'application/json',
+        Authorization: `Bearer ${config.openAiApiKey}`
+      },
+      body,
+      signal: controller.signal
+    });
+    status = upstream.status;
+
+    res.writeHead(upstream.status, {
+      'Content-Type': upstream.headers.get('content-type') ?? 'application/octet-stream',
+      'Cache-Control': 'no-cache'
+    });
+    if (upstream.body) {
+      // Stream through so chat SSE and TTS audio arrive incrementally
+      // fetch's body is typed with the DOM lib's stream, which lacks Node's async iterator
+      await pipeline(Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>), res);
+    } else {
+      res.end();
+    }
+  } catch (e) {
+    if (controller.signal.aborted || isClosedEarly(e)) return;
+    if (!res.headersSent) {
+      sendError(res, 502, 'upstream_unreachable', 'Could not reach the AI service.');
+    } else {
+      // The upstream broke off mid-stream; the client sees the truncated response end
+      res.destroy();
+    }
+  } finally {
+    logUsage({
+      time: new Date(started).toISOString(),
+      userId: session.userId,
+      clientAddress: session.clientAddress,
+      route,
+      status,
+      durationMs: Date.now() - started,
+      requestBytes: body.length
+    });
+  }
+};
+
+const serveStatic = async (res: ServerResponse, urlPath: string) => {
+  const resolved = path.resolve(config.staticDir, `.${decodeURIComponent(urlPath)}`);
+  // Anything outside the build folder, or missing, falls back to the app shell
+  let filePath = resolved.startsWith(config.staticDir + path.sep) ? resolved : path.join(config.staticDir, 'index.html');
+  try {
+    const info = await stat(filePath);
+    if (info.isDirectory()) filePath = path.join(filePath, 'index.html');
+    await stat(filePath);
+  } catch (e) {
+    filePath = path.join(config.staticDir, 'index.html');
+  }
+
+  try {
+    await stat(filePath);
+  } catch (e) {
+    sendError(res, 404, 'not_found', 'Not found. Run `npm run build` to serve the app from this server.');
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+  createReadStream(filePath).pipe(res);
+};
+
+export const createProxyServer = () => createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const { pathname } = url;
+
+  try {
+    if (pathname === '/api/health' && req.method === 'GET') {
+      sendJson(res, 200, { ok: true, accessCodeRequired: Boolean(config.accessCode) });
+    } else if (pathname === '/api/session' && req.method === 'POST') {
+      await handleCreateSession(req, res);
+    } else if (pathname === '/api/usage' && req.method === 'GET') {
+      const session = getProxySession(bearerToken(req));
+      if (!session) {
+        sendError(res, 401, 'invalid_session', 'Your session has expired. Reconnect to continue.');
+      } else {
+        sendJson(res, 200, getDailyUsage(session.token));
+      }
+    } else if (pathname.startsWith('/api/v1/') && req.method === 'POST' && PROXIED_ROUTES.has(pathname.slice(7))) {
+      await handleProxy(req, res, pathname.slice(7));
+    } else if (pathname.startsWith('/api/')) {
+      sendError(res, 404, 'not_found', 'Unknown API route.');
+    } else if (req.method === 'GET') {
+      await serveStatic(res, pathname);
+    } else {
+      sendError(res, 405, 'method_not_allowed', 'Method not allowed.');
+    }
+  } catch (e) {
+    console.error('Request failed', e);
+    if (!res.headersSent) sendError(res, 500, 'server_error', 'Internal server error.');
+  }
+});
@@ -0,0 +1,29 @@
+import path from 'path';
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Proxy configuration, read once from the environment at startup.
+ */
+export const config = {
+  port: numberFromEnv('PORT', 8787),
+  // Never sent to the browser
+  openAiApiKey: process.env.OPENAI_API_KEY ?? '',
+  upstreamBaseUrl: (process.env.UPSTREAM_BASE_URL ?? 'https://api.openai.com/v1').replace(/\/+$/, ''),
+  // Optional shared class code students must enter to get a session token
+  accessCode: process.env.PROXY_ACCESS_CODE ?? '',
+  // Behind a reverse proxy, take the client address from X-Forwarded-For
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  sessionTtlMs: numberFromEnv('SESSION_TTL_HOURS', 12) * 60 * 60 * 1000,
+  // Per student session token
+  requestsPerMinute: numberFromEnv('RATE_LIMIT_PER_MINUTE', 30),
+  dailyRequestQuota: numberFromEnv('DAILY_REQUEST_QUOTA', 500),
+  // Per client address, so one machine cannot mint tokens to dodge its quota
+  sessionsPerHour: numberFromEnv('SESSIONS_PER_HOUR', 60),
+  usageLogPath: process.env.USAGE_LOG ?? path.resolve(process.cwd(), 'usage.log'),
+  // Built front-end to serve in production (`npm run build` output)
+  staticDir: path.resolve(process.cwd(), process.env.STATIC_DIR ?? 'dist')
+};
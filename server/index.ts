@@ -0,0 +1,17 @@
+import { config } from './config';
+import { createProxyServer } from './app';
+import { pruneExpiredSessions } from './sessions';
+import { pruneLimitCounters } from './limits';
+
+if (!config.openAiApiKey) {
+  console.warn('OPENAI_API_KEY is not set; proxied requests will be rejected upstream.');
+}
+
+setInterval(() => {
+  pruneExpiredSessions();
+  pruneLimitCounters();
+}, 10 * 60 * 1000).unref();
+
+createProxyServer().listen(config.port, () => {
+  console.log(`Tutor proxy listening on http://localhost:${config.port}`);
+});
@@ -0,0 +1,94 @@
+import { config } from './config';
+
+export interface LimitResult {
+  allowed: boolean;
+  // Set when the request is refused
+  reason?: 'rate_limit' | 'quota';
+  retryAfterSeconds?: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+const ISSUANCE_WINDOW_MS = 60 * 60 * 1000;
+
+// session token -> request timestamps within the last minute
+const recentRequests = new Map<string, number[]>();
+// session token -> { day, count }
+const dailyCounts = new Map<string, { day: string; count: number }>();
+// client address -> session token issue times within the last hour
+const recentIssues = new Map<string, number[]>();
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const secondsUntilTomorrow = () => {
+  const now = new Date();
+  const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((tomorrow - now.getTime()) / 1000);
+};
+
+/**
+ * Checks the per-minute rate limit and the daily quota for a session token
+ * and, if both allow it, counts the request. Counting per token rather than
+ * per address keeps classmates behind one school router from sharing a quota.
+ */
+export function checkAndCount(token: string): LimitResult {
+  const now = Date.now();
+  const day = today();
+
+  const daily = dailyCounts.get(token);
+  const dailyCount = daily && daily.day === day ? daily.count : 0;
+  if (dailyCount >= config.dailyRequestQuota) {
+    return { allowed: false, reason: 'quota', retryAfterSeconds: secondsUntilTomorrow() };
+  }
+
+  const recent = (recentRequests.get(token) ?? []).filter(t => now - t < WINDOW_MS);
+  if (recent.length >= config.requestsPerMinute) {
+    recentRequests.set(token, recent);
+    return { allowed: false, reason: 'rate_limit', retryAfterSeconds: Math.ceil((WINDOW_MS - (now - recent[0])) / 1000) };
+  }
+
+  recent.push(now);
+  recentRequests.set(token, recent);
+  dailyCounts.set(token, { day, count: dailyCount + 1 });
+  return { allowed: true };
+}
+
+/**
+ * Caps how many session tokens one client address may obtain per hour and,
+ * if allowed, counts the new token. A whole class shares an address, so the
+ * cap is sized for reconnects of every student rather than for one browser.
+ */
+export function checkSessionIssue(clientAddress: string): LimitResult {
+  const now = Date.now();
+  const recent = (recentIssues.get(clientAddress) ?? []).filter(t => now - t < ISSUANCE_WINDOW_MS);
+  if (recent.length >= config.sessionsPerHour) {
+    recentIssues.set(clientAddress, recent);
+    return { allowed: false, reason: 'rate_limit', retryAfterSeconds: Math.ceil((ISSUANCE_WINDOW_MS - (now - recent[0])) / 1000) };
+  }
+
+  recent.push(now);
+  recentIssues.set(clientAddress, recent);
+  return { allowed: true };
+}
+
+export function getDailyUsage(token: string): { used: number; limit: number } {
+  const daily = dailyCounts.get(token);
+  return {
+    used: daily && daily.day === today() ? daily.count : 0,
+    limit: config.dailyRequestQuota
+  };
+}
+
+// Counters of past days and quiet windows, so tokens that expired do not pile up
+export function pruneLimitCounters(): void {
+  const now = Date.now();
+  const day = today();
+  dailyCounts.forEach((daily, token) => {
+    if (daily.day !== day) dailyCounts.delete(token);
+  });
+  recentRequests.forEach((times, token) => {
+    if (times.every(t => now - t >= WINDOW_MS)) recentRequests.delete(token);
+  });
+  recentIssues.forEach((times, address) => {
+    if (times.every(t => now - t >= ISSUANCE_WINDOW_MS)) recentIssues.delete(address);
+  });
+}
@@ -0,0 +1,52 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { config } from './config';
+
+export interface ProxySession {
+  token: string;
+  // Label the browser picks for itself; only used in the usage log
+  userId: string;
+  // Where the token was issued; only used in the usage log
+  clientAddress: string;
+  expiresAt: number;
+}
+
+// In memory on purpose: a restart just makes clients request a new token
+const sessions = new Map<string, ProxySession>();
+
+const safeEqual = (a: string, b: string) => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+export const isValidAccessCode = (code: unknown): boolean =>
+  !config.accessCode || (typeof code === 'string' && safeEqual(code, config.accessCode));
+
+export function createProxySession(userId: string, clientAddress: string): ProxySession {
+  const session: ProxySession = {
+    token: randomBytes(24).toString('base64url'),
+    userId,
+    clientAddress,
+    expiresAt: Date.now() + config.sessionTtlMs
+  };
+  sessions.set(session.token, session);
+  return session;
+}
+
+export function getProxySession(token: string | undefined): ProxySession | null {
+  if (!token) return null;
+  const session = sessions.get(token);
+  if (!session) return null;
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+  return session;
+}
+
+export function pruneExpiredSessions(): void {
+  const now = Date.now();
+  sessions.forEach((session, token) => {
+    if (session.expiresAt <= now) sessions.delete(token);
+  });
+}
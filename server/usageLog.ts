@@ -0,0 +1,22 @@
+import { appendFile } from 'fs/promises';
+import { config } from './config';
+
+export interface UsageEntry {
+  time: string;
+  userId: string;
+  clientAddress: string;
+  route: string;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+}
+
+/**
+ * Appends one JSON line per proxied request. Logging failures are reported
+ * but never fail the request.
+ */
+export function logUsage(entry: UsageEntry): void {
+  appendFile(config.usageLogPath, `${JSON.stringify(entry)}\n`).catch(e => {
+    console.error('Failed to write usage log', e);
+  });
+}
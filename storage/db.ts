@@ -0,0 +1,140 @@
+export const DB_NAME = 'english-practice-tutor';
+const DB_VERSION = 5;
+
+export const STORES = {
+  sessions: 'sessions',
+  vocabulary: 'vocabulary',
+  usage: 'usage',
+  recordings: 'recordings',
+  quizResults: 'quizResults'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Every learner profile has a database of its own, all with the same stores
+let dbName = DB_NAME;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the current database. The
+ * connection is shared until the database is switched.
+ */
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+      // Each block migrates from the previous version; never edit old blocks
+      if (oldVersion < 1) {
+        const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+        sessions.createIndex('startedAt', 'startedAt');
+      }
+      if (oldVersion < 2) {
+        const vocabulary = db.createObjectStore(STORES.vocabulary, { keyPath: 'id' });
+        vocabulary.createIndex('dueAt', 'dueAt');
+      }
+      if (oldVersion < 3) {
+        const usage = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+        usage.createIndex('timestamp', 'timestamp');
+      }
+      if (oldVersion < 4) {
+        const recordings = db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+        recordings.createIndex('sessionId', 'sessionId');
+      }
+      if (oldVersion < 5) {
+        const quizResults = db.createObjectStore(STORES.quizResults, { keyPath: 'id' });
+        quizResults.createIndex('timestamp', 'timestamp');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+const closeDb = () => {
+  dbPromise?.then(db => db.close(), () => {});
+  dbPromise = null;
+};
+
+/**
+ * Points every store at another database. The current connection is closed;
+ * the next request opens the new database.
+ */
+export function switchDatabase(name: string): void {
+  if (name === dbName) return;
+  closeDb();
+  dbName = name;
+}
+
+export function deleteDatabase(name: string): Promise<void> {
+  if (name === dbName) closeDb();
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against one object store and resolves once the
+ * transaction has committed.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(run(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
+
+/**
+ * Reads one record and writes back what `update` returns, in a single
+ * readwrite transaction so no other write can land in between. Nothing is
+ * written when `update` returns undefined. Resolves with the written record.
+ */
+export async function updateRecord<T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  update: (stored: T | undefined) => T | undefined
+): Promise<T | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  let updated: T | undefined;
+  const request = store.get(key);
+  request.onsuccess = () => {
+    updated = update(request.result as T | undefined);
+    if (updated !== undefined) store.put(updated);
+  };
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return updated;
+}
@@ -0,0 +1,97 @@
+import { LearnerProfile } from '../types';
+import { DB_NAME, deleteDatabase, switchDatabase } from './db';
+
+// The list is read before anyone is signed in, so it stays in localStorage
+const PROFILES_STORAGE_KEY = 'tutor_profiles';
+
+export type ProfileDraft = Pick<LearnerProfile, 'name' | 'nativeLanguage' | 'level' | 'accent' | 'goals'>;
+
+// The first profile adopts the history and settings stored before profiles existed
+export const FIRST_PROFILE_ID = 'default';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Registers a callback that runs after a profile is written or deleted.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToProfiles(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const databaseName = (profileId: string) => (profileId === FIRST_PROFILE_ID ? DB_NAME : `${DB_NAME}-${profileId}`);
+
+/**
+ * The localStorage key a setting of a profile is kept under. The first
+ * profile keeps the unsuffixed keys, so settings from before profiles stay
+ * with it.
+ */
+export const profileStorageKey = (key: string, profileId: string) =>
+  (profileId === FIRST_PROFILE_ID ? key : `${key}:${profileId}`);
+
+// Most recently used first
+export function listProfiles(): LearnerProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.sort((a: LearnerProfile, b: LearnerProfile) =>
+      (b.lastUsedAt ?? b.createdAt) - (a.lastUsedAt ?? a.createdAt));
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveProfile(profile: LearnerProfile): void {
+  const others = listProfiles().filter(p => p.id !== profile.id);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify([...others, profile]));
+  notify();
+}
+
+export const newProfileId = () => (listProfiles().length
+  ? `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  : FIRST_PROFILE_ID);
+
+/**
+ * Deletes a profile with its database and its settings. The unsuffixed
+ * settings of the first profile are left alone.
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(listProfiles().filter(p => p.id !== id)));
+  if (id !== FIRST_PROFILE_ID) {
+    Object.keys(localStorage)
+      .filter(key => key.endsWith(`:${id}`))
+      .forEach(key => localStorage.removeItem(key));
+  }
+  notify();
+  await deleteDatabase(databaseName(id));
+}
+
+/**
+ * Signs a profile in: every store now reads and writes its database.
+ */
+export function activateProfile(profile: LearnerProfile): LearnerProfile {
+  switchDatabase(databaseName(profile.id));
+  const active = { ...profile, lastUsedAt: Date.now() };
+  saveProfile(active);
+  return active;
+}
+
+/**
+ * The PIN keeps classmates out of each other's profiles on a shared tablet;
+ * it is not meant to stop someone with access to the browser's storage.
+ */
+export async function hashPin(profileId: string, pin: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${profileId}:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyPin(profile: LearnerProfile, pin: string): Promise<boolean> {
+  return !profile.pinHash || profile.pinHash === await hashPin(profile.id, pin);
+}
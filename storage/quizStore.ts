@@ -0,0 +1,28 @@
+import { QuizResult } from '../types';
+import { STORES, withStore } from './db';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Registers a callback that runs after a quiz answer is recorded.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToQuizResults(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Oldest first
+export async function listQuizResults(): Promise<QuizResult[]> {
+  return withStore<QuizResult[]>(STORES.quizResults, 'readonly', store => store.index('timestamp').getAll());
+}
+
+export async function addQuizResult(result: QuizResult): Promise<void> {
+  await withStore(STORES.quizResults, 'readwrite', store => store.put(result));
+  notify();
+}
@@ -0,0 +1,26 @@
+import { AudioRecording } from '../types';
+import { STORES, withStore } from './db';
+
+export const recordingId = (sessionId: string, messageId: string) => `${sessionId}/${messageId}`;
+
+export async function saveRecording(recording: AudioRecording): Promise<void> {
+  await withStore(STORES.recordings, 'readwrite', store => store.put(recording));
+}
+
+export async function getRecording(sessionId: string, messageId: string): Promise<AudioRecording | undefined> {
+  return withStore<AudioRecording | undefined>(STORES.recordings, 'readonly', store => store.get(recordingId(sessionId, messageId)));
+}
+
+export async function listRecordings(sessionId: string): Promise<AudioRecording[]> {
+  const recordings = await withStore<AudioRecording[]>(
+    STORES.recordings,
+    'readonly',
+    store => store.index('sessionId').getAll(sessionId)
+  );
+  return recordings.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Ids share the session prefix, so one key range covers the whole session
+export async function deleteRecordings(sessionId: string): Promise<void> {
+  await withStore(STORES.recordings, 'readwrite', store => store.delete(IDBKeyRange.bound(`${sessionId}/`, `${sessionId}/\uffff`)));
+}
@@ -0,0 +1,80 @@
+import { CefrLevel, ChatMessage, TutorSession } from '../types';
+import { STORES, updateRecord, withStore } from './db';
+import { deleteRecordings } from './recordingStore';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Registers a callback that runs after any session is written or deleted.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToSessions(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const newSessionId = (startedAt: number) => `session-${startedAt}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function createSession(scenarioId: string, level: CefrLevel, messages: ChatMessage[] = []): TutorSession {
+  const startedAt = Date.now();
+  return {
+    id: newSessionId(startedAt),
+    title: new Date(startedAt).toLocaleString(),
+    scenarioId,
+    level,
+    startedAt,
+    endedAt: null,
+    messages
+  };
+}
+
+export async function listSessions(): Promise<TutorSession[]> {
+  const sessions = await withStore<TutorSession[]>(STORES.sessions, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSession(id: string): Promise<TutorSession | undefined> {
+  return withStore<TutorSession | undefined>(STORES.sessions, 'readonly', store => store.get(id));
+}
+
+export async function saveSession(session: TutorSession): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', store => store.put(session));
+  notify();
+}
+
+/**
+ * Stores an imported session under a fresh id, so importing a file twice, or
+ * one exported from this device, never overwrites a stored session.
+ */
+export async function importSession(session: TutorSession): Promise<TutorSession> {
+  const imported = { ...session, id: newSessionId(session.startedAt) };
+  await saveSession(imported);
+  return imported;
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  await patchSession(id, { title });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', store => store.delete(id));
+  await deleteRecordings(id);
+  notify();
+}
+
+/**
+ * Applies a partial update on top of the stored record within one
+ * transaction, so fields edited elsewhere (e.g. a rename from the sidebar) are
+ * not overwritten. Does
+ * nothing when the session is no longer stored, so a save still pending for
+ * a deleted session cannot bring it back.
+ */
+export async function patchSession(id: string, patch: Partial<TutorSession>): Promise<void> {
+  const updated = await updateRecord<TutorSession>(STORES.sessions, id, stored => stored && { ...stored, ...patch });
+  if (updated) notify();
+}
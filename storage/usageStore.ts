@@ -0,0 +1,31 @@
+import { UsageRecord } from '../types';
+import { STORES, withStore } from './db';
+
+// Usage records are kept apart from sessions so deleting a conversation does
+// not remove what it cost from the daily totals
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Registers a callback that runs after a usage record is written.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToUsage(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Oldest first
+export async function listUsage(): Promise<UsageRecord[]> {
+  return withStore<UsageRecord[]>(STORES.usage, 'readonly', store => store.index('timestamp').getAll());
+}
+
+export async function addUsageRecord(record: UsageRecord): Promise<void> {
+  await withStore(STORES.usage, 'readwrite', store => store.put(record));
+  notify();
+}
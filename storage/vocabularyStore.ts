@@ -0,0 +1,62 @@
+import { Correction, VocabularyCard } from '../types';
+import { CardDraft, correctionNote, createCard, normalizeTerm } from '../utils/srs';
+import { STORES, withStore } from './db';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Registers a callback that runs after any card is written or deleted.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToVocabulary(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function listCards(): Promise<VocabularyCard[]> {
+  const cards = await withStore<VocabularyCard[]>(STORES.vocabulary, 'readonly', store => store.getAll());
+  return cards.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getCard(id: string): Promise<VocabularyCard | undefined> {
+  return withStore<VocabularyCard | undefined>(STORES.vocabulary, 'readonly', store => store.get(id));
+}
+
+export async function saveCard(card: VocabularyCard): Promise<void> {
+  await withStore(STORES.vocabulary, 'readwrite', store => store.put(card));
+  notify();
+}
+
+export async function deleteCard(id: string): Promise<void> {
+  await withStore(STORES.vocabulary, 'readwrite', store => store.delete(id));
+  notify();
+}
+
+/**
+ * Adds a new card unless the term is already in the notebook, which keeps its
+ * review schedule. Resolves to whether a card was added.
+ */
+export async function addCard(draft: CardDraft): Promise<boolean> {
+  const id = normalizeTerm(draft.term);
+  if (!id || await getCard(id)) return false;
+  await saveCard(createCard(draft));
+  return true;
+}
+
+// Saves the corrected form of each correction, with the learner's sentence as context
+export async function collectCorrections(corrections: Correction[], context: string, sessionId: string | null): Promise<void> {
+  for (const correction of corrections) {
+    await addCard({
+      term: correction.corrected,
+      context,
+      note: correctionNote(correction),
+      source: 'correction',
+      sessionId
+    });
+  }
+}
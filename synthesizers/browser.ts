@@ -0,0 +1,50 @@
+import { Accent, SpeechSynthesizer } from '../types';
+
+const isSupported = () => typeof window !== 'undefined' && typeof window.speechSynthesis !== 'undefined';
+
+// Prefer a voice for the exact accent, then any English voice
+const pickVoice = (accent: Accent): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  const normalized = (lang: string) => lang.replace('_', '-').toLowerCase();
+  return voices.find(v => normalized(v.lang) === accent.toLowerCase())
+    ?? voices.find(v => normalized(v.lang).startsWith('en'));
+};
+
+/**
+ * Synthesizer backed by the browser's `speechSynthesis`. Quality varies by OS
+ * but it needs no network, so it is also the fallback for cloud TTS.
+ */
+export const createBrowserSynthesizer = ({ speed, accent }: { speed: number; accent: Accent }): SpeechSynthesizer => {
+  // Callbacks from utterances dropped by cancel() are ignored
+  let generation = 0;
+
+  return {
+    speak: (text, onDone) => {
+      if (!isSupported()) {
+        onDone();
+        return;
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = speed;
+      utterance.pitch = 1;
+      utterance.lang = accent;
+      const voice = pickVoice(accent);
+      if (voice) utterance.voice = voice;
+
+      const current = generation;
+      utterance.onend = utterance.onerror = () => {
+        if (current === generation) onDone();
+      };
+      window.speechSynthesis.speak(utterance);
+    },
+    cancel: () => {
+      generation += 1;
+      if (isSupported()) window.speechSynthesis.cancel();
+    },
+    dispose: () => {
+      generation += 1;
+      if (isSupported()) window.speechSynthesis.cancel();
+    }
+  };
+};
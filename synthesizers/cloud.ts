@@ -0,0 +1,148 @@
+import { SpeechSynthesizer, TtsSettings } from '../types';
+import { decodeBase64 } from '../utils/audioUtils';
+import { createPcmPlayer } from '../utils/pcmPlayer';
+import { errorFromResponse } from '../utils/errors';
+
+const PCM_SAMPLE_RATE = 24000;
+
+const ACCENT_INSTRUCTIONS: Record<TtsSettings['accent'], string> = {
+  'en-US': 'Speak with a neutral American English accent.',
+  'en-GB': 'Speak with a standard British English accent.',
+  'en-AU': 'Speak with an Australian English accent.',
+  'en-IN': 'Speak with an Indian English accent.'
+};
+
+interface CloudSynthesizerConfig {
+  settings: TtsSettings;
+  apiKey?: string;
+  // Used for a chunk whose request fails
+  fallback: SpeechSynthesizer;
+}
+
+/**
+ * Synthesizer for an OpenAI-compatible `/audio/speech` endpoint. Each text is
+ * requested as raw 24 kHz PCM as soon as it is queued; responses are streamed
+ * and scheduled back to back on one AudioContext so sentences play gaplessly
+ * and in order.
+ */
+export const createCloudSynthesizer = ({ settings, apiKey, fallback }: CloudSynthesizerConfig): SpeechSynthesizer => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/audio/speech`;
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass();
+
+  const player = createPcmPlayer(context, PCM_SAMPLE_RATE);
+
+  let generation = 0;
+  let playbackChain: Promise<void> = Promise.resolve();
+  let controllers = new Set<AbortController>();
+
+  const request = (text: string, signal: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    return fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        input: text,
+        voice: settings.voice,
+        speed: settings.speed,
+        instructions: ACCENT_INSTRUCTIONS[settings.accent],
+        response_format: 'pcm'
+      }),
+      signal
+    });
+  };
+
+  const playResponse = async (response: Response, isCurrent: () => boolean): Promise<AudioBufferSourceNode | null> => {
+    // Some compatible servers answer with JSON carrying base64 audio
+    if ((response.headers.get('Content-Type') ?? '').includes('application/json')) {
+      const data = await response.json();
+      const audio = data?.audio ?? data?.data;
+      if (typeof audio !== 'string') throw new Error('Speech response has no audio');
+      return isCurrent() ? player.enqueue(decodeBase64(audio)) : null;
+    }
+
+    if (!response.body) throw new Error('Speech response has no body');
+    const reader = response.body.getReader();
+    let last: AudioBufferSourceNode | null = null;
+    // Int16 samples can straddle network chunks; carry the odd byte over
+    let carry: Uint8Array | null = null;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || !isCurrent()) break;
+
+      let bytes = value;
+      if (carry) {
+        bytes = new Uint8Array(carry.length + value.length);
+        bytes.set(carry);
+        bytes.set(value, carry.length);
+        carry = null;
+      }
+      const evenLength = bytes.length - (bytes.length % 2);
+      if (evenLength < bytes.length) carry = bytes.slice(evenLength);
+      if (evenLength > 0) {
+        // Copy so the Int16 view starts at offset 0 of its own buffer
+        last = player.enqueue(bytes.slice(0, evenLength));
+      }
+    }
+    return last;
+  };
+
+  const speak = (text: string, onDone: () => void) => {
+    const current = generation;
+    const isCurrent = () => current === generation;
+    const controller = new AbortController();
+    controllers.add(controller);
+
+    // Start the request now; play it once everything before it is scheduled
+    const pending = request(text, controller.signal);
+    if (context.state === 'suspended') context.resume();
+
+    playbackChain = playbackChain.then(async () => {
+      if (!isCurrent()) return;
+      try {
+        const response = await pending;
+        if (!response.ok) throw await errorFromResponse(response, 'Speech');
+        const last = await playResponse(response, isCurrent);
+        if (!isCurrent()) return;
+        if (last) {
+          last.addEventListener('ended', () => {
+            if (isCurrent()) onDone();
+          });
+        } else {
+          onDone();
+        }
+      } catch (e) {
+        if (!isCurrent()) return;
+        console.warn('Cloud TTS failed, using browser speech', e);
+        fallback.speak(text, () => {
+          if (isCurrent()) onDone();
+        });
+      } finally {
+        controllers.delete(controller);
+      }
+    });
+  };
+
+  const cancel = () => {
+    generation += 1;
+    controllers.forEach(c => c.abort());
+    controllers = new Set();
+    player.stop();
+    playbackChain = Promise.resolve();
+    fallback.cancel();
+  };
+
+  return {
+    speak,
+    cancel,
+    analyser: player.analyser,
+    dispose: () => {
+      cancel();
+      fallback.dispose();
+      context.close();
+    }
+  };
+};
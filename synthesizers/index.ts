@@ -0,0 +1,40 @@
+import { Accent, SpeechSynthesizer, SynthesizerEngine, TtsSettings } from '../types';
+import { createBrowserSynthesizer } from './browser';
+import { createCloudSynthesizer } from './cloud';
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  engine: 'browser',
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'gpt-4o-mini-tts',
+  voice: 'coral',
+  speed: 1,
+  accent: 'en-US'
+};
+
+export const SYNTHESIZER_ENGINES: Record<SynthesizerEngine, string> = {
+  browser: 'Browser voice',
+  cloud: 'Cloud TTS (OpenAI-compatible)'
+};
+
+export const TTS_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'];
+
+export const ACCENTS: Record<Accent, string> = {
+  'en-US': 'American',
+  'en-GB': 'British',
+  'en-AU': 'Australian',
+  'en-IN': 'Indian'
+};
+
+export const createSynthesizer = (settings: TtsSettings, apiKey: string): SpeechSynthesizer => {
+  const browser = createBrowserSynthesizer({ speed: settings.speed, accent: settings.accent });
+  if (settings.engine === 'browser') return browser;
+  return createCloudSynthesizer({
+    settings: {
+      ...settings,
+      baseUrl: settings.baseUrl || DEFAULT_TTS_SETTINGS.baseUrl,
+      model: settings.model || DEFAULT_TTS_SETTINGS.model
+    },
+    apiKey,
+    fallback: browser
+  });
+};
@@ -1,21 +1,403 @@
+import type { TutorError } from './utils/errors';
+
+export type RecognizerEngine = 'auto' | 'browser' | 'whisper';
+
+// Hands-free listens continuously; push-to-talk only while a key or button is held
+export type InputMode = 'hands-free' | 'push-to-talk';
+
+export interface TranscriptionSettings {
+  engine: RecognizerEngine;
+  // Base URL of a Whisper-compatible API (serves /audio/transcriptions)
+  baseUrl: string;
+  model: string;
+  // Recognition language, so students can practice toward a target accent
+  lang: Accent;
+  inputMode: InputMode;
+}
+
+export interface RecognizerEvents {
+  onStart: () => void;
+  onResult: (transcript: string, isFinal: boolean) => void;
+  // After stop(), called once the final result for the captured audio is in
+  onEnd: () => void;
+  // Not called for aborts requested through abort() or dispose()
+  onError: (error: TutorError) => void;
+}
+
+/**
+ * Common surface of the browser and server-side recognizers. `abort` discards
+ * any audio not yet transcribed; `stop` finishes the current utterance first.
+ */
+export interface SpeechRecognizer {
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  // Aborts and detaches all events; the recognizer cannot be used afterwards
+  dispose: () => void;
+}
+
+export type Accent = 'en-US' | 'en-GB' | 'en-AU' | 'en-IN';
+
+// Interface language, also used for the native-language correction explanations
+export type UiLocale = 'en' | 'es';
+
+export type SynthesizerEngine = 'browser' | 'cloud';
+
+export interface TtsSettings {
+  engine: SynthesizerEngine;
+  // Base URL of an OpenAI-compatible API (serves /audio/speech)
+  baseUrl: string;
+  model: string;
+  voice: string;
+  // Playback rate, 1 = normal
+  speed: number;
+  accent: Accent;
+}
+
+/**
+ * Speaks text queued one chunk at a time. `onDone` fires once per call when
+ * that chunk finished playing (or failed); it does not fire after `cancel`.
+ */
+export interface SpeechSynthesizer {
+  speak: (text: string, onDone: () => void) => void;
+  cancel: () => void;
+  dispose: () => void;
+  // Tap on the speech output, for engines that play through Web Audio
+  // (browser speech cannot be tapped)
+  analyser?: AnalyserNode;
+}
+
+export type SessionMode = 'pipeline' | 'realtime';
+
+export interface RealtimeSettings {
+  // "pipeline" is STT -> chat completion -> TTS; "realtime" streams audio both ways
+  mode: SessionMode;
+  // WebSocket URL of an OpenAI Realtime-style endpoint
+  url: string;
+  model: string;
+}
+
+export type CorrectionCategory =
+  | 'grammar'
+  | 'verb-tense'
+  | 'word-choice'
+  | 'word-order'
+  | 'preposition'
+  | 'article'
+  | 'agreement'
+  | 'other';
+
+export interface Correction {
+  // Span exactly as the learner said it
+  original: string;
+  corrected: string;
+  category: CorrectionCategory;
+  explanation: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   isComplete: boolean;
   timestamp: number;
+  // Set on user messages once the tutor's reply has been parsed
+  corrections?: Correction[];
+  // Spanish translation of a tutor message, fetched when the learner taps it
+  translation?: string;
+  // Speaking metrics of a spoken user message (typed messages have none)
+  fluency?: UtteranceFluency;
+  // Tokens billed for the request that produced a tutor message
+  usage?: TokenUsage;
+  // A recording of the message is stored (the learner's voice, or the
+  // tutor's in realtime mode)
+  hasAudio?: boolean;
+}
+
+export interface UtteranceFluency {
+  wordCount: number;
+  // null when the recognizer reported no timing (final results only)
+  durationMs: number | null;
+  wordsPerMinute: number | null;
+  // Gaps between recognition results long enough to count as pauses
+  pausesMs: number[];
+  fillerCount: number;
+  fillers: Record<string, number>;
+}
+
+export interface SessionFluency {
+  utteranceCount: number;
+  totalWords: number;
+  wordsPerMinute: number | null;
+  averageUtteranceWords: number;
+  pauseCount: number;
+  averagePauseMs: number;
+  longestPauseMs: number;
+  fillerCount: number;
+  fillersPer100Words: number;
+  fillers: Record<string, number>;
+  // Distinct words / total words, a rough measure of vocabulary diversity
+  typeTokenRatio: number;
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface Scenario {
+  id: string;
+  title: string;
+  description: string;
+  // Who the tutor plays in this scenario
+  role: string;
+  goals: string[];
+  targetVocabulary: string[];
+  openingLine: string;
+}
+
+// Model-written summary of the turns that are no longer sent verbatim
+export interface ConversationSummary {
+  text: string;
+  // Timestamp of the last message folded into the summary
+  coveredUntil: number;
+  // Id of that message; summaries saved before it existed fall back to the timestamp
+  coveredMessageId?: string;
+  updatedAt: number;
+}
+
+export interface MistakeGroup {
+  category: CorrectionCategory;
+  count: number;
+  // A few original → corrected pairs, most recent first
+  examples: { original: string; corrected: string }[];
+}
+
+// Feedback written when a session ends, kept with the session
+export interface SessionReport {
+  generatedAt: number;
+  summary: string;
+  mistakes: MistakeGroup[];
+  newVocabulary: string[];
+  focusAreas: string[];
+  fluency: SessionFluency | null;
+}
+
+// A student sharing the device; each has their own history, vocabulary and settings
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  // As the student writes it, e.g. "Spanish"; told to the tutor
+  nativeLanguage: string;
+  level: CefrLevel;
+  // Default voice and recognition accent for the profile's settings
+  accent: Accent;
+  goals: string;
+  // SHA-256 of the PIN, or null for an open profile
+  pinHash: string | null;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+export interface TutorSession {
+  id: string;
+  title: string;
+  scenarioId: string;
+  level: CefrLevel;
+  startedAt: number;
+  // null while the session is still running
+  endedAt: number | null;
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
+  report?: SessionReport;
+}
+
+// Audio of one chat message, stored apart from the session because of its size
+export interface AudioRecording {
+  // `${sessionId}/${messageId}`
+  id: string;
+  sessionId: string;
+  messageId: string;
+  role: 'user' | 'model';
+  // WAV
+  blob: Blob;
+  durationMs: number;
+  createdAt: number;
+}
+
+export type VocabularySource = 'saved' | 'correction';
+
+// Notebook entry, scheduled for review with SM-2
+export interface VocabularyCard {
+  // Normalized term, so the same word is only saved once
+  id: string;
+  term: string;
+  // Sentence the term was seen in
+  context: string;
+  // Correction explanation or other note shown on the back of the card
+  note?: string;
+  source: VocabularySource;
+  sessionId: string | null;
+  createdAt: number;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt: number | null;
+}
+
+// SM-2 recall quality: below 3 is a lapse
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type ExerciseType = 'fill-blank' | 'multiple-choice' | 'reorder' | 'fix-sentence';
+
+// One quiz item, made from a mistake the learner made in a conversation
+export interface Exercise {
+  id: string;
+  type: ExerciseType;
+  category: CorrectionCategory;
+  // Sentence with a ___ gap (fill-blank, multiple-choice) or the sentence to
+  // fix; reorder exercises have none
+  prompt: string;
+  // Choices for multiple-choice, shuffled words for reorder
+  options: string[];
+  answer: string;
+  explanation: string;
+  // Session the mistake comes from
+  sessionId: string | null;
+}
+
+// A graded quiz answer, kept for the per-category mastery
+export interface QuizResult {
+  id: string;
+  timestamp: number;
+  exerciseType: ExerciseType;
+  category: CorrectionCategory;
+  prompt: string;
+  answer: string;
+  // What the learner typed, picked or said
+  response: string;
+  correct: boolean;
+  // Answered through speech recognition
+  spoken: boolean;
+  sessionId: string | null;
+}
+
+// Speech recognition of a single quiz answer, outside the conversation
+export interface Dictation {
+  // Finishes the answer; the final text follows through onEnd
+  stop: () => void;
+  // Discards the answer and releases the microphone
+  cancel: () => void;
+}
+
+export interface DictationEvents {
+  // Everything recognized so far, including interim words
+  onText: (text: string) => void;
+  onEnd: (text: string) => void;
+  onError: (error: TutorError) => void;
+}
+
+export type MasteryLevel = 'new' | 'learning' | 'practicing' | 'mastered';
+
+export interface CategoryMastery {
+  category: CorrectionCategory;
+  attempts: number;
+  correct: number;
+  // Share of recent answers that were right, 0-1
+  score: number;
+  level: MasteryLevel;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What a chat request was for; the conversation includes its summaries
+export type UsagePurpose = 'conversation' | 'summary' | 'translation' | 'report' | 'quiz';
+
+// One billed chat request, kept for the usage history and CSV export
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  timestamp: number;
+  sessionId: string | null;
+  provider: LlmProviderId;
+  model: string;
+  purpose: UsagePurpose;
+  // Estimated with the price table in effect at the time; null for unpriced models
+  costUsd: number | null;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageSettings {
+  // Keyed by model name; models missing here are not priced
+  prices: Record<string, ModelPrice>;
+  // Per-session budget in USD; 0 turns the check off
+  warnAtUsd: number;
+  capUsd: number;
 }
 
 export enum ConnectionState {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
   CONNECTED = 'connected',
+  // Connected, but recovering from a dropped request or recognizer
+  RECONNECTING = 'reconnecting',
   ERROR = 'error',
 }
 
+export type LlmProviderId = 'openai' | 'gemini' | 'openai-compatible' | 'mock';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  // Base URL of the API (e.g. http://localhost:11434/v1 for Ollama)
+  baseUrl: string;
+  temperature: number;
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature: number;
+  signal?: AbortSignal;
+  // Called with the accumulated reply text after each streamed chunk
+  onDelta?: (text: string) => void;
+  // Called once with the token counts, when the API reports them
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  streamChat: (request: LlmRequest) => Promise<string>;
+}
+
+// Whose turn it is while connected. Recognition is suspended while the
+// tutor speaks so it does not transcribe its own voice.
+export enum TurnState {
+  LISTENING = 'listening',
+  THINKING = 'thinking',
+  TUTOR_SPEAKING = 'tutor-speaking',
+}
+
+export type VisualizerMode = 'waveform' | 'bars';
+
 export interface AudioVisualizerProps {
-  isSpeaking: boolean;
-  volume: number;
+  // Drawn while the learner has the turn
+  micAnalyser: AnalyserNode | null;
+  // Drawn while the tutor speaks; null when its voice cannot be tapped
+  outputAnalyser: AnalyserNode | null;
+  isTutorSpeaking: boolean;
+  isMicOn: boolean;
+  mode: VisualizerMode;
+  onModeChange: (mode: VisualizerMode) => void;
 }
 
 export interface ControlBarProps {
@@ -48,10 +48,9 @@ export function pcmToAudioBuffer(
 }
 
 /**
- * Converts Float32 audio data (from microphone) to Int16 PCM base64 string.
- * Useful when sending microphone PCM payloads to speech APIs.
+ * Scales Float32 samples in [-1, 1] to Int16.
  */
-export function float32ToPCM16(float32Data: Float32Array): { base64: string; blob: Blob } {
+export function float32ToInt16(float32Data: Float32Array): Int16Array {
   const l = float32Data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -59,8 +58,15 @@ export function float32ToPCM16(float32Data: Float32Array): { base64: string; blo
     const s = Math.max(-1, Math.min(1, float32Data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
-  
-  const uint8 = new Uint8Array(int16.buffer);
+  return int16;
+}
+
+/**
+ * Converts Float32 audio data (from microphone) to Int16 PCM base64 string.
+ * Useful when sending microphone PCM payloads to speech APIs.
+ */
+export function float32ToPCM16(float32Data: Float32Array): { base64: string; blob: Blob } {
+  const uint8 = new Uint8Array(float32ToInt16(float32Data).buffer);
   const base64 = encodeBase64(uint8);
   
   return {
@@ -68,3 +74,65 @@ export function float32ToPCM16(float32Data: Float32Array): { base64: string; blo
     blob: new Blob([uint8], { type: 'audio/pcm;rate=16000' }) // MIME type hint (not strictly used by Blob itself but good for ref)
   };
 }
+
+/**
+ * Wraps 16-bit little-endian mono PCM in a WAV container.
+ */
+export function pcm16ToWav(pcm: Uint8Array, sampleRate: number = 16000): Blob {
+  const dataSize = pcm.byteLength;
+  const header = new DataView(new ArrayBuffer(44));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);           // fmt chunk size
+  header.setUint16(20, 1, true);            // PCM
+  header.setUint16(22, 1, true);            // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true);            // block align
+  header.setUint16(34, 16, true);           // bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+}
+
+/**
+ * Wraps Float32 mono samples in a 16-bit PCM WAV container.
+ */
+export function encodeWav(float32Data: Float32Array, sampleRate: number = 16000): Blob {
+  return pcm16ToWav(new Uint8Array(float32ToInt16(float32Data).buffer), sampleRate);
+}
+
+/**
+ * Root-mean-square level of a block of samples, 0 for silence.
+ */
+export function rmsOf(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/**
+ * Joins sample blocks into one buffer.
+ */
+export function concatSamples(chunks: Float32Array[]): Float32Array {
+  const total = chunks.reduce((n, c) => n + c.length, 0);
+  const out = new Float32Array(total);
+  let offset = 0;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+}
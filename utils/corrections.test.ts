@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Correction } from '../types';
+import { applyCorrections, buildCorrectionSegments, CORRECTIONS_MARKER, formatModelTurn, parseCorrections, splitReply } from './corrections';
+
+const correction = (original: string, corrected: string): Correction => ({ original, corrected, category: 'grammar', explanation: '' });
+
+describe('splitReply', () => {
+  it('separates the spoken reply from the corrections JSON', () => {
+    expect(splitReply(`Great job!\n${CORRECTIONS_MARKER}\n[]`)).toEqual({ reply: 'Great job!', correctionsJson: '[]' });
+  });
+
+  it('hides a marker that is still arriving while streaming', () => {
+    expect(splitReply('Great job!\n###CORR')).toEqual({ reply: 'Great job!', correctionsJson: null });
+  });
+
+  it('keeps a reply without a marker as it is', () => {
+    expect(splitReply('Great job! ')).toEqual({ reply: 'Great job! ', correctionsJson: null });
+  });
+});
+
+describe('parseCorrections', () => {
+  it('reads a fenced array and defaults unknown categories to other', () => {
+    const json = '```json\n[{"original": " I goed ", "corrected": "I went", "category": "verb-tense", "explanation": " Irregular. "}, {"original": "a", "corrected": "an", "category": "spelling"}]\n```';
+
+    expect(parseCorrections(json)).toEqual([
+      { original: 'I goed', corrected: 'I went', category: 'verb-tense', explanation: 'Irregular.' },
+      { original: 'a', corrected: 'an', category: 'other', explanation: '' }
+    ]);
+  });
+
+  it('drops malformed and no-op entries instead of failing the turn', () => {
+    const json = '[{"original": "same", "corrected": "same"}, {"original": 3, "corrected": "x"}, null, {"original": "is", "corrected": "are"}]';
+    expect(parseCorrections(json).map(c => c.corrected)).toEqual(['are']);
+  });
+
+  it('returns nothing for missing or broken JSON', () => {
+    expect(parseCorrections(null)).toEqual([]);
+    expect(parseCorrections('[{"original":')).toEqual([]);
+    expect(parseCorrections('{"original": "a", "corrected": "b"}')).toEqual([]);
+  });
+
+  it('reads back what formatModelTurn wrote', () => {
+    const corrections = [{ ...correction('goed', 'went'), category: 'verb-tense' as const }];
+    const { reply, correctionsJson } = splitReply(formatModelTurn('Nice!', corrections));
+
+    expect(reply).toBe('Nice!');
+    expect(parseCorrections(correctionsJson)).toEqual(corrections);
+  });
+});
+
+describe('buildCorrectionSegments', () => {
+  it('marks the corrected spans in order, ignoring case', () => {
+    expect(buildCorrectionSegments('Yesterday I goed to Park', [correction('park', 'the park'), correction('goed', 'went')])).toEqual([
+      { type: 'text', text: 'Yesterday I ' },
+      { type: 'change', original: 'goed', corrected: 'went' },
+      { type: 'text', text: ' to ' },
+      { type: 'change', original: 'Park', corrected: 'the park' }
+    ]);
+  });
+
+  it('skips corrections that cannot be found or overlap an earlier one', () => {
+    const segments = buildCorrectionSegments('he go home', [correction('he go', 'he goes'), correction('go home', 'goes home'), correction('missing', 'x')]);
+    expect(segments.filter(s => s.type === 'change')).toHaveLength(1);
+  });
+
+  it('matches a repeated span at its next free occurrence', () => {
+    expect(applyCorrections('he go and she go', [correction('go', 'goes'), correction('go', 'goes')])).toBe('he goes and she goes');
+  });
+});
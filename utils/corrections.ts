@@ -0,0 +1,137 @@
+import { Correction, CorrectionCategory } from '../types';
+
+/**
+ * Line the model writes between its spoken reply and the JSON corrections.
+ * A plain-text marker (instead of a JSON response format) keeps the reply
+ * streamable: everything before it can be shown and spoken right away.
+ */
+export const CORRECTIONS_MARKER = '###CORRECTIONS###';
+
+export const CORRECTION_CATEGORIES: CorrectionCategory[] = [
+  'grammar',
+  'verb-tense',
+  'word-choice',
+  'word-order',
+  'preposition',
+  'article',
+  'agreement',
+  'other'
+];
+
+export const CORRECTIONS_INSTRUCTION = `Format every response like this:
+1. Your spoken reply to the user, in plain text.
+2. A line containing only ${CORRECTIONS_MARKER}
+3. A JSON array of corrections for the user's LAST message, e.g.
+[{"original": "I goed", "corrected": "I went", "category": "verb-tense", "explanation": "'Go' is irregular: the past tense is 'went'."}]
+"original" must be copied exactly from the user's message. "category" is one of: ${CORRECTION_CATEGORIES.join(', ')}.
+Keep each explanation to one short sentence. Use [] when there is nothing to correct.`;
+
+/**
+ * Splits raw model output into the visible reply and the corrections JSON.
+ * While streaming, a partially received marker at the end is hidden too.
+ */
+export function splitReply(raw: string): { reply: string; correctionsJson: string | null } {
+  const markerIndex = raw.indexOf(CORRECTIONS_MARKER);
+  if (markerIndex !== -1) {
+    return {
+      reply: raw.slice(0, markerIndex).trim(),
+      correctionsJson: raw.slice(markerIndex + CORRECTIONS_MARKER.length).trim()
+    };
+  }
+
+  for (let len = CORRECTIONS_MARKER.length - 1; len > 0; len--) {
+    if (raw.endsWith(CORRECTIONS_MARKER.slice(0, len))) {
+      return { reply: raw.slice(0, raw.length - len).trimEnd(), correctionsJson: null };
+    }
+  }
+  return { reply: raw, correctionsJson: null };
+}
+
+/**
+ * Parses and validates the corrections array. Malformed entries are dropped
+ * rather than failing the whole turn.
+ */
+export function parseCorrections(json: string | null): Correction[] {
+  if (!json) return [];
+
+  // Models sometimes wrap the JSON in a code fence
+  const cleaned = json.replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '').trim();
+  let data: unknown;
+  try {
+    data = JSON.parse(cleaned);
+  } catch (e) {
+    return [];
+  }
+  if (!Array.isArray(data)) return [];
+
+  return data.flatMap((item: any): Correction[] => {
+    if (!item || typeof item.original !== 'string' || typeof item.corrected !== 'string') return [];
+    if (item.original.trim() === item.corrected.trim()) return [];
+    const category = CORRECTION_CATEGORIES.includes(item.category) ? item.category : 'other';
+    return [{
+      original: item.original.trim(),
+      corrected: item.corrected.trim(),
+      category,
+      explanation: typeof item.explanation === 'string' ? item.explanation.trim() : ''
+    }];
+  });
+}
+
+/**
+ * Re-serializes a tutor turn in the format the model was asked to produce,
+ * so the conversation history stays consistent with the instructions.
+ */
+export function formatModelTurn(reply: string, corrections: Correction[] | undefined): string {
+  return `${reply}\n${CORRECTIONS_MARKER}\n${JSON.stringify(corrections ?? [])}`;
+}
+
+export type CorrectionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'change'; original: string; corrected: string };
+
+/**
+ * Splits a user's sentence into unchanged text and corrected spans for
+ * rendering an inline diff. Corrections whose span cannot be found in the
+ * text are skipped.
+ */
+export function buildCorrectionSegments(text: string, corrections: Correction[]): CorrectionSegment[] {
+  const lower = text.toLowerCase();
+  const spans: { start: number; end: number; correction: Correction }[] = [];
+
+  corrections.forEach(correction => {
+    const needle = correction.original.toLowerCase();
+    if (!needle) return;
+    let from = 0;
+    while (from <= lower.length) {
+      const start = lower.indexOf(needle, from);
+      if (start === -1) return;
+      const end = start + needle.length;
+      if (!spans.some(s => start < s.end && end > s.start)) {
+        spans.push({ start, end, correction });
+        return;
+      }
+      from = start + 1;
+    }
+  });
+
+  spans.sort((a, b) => a.start - b.start);
+
+  const segments: CorrectionSegment[] = [];
+  let cursor = 0;
+  spans.forEach(({ start, end, correction }) => {
+    if (start > cursor) segments.push({ type: 'text', text: text.slice(cursor, start) });
+    segments.push({ type: 'change', original: text.slice(start, end), corrected: correction.corrected });
+    cursor = end;
+  });
+  if (cursor < text.length) segments.push({ type: 'text', text: text.slice(cursor) });
+  return segments;
+}
+
+/**
+ * Returns the learner's sentence with every locatable correction applied.
+ */
+export function applyCorrections(text: string, corrections: Correction[]): string {
+  return buildCorrectionSegments(text, corrections)
+    .map(segment => segment.type === 'text' ? segment.text : segment.corrected)
+    .join('');
+}
@@ -0,0 +1,156 @@
+export type TutorErrorKind =
+  | 'invalid-key'
+  | 'rate-limit'
+  | 'quota'
+  | 'network'
+  | 'server'
+  | 'mic-denied'
+  | 'mic-unavailable'
+  | 'recognizer-aborted'
+  | 'unsupported'
+  // The session went past its spending warning or hard cap
+  | 'budget-warning'
+  | 'budget'
+  | 'unknown';
+
+/**
+ * Error with a machine-readable kind so the UI can explain what went wrong
+ * and callers can decide whether to retry.
+ */
+export class TutorError extends Error {
+  kind: TutorErrorKind;
+  status?: number;
+  // From a Retry-After header, when the server sent one
+  retryAfterMs?: number;
+
+  constructor(kind: TutorErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'TutorError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'network' || this.kind === 'server';
+  }
+
+  // Errors that make continuing the session pointless until the user acts
+  get fatal(): boolean {
+    return this.kind === 'invalid-key'
+      || this.kind === 'quota'
+      || this.kind === 'mic-denied'
+      || this.kind === 'mic-unavailable'
+      || this.kind === 'unsupported'
+      || this.kind === 'budget';
+  }
+}
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Builds a TutorError from a non-OK HTTP response, reading the OpenAI/Gemini
+ * style `{ error: { code, message } }` body when there is one.
+ */
+export async function errorFromResponse(response: Response, service: string): Promise<TutorError> {
+  let code = '';
+  let detail = '';
+  try {
+    const data = await response.json();
+    const error = Array.isArray(data) ? data[0]?.error : data?.error;
+    code = String(error?.code ?? error?.type ?? error?.status ?? '');
+    detail = error?.message ?? '';
+  } catch (e) {
+    // body was not JSON
+  }
+
+  const status = response.status;
+  const message = `${service} request failed (${status})${detail ? `: ${detail}` : ''}`;
+  const options = { status, retryAfterMs: parseRetryAfter(response) };
+
+  if (status === 401 || status === 403 || code === 'invalid_api_key' || code === 'PERMISSION_DENIED') {
+    return new TutorError('invalid-key', message, options);
+  }
+  if (code === 'insufficient_quota' || (code === 'RESOURCE_EXHAUSTED' && /quota/i.test(detail))) {
+    return new TutorError('quota', message, options);
+  }
+  if (status === 429) return new TutorError('rate-limit', message, options);
+  if (status >= 500) return new TutorError('server', message, options);
+  return new TutorError('unknown', message, options);
+}
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+/**
+ * Normalizes anything thrown by fetch, getUserMedia or our own code.
+ */
+export function toTutorError(e: unknown): TutorError {
+  if (e instanceof TutorError) return e;
+  if (e instanceof DOMException) {
+    if (e.name === 'NotAllowedError' || e.name === 'SecurityError') {
+      return new TutorError('mic-denied', 'Microphone permission denied');
+    }
+    if (e.name === 'NotFoundError' || e.name === 'NotReadableError' || e.name === 'OverconstrainedError') {
+      return new TutorError('mic-unavailable', 'No usable microphone');
+    }
+  }
+  // fetch rejects with a TypeError when the network is down or CORS fails
+  if (e instanceof TypeError) return new TutorError('network', e.message);
+  return new TutorError('unknown', e instanceof Error ? e.message : String(e));
+}
+
+// Resolves after `ms`, or rejects with an AbortError when the signal fires first
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  // Lets the caller refuse a retry, e.g. once part of a stream was consumed
+  shouldRetry?: (error: TutorError) => boolean;
+  onRetry?: (error: TutorError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs `task`, retrying retryable TutorErrors with exponential backoff and
+ * jitter. Honors Retry-After and stops immediately when `signal` aborts.
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 500, signal, shouldRetry, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (signal?.aborted || isAbortError(e)) throw e;
+      const error = toTutorError(e);
+      if (attempt >= retries || !error.retryable || (shouldRetry && !shouldRetry(error))) throw error;
+
+      const backoff = baseDelayMs * 2 ** attempt;
+      const delayMs = Math.max(error.retryAfterMs ?? 0, backoff + Math.random() * backoff * 0.3);
+      onRetry?.(error, attempt + 1, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
+}
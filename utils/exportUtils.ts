@@ -0,0 +1,232 @@
+import { AudioRecording, ChatMessage, Correction, TutorSession } from '../types';
+import { applyCorrections, CORRECTION_CATEGORIES } from './corrections';
+import { computeSessionFluency } from './fluency';
+import { CEFR_LEVELS, DEFAULT_LEVEL, DEFAULT_SCENARIO_ID, getScenario } from './scenarios';
+import { createZip, ZipEntry } from './zip';
+
+export type ExportFormat = 'markdown' | 'json' | 'vtt' | 'anki';
+
+// Bumped whenever the JSON layout changes in a way importers must know about
+const EXPORT_VERSION = 1;
+
+// Fallback cue length for the last message, from a typical speaking rate
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1500;
+
+const speakerLabel = (msg: ChatMessage) => (msg.role === 'model' ? 'Tutor' : 'You');
+
+export function toMarkdown(session: TutorSession): string {
+  const lines: string[] = [
+    `# ${session.title}`,
+    '',
+    `- **Started:** ${new Date(session.startedAt).toLocaleString()}`,
+    `- **Ended:** ${session.endedAt ? new Date(session.endedAt).toLocaleString() : 'In progress'}`,
+    `- **Scenario:** ${getScenario(session.scenarioId).title}`,
+    `- **Level:** ${session.level}`,
+    ''
+  ];
+
+  if (session.summary) {
+    lines.push('## Summary', '', session.summary.text, '');
+  }
+
+  const fluency = computeSessionFluency(session.messages);
+  if (fluency) {
+    lines.push(
+      '## Fluency',
+      '',
+      `- **Words per minute:** ${fluency.wordsPerMinute ?? 'n/a'}`,
+      `- **Spoken turns:** ${fluency.utteranceCount} (average ${fluency.averageUtteranceWords} words)`,
+      `- **Vocabulary diversity (type/token):** ${fluency.typeTokenRatio}`,
+      `- **Pauses:** ${fluency.pauseCount} (average ${(fluency.averagePauseMs / 1000).toFixed(1)} s, longest ${(fluency.longestPauseMs / 1000).toFixed(1)} s)`,
+      `- **Filler words:** ${fluency.fillerCount} (${fluency.fillersPer100Words} per 100 words)`,
+      ''
+    );
+  }
+
+  if (session.summary || fluency) {
+    lines.push('## Conversation', '');
+  }
+
+  session.messages.forEach(msg => {
+    const time = new Date(msg.timestamp).toLocaleTimeString();
+    lines.push(`**${speakerLabel(msg)}** _(${time})_: ${msg.text}`, '');
+    if (msg.corrections?.length) {
+      msg.corrections.forEach(c => {
+        lines.push(`> ~~${c.original}~~ → **${c.corrected}** (${c.category})${c.explanation ? ` — ${c.explanation}` : ''}`);
+      });
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+export function toJson(session: TutorSession): string {
+  return JSON.stringify({ version: EXPORT_VERSION, session }, null, 2);
+}
+
+const formatVttTime = (ms: number): string => {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+};
+
+/**
+ * WebVTT captions timed relative to the session start. A cue lasts until the
+ * next message begins; the last one gets an estimate from its word count.
+ */
+export function toWebVtt(session: TutorSession): string {
+  const cues = session.messages.map((msg, i) => {
+    const start = msg.timestamp - session.startedAt;
+    const next = session.messages[i + 1];
+    const estimated = (msg.text.split(/\s+/).length / WORDS_PER_SECOND) * 1000;
+    const end = next
+      ? Math.max(next.timestamp - session.startedAt, start + 1)
+      : start + Math.max(estimated, MIN_CUE_MS);
+    // Cue text must not contain a blank line or "-->"
+    const text = msg.text.replace(/-->/g, '→').replace(/\n\s*\n/g, '\n');
+    return `${i + 1}\n${formatVttTime(start)} --> ${formatVttTime(end)}\n<v ${speakerLabel(msg)}>${text}`;
+  });
+
+  return ['WEBVTT', '', ...cues.flatMap(cue => [cue, ''])].join('\n');
+}
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const describeCorrections = (corrections: Correction[]) =>
+  corrections
+    .map(c => `${c.original} → ${c.corrected}${c.explanation ? `: ${c.explanation}` : ''}`)
+    .join('<br>');
+
+/**
+ * Anki-importable CSV: front is what the learner said, back is the corrected
+ * sentence with explanations, and the error categories become tags.
+ */
+export function toAnkiCsv(session: TutorSession): string {
+  const rows = session.messages
+    .filter(msg => msg.role === 'user' && msg.corrections?.length)
+    .map(msg => {
+      const corrections = msg.corrections as Correction[];
+      const back = `${applyCorrections(msg.text, corrections)}<br><br>${describeCorrections(corrections)}`;
+      const tags = Array.from(new Set(corrections.map(c => c.category))).join(' ');
+      return [csvField(msg.text), csvField(back), csvField(tags)].join(',');
+    });
+
+  return ['#separator:comma', '#html:true', '#tags column:3', ...rows].join('\n');
+}
+
+const isChatMessage = (value: any): value is ChatMessage =>
+  value
+  && typeof value.id === 'string'
+  && (value.role === 'user' || value.role === 'model')
+  && typeof value.text === 'string'
+  && typeof value.timestamp === 'number';
+
+/**
+ * Parses a file produced by `toJson`. Throws with a readable message when the
+ * file is not a session export.
+ */
+export function parseSessionJson(text: string): TutorSession {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const session = data?.session;
+  if (typeof data?.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error('Unsupported export version.');
+  }
+  if (!session || typeof session.id !== 'string' || typeof session.startedAt !== 'number' || !Array.isArray(session.messages)) {
+    throw new Error('The file does not contain a conversation.');
+  }
+
+  const messages: ChatMessage[] = session.messages.filter(isChatMessage).map((msg: ChatMessage) => ({
+    ...msg,
+    isComplete: true,
+    corrections: Array.isArray(msg.corrections)
+      ? msg.corrections.filter(c => c && typeof c.original === 'string' && typeof c.corrected === 'string')
+        .map(c => ({ ...c, category: CORRECTION_CATEGORIES.includes(c.category) ? c.category : 'other' }))
+      : undefined
+  }));
+
+  return {
+    id: session.id,
+    title: typeof session.title === 'string' ? session.title : new Date(session.startedAt).toLocaleString(),
+    scenarioId: typeof session.scenarioId === 'string' ? session.scenarioId : DEFAULT_SCENARIO_ID,
+    level: CEFR_LEVELS.includes(session.level) ? session.level : DEFAULT_LEVEL,
+    startedAt: session.startedAt,
+    endedAt: typeof session.endedAt === 'number' ? session.endedAt : null,
+    messages,
+    summary: typeof session.summary?.text === 'string' && typeof session.summary.coveredUntil === 'number'
+      ? {
+          text: session.summary.text,
+          coveredUntil: session.summary.coveredUntil,
+          coveredMessageId: typeof session.summary.coveredMessageId === 'string' ? session.summary.coveredMessageId : undefined,
+          updatedAt: session.summary.updatedAt ?? Date.now()
+        }
+      : undefined,
+    report: typeof session.report?.generatedAt === 'number' && Array.isArray(session.report.mistakes)
+      ? session.report
+      : undefined
+  };
+}
+
+const EXPORTERS: Record<ExportFormat, { build: (s: TutorSession) => string; extension: string; mime: string }> = {
+  markdown: { build: toMarkdown, extension: 'md', mime: 'text/markdown' },
+  json: { build: toJson, extension: 'json', mime: 'application/json' },
+  vtt: { build: toWebVtt, extension: 'vtt', mime: 'text/vtt' },
+  anki: { build: toAnkiCsv, extension: 'csv', mime: 'text/csv' }
+};
+
+export function downloadFile(filename: string, content: BlobPart, mime: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'conversation';
+
+export function exportSession(session: TutorSession, format: ExportFormat): void {
+  const { build, extension, mime } = EXPORTERS[format];
+  downloadFile(`${slugify(session.title)}.${extension}`, build(session), `${mime};charset=utf-8`);
+}
+
+/**
+ * Downloads a ZIP with the Markdown transcript, the JSON backup and one WAV
+ * per recorded message, numbered in conversation order.
+ */
+export async function exportSessionBundle(session: TutorSession, recordings: AudioRecording[]): Promise<void> {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { name: 'conversation.md', data: encoder.encode(toMarkdown(session)) },
+    { name: 'conversation.json', data: encoder.encode(toJson(session)) }
+  ];
+
+  const byMessage = new Map(recordings.map(recording => [recording.messageId, recording]));
+  const width = String(session.messages.length).length;
+  for (const [index, msg] of session.messages.entries()) {
+    const recording = byMessage.get(msg.id);
+    if (!recording) continue;
+    const number = String(index + 1).padStart(width, '0');
+    entries.push({
+      name: `audio/${number}-${speakerLabel(msg).toLowerCase()}.wav`,
+      data: new Uint8Array(await recording.blob.arrayBuffer())
+    });
+  }
+
+  downloadFile(`${slugify(session.title)}.zip`, createZip(entries), 'application/zip');
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { computeSessionFluency, countFillers, createUtteranceTimer, tokenize } from './fluency';
+
+describe('countFillers', () => {
+  it('counts hesitations and multi-word fillers once each', () => {
+    expect(countFillers('Um, you know, I mean it was uh fine')).toEqual({ 'you know': 1, 'i mean': 1, um: 1, uh: 1 });
+  });
+
+  it('only counts "like" set off by a comma or before a hesitation', () => {
+    expect(countFillers('I like pizza and it looks like rain')).toEqual({});
+    expect(countFillers('It was, like, huge')).toEqual({ like: 1 });
+    expect(countFillers('like um I think')).toEqual({ like: 1, um: 1 });
+  });
+
+  it('does not match fillers inside other words', () => {
+    expect(countFillers('The summer term was unlike any other')).toEqual({});
+  });
+});
+
+describe('tokenize', () => {
+  it('lowercases words and keeps contractions whole', () => {
+    expect(tokenize("I don't know, OK?")).toEqual(['i', "don't", 'know', 'ok']);
+  });
+});
+
+describe('createUtteranceTimer', () => {
+  it('times the utterance and records long gaps as pauses', () => {
+    const timer = createUtteranceTimer();
+    [0, 300, 1500, 1800, 3000].forEach(at => timer.mark(at));
+
+    expect(timer.finish('um I went to the shop yesterday')).toEqual({
+      wordCount: 7,
+      durationMs: 3000,
+      wordsPerMinute: 140,
+      pausesMs: [1200, 1200],
+      fillerCount: 1,
+      fillers: { um: 1 }
+    });
+  });
+
+  it('reports no rate without timing, as with final-only recognizers', () => {
+    const timer = createUtteranceTimer();
+    timer.mark(0);
+
+    expect(timer.finish('Hello there')).toMatchObject({ wordCount: 2, durationMs: null, wordsPerMinute: null });
+  });
+});
+
+describe('computeSessionFluency', () => {
+  const spoken = (text: string, durationMs: number | null, pausesMs: number[], fillers: Record<string, number> = {}): ChatMessage => ({
+    id: text,
+    role: 'user',
+    text,
+    isComplete: true,
+    timestamp: 0,
+    fluency: {
+      wordCount: tokenize(text).length,
+      durationMs,
+      wordsPerMinute: null,
+      pausesMs,
+      fillerCount: Object.values(fillers).reduce((sum, count) => sum + count, 0),
+      fillers
+    }
+  });
+
+  it('returns null when nothing was spoken', () => {
+    const typed: ChatMessage = { id: 'typed', role: 'user', text: 'Hi', isComplete: true, timestamp: 0 };
+    expect(computeSessionFluency([typed])).toBeNull();
+  });
+
+  it('aggregates rate, pauses, fillers and word variety', () => {
+    const fluency = computeSessionFluency([
+      spoken('um I like the park', 2000, [800], { um: 1 }),
+      { id: 'reply', role: 'model', text: 'Nice!', isComplete: true, timestamp: 0 },
+      spoken('I like the beach too', 4000, [600, 1000]),
+      spoken('the end', null, [])
+    ]);
+
+    expect(fluency).toEqual({
+      utteranceCount: 3,
+      totalWords: 12,
+      // Only timed utterances count toward the rate: 10 words in 6 s
+      wordsPerMinute: 100,
+      averageUtteranceWords: 4,
+      pauseCount: 3,
+      averagePauseMs: 800,
+      longestPauseMs: 1000,
+      fillerCount: 1,
+      fillersPer100Words: 8.3,
+      fillers: { um: 1 },
+      typeTokenRatio: 0.67
+    });
+  });
+});
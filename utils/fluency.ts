@@ -0,0 +1,114 @@
+import { ChatMessage, SessionFluency, UtteranceFluency } from '../types';
+
+// A gap between recognition results longer than this counts as a pause
+const PAUSE_THRESHOLD_MS = 600;
+// Below this the duration is too short for a meaningful speaking rate
+const MIN_TIMED_MS = 1000;
+
+// Multi-word fillers first so "you know" is not also counted as plain words
+const HESITATIONS = ['um', 'uh', 'er', 'erm', 'hmm'];
+const FILLERS = ['you know', 'i mean', ...HESITATIONS];
+const FILLER_PATTERNS = [
+  // "like" is also a verb and a preposition, so it only counts when set off by
+  // a comma or followed by a hesitation ("it was, like, huge", "like um").
+  // It goes first so the hesitations after it are still in the text
+  {
+    filler: 'like',
+    pattern: new RegExp(`\\blike(?=\\s*,|\\s+(?:${HESITATIONS.join('|')})\\b)`, 'gi')
+  },
+  ...FILLERS.map(filler => ({
+    filler,
+    pattern: new RegExp(`\\b${filler.replace(' ', '\\s+')}\\b`, 'gi')
+  }))
+];
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+
+export const countFillers = (text: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  let rest = text;
+  FILLER_PATTERNS.forEach(({ filler, pattern }) => {
+    const matches = rest.match(pattern);
+    if (!matches) return;
+    counts[filler] = matches.length;
+    rest = rest.replace(pattern, ' ');
+  });
+  return counts;
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Times one spoken utterance from the recognizer's interim results. Call
+ * `mark` for every result, including the final one, then `finish` with the
+ * full transcript.
+ */
+export const createUtteranceTimer = () => {
+  let firstAt: number | null = null;
+  let lastAt: number | null = null;
+  const pauses: number[] = [];
+
+  return {
+    mark(now = Date.now()) {
+      if (firstAt === null) firstAt = now;
+      if (lastAt !== null && now - lastAt >= PAUSE_THRESHOLD_MS) pauses.push(now - lastAt);
+      lastAt = now;
+    },
+
+    finish(transcript: string): UtteranceFluency {
+      const words = tokenize(transcript);
+      const fillers = countFillers(transcript);
+      const durationMs = firstAt !== null && lastAt !== null ? lastAt - firstAt : 0;
+      // Recognizers that only report final results (Whisper) give no timing
+      const timed = durationMs >= MIN_TIMED_MS;
+
+      return {
+        wordCount: words.length,
+        durationMs: timed ? durationMs : null,
+        wordsPerMinute: timed ? Math.round((words.length / durationMs) * 60000) : null,
+        pausesMs: pauses.slice(),
+        fillerCount: sum(Object.values(fillers)),
+        fillers
+      };
+    }
+  };
+};
+
+/**
+ * Aggregates the per-utterance metrics of a session's learner messages.
+ * Returns null when no spoken utterance has metrics yet.
+ */
+export function computeSessionFluency(messages: ChatMessage[]): SessionFluency | null {
+  const spoken = messages.filter(msg => msg.role === 'user' && msg.fluency);
+  if (spoken.length === 0) return null;
+
+  const metrics = spoken.map(msg => msg.fluency as UtteranceFluency);
+  const timed = metrics.filter(m => m.durationMs !== null);
+  const pauses = metrics.flatMap(m => m.pausesMs);
+  const totalWords = sum(metrics.map(m => m.wordCount));
+  const tokens = spoken.flatMap(msg => tokenize(msg.text));
+
+  const fillers: Record<string, number> = {};
+  metrics.forEach(m => Object.entries(m.fillers).forEach(([filler, count]) => {
+    fillers[filler] = (fillers[filler] ?? 0) + count;
+  }));
+  const fillerCount = sum(Object.values(fillers));
+
+  const timedWords = sum(timed.map(m => m.wordCount));
+  const timedMs = sum(timed.map(m => m.durationMs as number));
+
+  return {
+    utteranceCount: spoken.length,
+    totalWords,
+    wordsPerMinute: timedMs > 0 ? Math.round((timedWords / timedMs) * 60000) : null,
+    averageUtteranceWords: Math.round((totalWords / spoken.length) * 10) / 10,
+    pauseCount: pauses.length,
+    averagePauseMs: pauses.length ? Math.round(sum(pauses) / pauses.length) : 0,
+    longestPauseMs: pauses.length ? Math.max(...pauses) : 0,
+    fillerCount,
+    fillersPer100Words: totalWords ? Math.round((fillerCount / totalWords) * 1000) / 10 : 0,
+    fillers,
+    typeTokenRatio: tokens.length ? Math.round((new Set(tokens).size / tokens.length) * 100) / 100 : 0
+  };
+}
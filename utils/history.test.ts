@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ChatMessage, ConversationSummary, LlmProvider } from '../types';
+import { CORRECTIONS_MARKER } from './corrections';
+import { buildHistory, messagesToSummarize, summarizeHistory, unsummarizedMessages } from './history';
+
+const message = (id: string, role: ChatMessage['role'], text: string, timestamp: number, isComplete = true): ChatMessage =>
+  ({ id, role, text, timestamp, isComplete });
+
+// Alternating learner and tutor turns, one second apart
+const conversation = (count: number, text = 'Short turn.'): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => message(`m${i}`, i % 2 === 0 ? 'user' : 'model', `${text} ${i}`, i * 1000));
+
+const summary = (coveredUntil: number, coveredMessageId?: string): ConversationSummary =>
+  ({ text: 'They talked about the weekend.', coveredUntil, coveredMessageId, updatedAt: 0 });
+
+describe('unsummarizedMessages', () => {
+  it('returns the complete messages after the last summarized one', () => {
+    const messages = [...conversation(4), message('typing', 'user', 'I was', 4000, false)];
+    expect(unsummarizedMessages(messages, summary(1000, 'm1')).map(msg => msg.id)).toEqual(['m2', 'm3']);
+  });
+
+  it('keeps a turn that shares the last summarized turn\'s millisecond', () => {
+    const messages = [message('a', 'user', 'Hi', 5), message('b', 'model', 'Hello', 5), message('c', 'user', 'Bye', 5)];
+    expect(unsummarizedMessages(messages, summary(5, 'b')).map(msg => msg.id)).toEqual(['c']);
+  });
+
+  it('falls back to the timestamp for summaries saved without a message id', () => {
+    expect(unsummarizedMessages(conversation(4), summary(1000)).map(msg => msg.id)).toEqual(['m2', 'm3']);
+  });
+
+  it('returns every complete message without a summary', () => {
+    expect(unsummarizedMessages(conversation(3), null)).toHaveLength(3);
+  });
+});
+
+describe('buildHistory', () => {
+  it('sends the system prompt, the summary, the unsummarized turns and the new turn', () => {
+    const messages = [
+      message('m0', 'user', 'I goed home', 0),
+      message('m1', 'model', 'Nice!', 1000),
+      message('m2', 'user', 'It were fun', 2000),
+      message('m3', 'model', 'Great.', 3000)
+    ];
+    messages[2].corrections = [{ original: 'It were', corrected: 'It was', category: 'agreement', explanation: '' }];
+
+    const history = buildHistory({ systemInstruction: 'You are a tutor.', messages, summary: summary(1000, 'm1'), newUserText: 'Bye' });
+
+    expect(history.map(msg => msg.role)).toEqual(['system', 'system', 'user', 'assistant', 'user']);
+    expect(history[1].content).toContain('They talked about the weekend.');
+    expect(history[2].content).toBe('It were fun');
+    // Tutor turns are replayed with the corrections they made
+    expect(history[3].content).toBe(`Great.\n${CORRECTIONS_MARKER}\n[{"original":"It were","corrected":"It was","category":"agreement","explanation":""}]`);
+    expect(history[4]).toEqual({ role: 'user', content: 'Bye' });
+  });
+
+  it('drops the oldest turns over budget but always keeps the most recent', () => {
+    const messages = conversation(10, 'x'.repeat(400));
+    const history = buildHistory({
+      systemInstruction: 'You are a tutor.',
+      messages,
+      newUserText: 'Next',
+      budget: { maxTokens: 300, keepRecentMessages: 4 }
+    });
+
+    expect(history.slice(1, -1).map(msg => msg.content.split('\n')[0])).toEqual(messages.slice(6).map(msg => msg.text));
+  });
+});
+
+describe('messagesToSummarize', () => {
+  const budget = { maxTokens: 2000, keepRecentMessages: 4 };
+
+  it('waits while the unsummarized history is small', () => {
+    expect(messagesToSummarize(conversation(7), null, budget)).toEqual([]);
+  });
+
+  it('folds everything but the recent turns once enough has piled up', () => {
+    const messages = conversation(8);
+    expect(messagesToSummarize(messages, null, budget).map(msg => msg.id)).toEqual(['m0', 'm1', 'm2', 'm3']);
+  });
+
+  it('folds early when the history is over budget', () => {
+    const messages = conversation(6, 'x'.repeat(2000));
+    expect(messagesToSummarize(messages, null, budget).map(msg => msg.id)).toEqual(['m0', 'm1']);
+  });
+});
+
+describe('summarizeHistory', () => {
+  it('folds the transcript into the previous summary and covers up to the last message', async () => {
+    const streamChat = vi.fn().mockResolvedValue('  They planned a trip.  ');
+    const provider: LlmProvider = { id: 'mock', streamChat };
+    const toFold = conversation(2);
+
+    const next = await summarizeHistory(provider, summary(0, 'earlier'), toFold);
+
+    expect(next).toMatchObject({ text: 'They planned a trip.', coveredUntil: 1000, coveredMessageId: 'm1' });
+    const prompt = streamChat.mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain('They talked about the weekend.');
+    expect(prompt).toContain('Student: Short turn. 0\nTutor: Short turn. 1');
+  });
+});
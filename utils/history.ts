@@ -0,0 +1,149 @@
+import { ChatMessage, ConversationSummary, LlmMessage, LlmProvider } from '../types';
+import { formatModelTurn } from './corrections';
+
+export interface HistoryBudget {
+  // Upper bound for the conversation part of the prompt (system prompt excluded)
+  maxTokens: number;
+  // Most recent messages always sent verbatim, never folded into the summary
+  keepRecentMessages: number;
+}
+
+export const DEFAULT_HISTORY_BUDGET: HistoryBudget = {
+  maxTokens: 2000,
+  keepRecentMessages: 8
+};
+
+/**
+ * Rough token count (about four characters per token for English text). Good
+ * enough for budgeting without shipping a tokenizer.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateMessagesTokens = (messages: LlmMessage[]) =>
+  messages.reduce((total, msg) => total + estimateTokens(msg.content) + 4, 0);
+
+// Messages the summary does not cover yet, oldest first. Counted from the last
+// folded message itself, since turns can share a millisecond timestamp
+export const unsummarizedMessages = (messages: ChatMessage[], summary?: ConversationSummary | null): ChatMessage[] => {
+  const complete = messages.filter(msg => msg.isComplete);
+  if (!summary) return complete;
+  const covered = summary.coveredMessageId
+    ? messages.findIndex(msg => msg.id === summary.coveredMessageId)
+    : -1;
+  if (covered === -1) return complete.filter(msg => msg.timestamp > summary.coveredUntil);
+  return messages.slice(covered + 1).filter(msg => msg.isComplete);
+};
+
+// Replays tutor turns in the reply + corrections format they were produced in
+const toLlmMessages = (messages: ChatMessage[]): LlmMessage[] =>
+  messages.map((msg, index) => {
+    if (msg.role === 'user') return { role: 'user', content: msg.text };
+    const previous = messages[index - 1];
+    const corrections = previous?.role === 'user' ? previous.corrections : undefined;
+    return { role: 'assistant', content: formatModelTurn(msg.text, corrections) };
+  });
+
+const summaryMessage = (summary: ConversationSummary): LlmMessage => ({
+  role: 'system',
+  content: `Summary of the earlier part of this conversation (keep it in mind, do not repeat it):\n${summary.text}`
+});
+
+interface BuildHistoryOptions {
+  systemInstruction: string;
+  messages: ChatMessage[];
+  summary?: ConversationSummary | null;
+  newUserText: string;
+  budget?: HistoryBudget;
+}
+
+/**
+ * Builds the prompt for the next turn: system prompt, running summary, then
+ * as many of the newest unsummarized messages as fit in the budget. The most
+ * recent `keepRecentMessages` are always included, so the budget can only be
+ * exceeded by a handful of very long turns.
+ */
+export const buildHistory = ({
+  systemInstruction,
+  messages,
+  summary,
+  newUserText,
+  budget = DEFAULT_HISTORY_BUDGET
+}: BuildHistoryOptions): LlmMessage[] => {
+  const turns = toLlmMessages(unsummarizedMessages(messages, summary));
+  const head: LlmMessage[] = [{ role: 'system', content: systemInstruction }];
+  if (summary) head.push(summaryMessage(summary));
+  const newTurn: LlmMessage = { role: 'user', content: newUserText };
+
+  let used = estimateMessagesTokens([...head.slice(1), newTurn]);
+  let start = turns.length;
+  while (start > 0) {
+    const cost = estimateMessagesTokens([turns[start - 1]]);
+    const mustKeep = turns.length - start < budget.keepRecentMessages;
+    if (!mustKeep && used + cost > budget.maxTokens) break;
+    used += cost;
+    start -= 1;
+  }
+
+  return [...head, ...turns.slice(start), newTurn];
+};
+
+/**
+ * Returns the older messages that should be folded into the summary now, or
+ * an empty list while the unsummarized history is still comfortably small.
+ */
+export const messagesToSummarize = (
+  messages: ChatMessage[],
+  summary?: ConversationSummary | null,
+  budget: HistoryBudget = DEFAULT_HISTORY_BUDGET
+): ChatMessage[] => {
+  const pending = unsummarizedMessages(messages, summary);
+  if (pending.length <= budget.keepRecentMessages) return [];
+
+  const older = pending.slice(0, -budget.keepRecentMessages);
+  const tokens = estimateMessagesTokens(toLlmMessages(pending));
+  // Fold in batches, not every turn, so the summary call stays occasional
+  const overBudget = tokens > budget.maxTokens * 0.75;
+  const enoughToFold = older.length >= budget.keepRecentMessages;
+  return overBudget || enoughToFold ? older : [];
+};
+
+const SUMMARY_INSTRUCTION = `You keep the running summary of a spoken English lesson between a student and a tutor.
+Update the summary with the new part of the conversation. Keep:
+- topics discussed and where the conversation was heading
+- facts the student shared about themselves (names, plans, likes)
+- mistakes the student made more than once and vocabulary that was introduced
+Write plain English in short sentences, at most 150 words. Reply with the summary only.`;
+
+/**
+ * Asks the model to fold `toFold` into the previous summary and returns the
+ * updated summary, covering everything up to the last folded message.
+ */
+export async function summarizeHistory(
+  provider: LlmProvider,
+  previous: ConversationSummary | null | undefined,
+  toFold: ChatMessage[],
+  signal?: AbortSignal
+): Promise<ConversationSummary> {
+  const transcript = toFold
+    .map(msg => `${msg.role === 'user' ? 'Student' : 'Tutor'}: ${msg.text}`)
+    .join('\n');
+  const text = await provider.streamChat({
+    messages: [
+      { role: 'system', content: SUMMARY_INSTRUCTION },
+      {
+        role: 'user',
+        content: `Current summary:\n${previous?.text || '(none yet)'}\n\nNew conversation:\n${transcript}`
+      }
+    ],
+    temperature: 0.2,
+    signal
+  });
+
+  const last = toFold[toFold.length - 1];
+  return {
+    text: text.trim(),
+    coveredUntil: last.timestamp,
+    coveredMessageId: last.id,
+    updatedAt: Date.now()
+  };
+}
@@ -0,0 +1,57 @@
+// Loaded as a separate module into the AudioWorklet scope; Vite copies it as an asset
+const MIC_CAPTURE_WORKLET_URL = new URL('../worklets/micCapture.js', import.meta.url);
+
+// ~256 ms at 16 kHz, the block size the barge-in and recording logic expects
+export const MIC_BLOCK_SIZE = 4096;
+const ANALYSER_FFT_SIZE = 1024;
+
+export interface MicCapture {
+  // For drawing the live waveform and spectrum
+  analyser: AnalyserNode;
+  dispose: () => void;
+}
+
+/**
+ * Taps a microphone source off the main thread: an AudioWorklet hands over
+ * blocks of samples with their RMS level, and an AnalyserNode serves the
+ * visualizer.
+ */
+export async function createMicCapture(
+  context: AudioContext,
+  source: MediaStreamAudioSourceNode,
+  onBlock: (samples: Float32Array, rms: number) => void
+): Promise<MicCapture> {
+  await context.audioWorklet.addModule(MIC_CAPTURE_WORKLET_URL);
+  const node = new AudioWorkletNode(context, 'mic-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { blockSize: MIC_BLOCK_SIZE }
+  });
+  node.port.onmessage = (e: MessageEvent<{ samples: Float32Array; rms: number }>) => {
+    onBlock(e.data.samples, e.data.rms);
+  };
+
+  const analyser = context.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+
+  source.connect(node);
+  source.connect(analyser);
+  // The node outputs silence; connecting it keeps the graph pulling audio through it
+  node.connect(context.destination);
+
+  return {
+    analyser,
+    dispose: () => {
+      node.port.onmessage = null;
+      node.disconnect();
+      analyser.disconnect();
+      try {
+        source.disconnect(node);
+        source.disconnect(analyser);
+      } catch (e) {
+        // source already disconnected
+      }
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import { pcmToAudioBuffer } from './audioUtils';
+
+export interface PcmPlayer {
+  // Schedules a block of PCM16 right after whatever is already queued
+  enqueue: (pcm: Uint8Array) => AudioBufferSourceNode;
+  // Stops and drops everything queued
+  stop: () => void;
+  isPlaying: () => boolean;
+  // Everything the player outputs passes through here, for visualization
+  analyser: AnalyserNode;
+}
+
+/**
+ * Gapless playback of streamed PCM16 chunks on an AudioContext. Each chunk
+ * must hold whole samples and start at offset 0 of its own buffer.
+ */
+export function createPcmPlayer(context: AudioContext, sampleRate: number = 24000): PcmPlayer {
+  let nextStartTime = 0;
+  let sources = new Set<AudioBufferSourceNode>();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.connect(context.destination);
+
+  return {
+    enqueue: (pcm) => {
+      const buffer = pcmToAudioBuffer(pcm, context, sampleRate, 1);
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(analyser);
+      const startAt = Math.max(context.currentTime, nextStartTime);
+      source.start(startAt);
+      nextStartTime = startAt + buffer.duration;
+      sources.add(source);
+      source.addEventListener('ended', () => sources.delete(source));
+      return source;
+    },
+    stop: () => {
+      sources.forEach(source => {
+        try {
+          source.stop();
+        } catch (e) {
+          // not started yet
+        }
+      });
+      sources = new Set();
+      nextStartTime = 0;
+    },
+    isPlaying: () => sources.size > 0,
+    analyser
+  };
+}
@@ -0,0 +1,122 @@
+import { CorrectionCategory, TutorSession, VocabularyCard } from '../types';
+import { tokenize } from './fluency';
+import { dayKey } from './usage';
+
+export const DEFAULT_DAILY_GOAL_MINUTES = 15;
+export const DASHBOARD_WEEKS = 8;
+// A longer gap between two messages is time away from the conversation
+const IDLE_GAP_MS = 5 * 60 * 1000;
+
+export interface WeeklyProgress {
+  // Local midnight of the Monday the week starts on
+  weekStart: number;
+  practiceMinutes: number;
+  // Sessions started that week in which the learner said something
+  sessions: number;
+  // Words of spoken turns; typed messages are left out
+  wordsSpoken: number;
+  // Corrections per 100 words the learner spoke or typed
+  errorsPer100Words: Partial<Record<CorrectionCategory, number>>;
+  // Notebook size at the end of the week
+  vocabularySize: number;
+}
+
+export const startOfWeek = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday).getTime();
+};
+
+const hasLearnerTurns = (session: TutorSession) => session.messages.some(msg => msg.role === 'user');
+
+/**
+ * Time spent in conversation, as the gaps between consecutive messages of a
+ * session that are short enough to be one sitting. Each gap counts on the
+ * day of the message that closes it.
+ */
+const practiceSpans = (sessions: TutorSession[]): { timestamp: number; ms: number }[] =>
+  sessions.filter(hasLearnerTurns).flatMap(session => {
+    const timestamps = session.messages.map(msg => msg.timestamp).sort((a, b) => a - b);
+    return timestamps.slice(1).flatMap((timestamp, i) => {
+      const gap = timestamp - timestamps[i];
+      return gap > 0 && gap <= IDLE_GAP_MS ? [{ timestamp, ms: gap }] : [];
+    });
+  });
+
+// Minutes of practice per local day (YYYY-MM-DD)
+export function dailyPracticeMinutes(sessions: TutorSession[]): Map<string, number> {
+  const byDay = new Map<string, number>();
+  practiceSpans(sessions).forEach(({ timestamp, ms }) => {
+    const day = dayKey(timestamp);
+    byDay.set(day, (byDay.get(day) ?? 0) + ms / 60000);
+  });
+  return byDay;
+}
+
+/**
+ * Days in a row the goal was met, counting back from today. Today only
+ * breaks the streak once it is over, so the morning does not show zero.
+ * With no goal, any practice counts.
+ */
+export function practiceStreak(minutesByDay: Map<string, number>, goalMinutes: number, now = Date.now()): number {
+  const met = (date: Date) => {
+    const minutes = minutesByDay.get(dayKey(date.getTime())) ?? 0;
+    return minutes > 0 && minutes >= goalMinutes;
+  };
+  const date = new Date(now);
+  if (!met(date)) date.setDate(date.getDate() - 1);
+
+  let streak = 0;
+  while (met(date)) {
+    streak += 1;
+    date.setDate(date.getDate() - 1);
+  }
+  return streak;
+}
+
+/**
+ * Progress for each of the last `weeks` weeks, oldest first, including the
+ * current one. Everything is derived from the stored sessions and notebook.
+ */
+export function weeklyProgress(
+  sessions: TutorSession[],
+  cards: VocabularyCard[],
+  { weeks = DASHBOARD_WEEKS, now = Date.now() }: { weeks?: number; now?: number } = {}
+): WeeklyProgress[] {
+  const current = new Date(startOfWeek(now));
+  const starts = Array.from({ length: weeks }, (_, i) =>
+    new Date(current.getFullYear(), current.getMonth(), current.getDate() - 7 * (weeks - 1 - i)).getTime());
+  const nextStart = (weekStart: number) => {
+    const date = new Date(weekStart);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7).getTime();
+  };
+  const spans = practiceSpans(sessions);
+  const learnerMessages = sessions.flatMap(session => session.messages.filter(msg => msg.role === 'user'));
+
+  return starts.map(weekStart => {
+    const weekEnd = nextStart(weekStart);
+    const inWeek = (timestamp: number) => timestamp >= weekStart && timestamp < weekEnd;
+    const messages = learnerMessages.filter(msg => inWeek(msg.timestamp));
+    const learnerWords = messages.reduce((sum, msg) => sum + tokenize(msg.text).length, 0);
+
+    const corrections: Partial<Record<CorrectionCategory, number>> = {};
+    messages.forEach(msg => msg.corrections?.forEach(({ category }) => {
+      corrections[category] = (corrections[category] ?? 0) + 1;
+    }));
+    const errorsPer100Words: Partial<Record<CorrectionCategory, number>> = {};
+    if (learnerWords > 0) {
+      (Object.keys(corrections) as CorrectionCategory[]).forEach(category => {
+        errorsPer100Words[category] = Math.round(((corrections[category] as number) / learnerWords) * 1000) / 10;
+      });
+    }
+
+    return {
+      weekStart,
+      practiceMinutes: Math.round(spans.filter(span => inWeek(span.timestamp)).reduce((sum, span) => sum + span.ms, 0) / 60000),
+      sessions: sessions.filter(session => hasLearnerTurns(session) && inWeek(session.startedAt)).length,
+      wordsSpoken: messages.reduce((sum, msg) => sum + (msg.fluency?.wordCount ?? 0), 0),
+      errorsPer100Words,
+      vocabularySize: cards.filter(card => card.createdAt < weekEnd).length
+    };
+  });
+}
@@ -0,0 +1,63 @@
+import { TutorError } from './errors';
+
+/**
+ * Proxy mode: the app talks to the bundled server (server/index.ts) instead of
+ * OpenAI directly, so no API key is ever stored in the browser. Enabled at
+ * build time with VITE_PROXY_MODE=true.
+ */
+export const PROXY_MODE = (import.meta as any).env?.VITE_PROXY_MODE === 'true';
+
+// OpenAI-compatible base URL served by the proxy
+export const PROXY_BASE_URL = '/api/v1';
+
+const TOKEN_STORAGE_KEY = 'tutor_proxy_token';
+const CLIENT_ID_STORAGE_KEY = 'tutor_client_id';
+// Renew a little before the server-side expiry
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface StoredToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Labels this device in the proxy usage log; limits are counted by address
+const getClientId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+  if (!id) {
+    id = `device-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem(CLIENT_ID_STORAGE_KEY, id);
+  }
+  return id;
+};
+
+export const clearProxyToken = () => sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+
+/**
+ * Returns a valid session token, requesting a new one from the proxy when the
+ * cached one is missing or about to expire.
+ */
+export async function getProxyToken(accessCode?: string): Promise<string> {
+  try {
+    const cached: StoredToken | null = JSON.parse(sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? 'null');
+    if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return cached.token;
+  } catch (e) {
+    // ignore malformed cache
+  }
+
+  const response = await fetch('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: getClientId(), accessCode })
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || typeof data?.token !== 'string') {
+    const message = data?.error?.message ?? 'Could not start a session with the school server.';
+    throw new TutorError(response.status === 401 || response.status === 403 ? 'invalid-key' : 'server', message, {
+      status: response.status
+    });
+  }
+
+  const stored: StoredToken = { token: data.token, expiresAt: data.expiresAt };
+  sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(stored));
+  return stored.token;
+}
@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LlmProvider, QuizResult, TutorSession } from '../types';
+import { BLANK, buildExercise, collectMistakes, computeMastery, generateQuiz, gradeAnswer, pickMistakes, QuizMistake } from './quiz';
+
+const mistake = (overrides: Partial<QuizMistake> = {}): QuizMistake => ({
+  original: 'goed',
+  corrected: 'went',
+  category: 'verb-tense',
+  explanation: "'Go' is irregular.",
+  sentence: 'Yesterday I goed to the park.',
+  sessionId: 'session-1',
+  timestamp: 1,
+  ...overrides
+});
+
+const result = (category: QuizResult['category'], correct: boolean): QuizResult => ({
+  id: `result-${Math.random()}`,
+  timestamp: 1,
+  exerciseType: 'fill-blank',
+  category,
+  prompt: '',
+  answer: '',
+  response: '',
+  correct,
+  spoken: false,
+  sessionId: null
+});
+
+const provider = (streamChat: LlmProvider['streamChat']): LlmProvider => ({ id: 'mock', streamChat });
+
+describe('buildExercise', () => {
+  it('gaps the corrected words in the learner\'s own sentence', () => {
+    const exercise = buildExercise(mistake(), 'fill-blank');
+
+    expect(exercise.prompt).toBe(`Yesterday I ${BLANK} to the park.`);
+    expect(exercise.answer).toBe('went');
+    expect(exercise.options).toEqual([]);
+  });
+
+  it('offers the mistake and same-category corrections as choices, once each', () => {
+    const others = [mistake(), mistake({ original: 'buyed', corrected: 'bought' }), mistake({ original: 'a', corrected: 'the', category: 'article' })];
+    const exercise = buildExercise(mistake(), 'multiple-choice', others);
+
+    expect([...exercise.options].sort()).toEqual(['bought', 'goed', 'went']);
+    expect(exercise.answer).toBe('went');
+  });
+
+  it('scrambles the corrected sentence for reordering', () => {
+    const exercise = buildExercise(mistake(), 'reorder');
+
+    expect(exercise.answer).toBe('Yesterday I went to the park.');
+    expect([...exercise.options].sort()).toEqual(['I', 'Yesterday', 'park.', 'the', 'to', 'went'].sort());
+    expect(exercise.options.join(' ')).not.toBe(exercise.answer);
+  });
+
+  it('falls back to fixing the mistake when it cannot be found in the sentence', () => {
+    const exercise = buildExercise(mistake({ sentence: 'Something else entirely.' }), 'fill-blank');
+
+    expect(exercise.type).toBe('fix-sentence');
+    expect(exercise.prompt).toBe('goed');
+    expect(exercise.answer).toBe('went');
+  });
+});
+
+describe('gradeAnswer', () => {
+  const exercise = buildExercise(mistake(), 'fill-blank');
+
+  it('ignores case, punctuation and spacing', () => {
+    expect(gradeAnswer(exercise, '  Went! ')).toBe(true);
+    expect(gradeAnswer(exercise, 'goed')).toBe(false);
+    expect(gradeAnswer(exercise, '')).toBe(false);
+  });
+
+  it('accepts the whole sentence with the gap filled', () => {
+    expect(gradeAnswer(exercise, 'yesterday i went to the park')).toBe(true);
+  });
+});
+
+describe('collectMistakes', () => {
+  it('lists each correction once, newest first, with its sentence', () => {
+    const session = (id: string, startedAt: number, text: string, original: string, corrected: string): TutorSession => ({
+      id,
+      title: id,
+      scenarioId: 'casual-chat',
+      level: 'B1',
+      startedAt,
+      endedAt: null,
+      messages: [{
+        id: `${id}-msg`,
+        role: 'user',
+        text,
+        isComplete: true,
+        timestamp: startedAt,
+        corrections: [{ original, corrected, category: 'verb-tense', explanation: '' }]
+      }]
+    });
+
+    const mistakes = collectMistakes([
+      session('old', 1, 'I goed home. It was late.', 'goed', 'went'),
+      session('new', 2, 'We buyed bread.', 'buyed', 'bought'),
+      session('again', 3, 'They goed out.', 'Goed', 'went')
+    ]);
+
+    expect(mistakes.map(m => [m.sessionId, m.original, m.sentence])).toEqual([
+      ['again', 'Goed', 'They goed out.'],
+      ['new', 'buyed', 'We buyed bread.']
+    ]);
+  });
+});
+
+describe('pickMistakes', () => {
+  it('starts with the weakest category and alternates between categories', () => {
+    const mistakes = [
+      mistake({ original: 'a1', category: 'article' }),
+      mistake({ original: 'a2', category: 'article' }),
+      mistake({ original: 'v1' }),
+      mistake({ original: 'v2' })
+    ];
+    const mastery = computeMastery([result('article', true), result('article', true), result('article', true)]);
+
+    expect(pickMistakes(mistakes, mastery, 3).map(m => m.original)).toEqual(['v1', 'a1', 'v2']);
+  });
+});
+
+describe('computeMastery', () => {
+  it('needs a few attempts before rating a category', () => {
+    const mastery = computeMastery([result('grammar', true), result('grammar', true)]);
+    expect(mastery.find(m => m.category === 'grammar')).toMatchObject({ attempts: 2, level: 'new' });
+  });
+
+  it('scores the latest answers, so old failures fade out', () => {
+    const results = [
+      ...Array.from({ length: 5 }, () => result('grammar', false)),
+      ...Array.from({ length: 10 }, () => result('grammar', true))
+    ];
+    expect(computeMastery(results).find(m => m.category === 'grammar')).toMatchObject({
+      attempts: 15,
+      correct: 10,
+      score: 1,
+      level: 'mastered'
+    });
+  });
+});
+
+describe('generateQuiz', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses valid model exercises and builds the rest locally', async () => {
+    const streamChat = vi.fn().mockResolvedValue(JSON.stringify([
+      { mistake: 1, prompt: `She ${BLANK} to school by bus.`, answer: 'goes', explanation: 'Third person adds -es.' },
+      { mistake: 2, prompt: 'no gap here', answer: 'x', options: ['x', 'y'] }
+    ]));
+    const quiz = await generateQuiz(provider(streamChat), [mistake(), mistake({ original: 'buyed', corrected: 'bought', sentence: 'I buyed it.' })]);
+
+    expect(quiz.map(exercise => exercise.type)).toEqual(['fill-blank', 'multiple-choice']);
+    expect(quiz[0]).toMatchObject({ prompt: `She ${BLANK} to school by bus.`, answer: 'goes' });
+    expect(quiz[1]).toMatchObject({ prompt: `I ${BLANK} it.`, answer: 'bought' });
+  });
+
+  it('builds the whole quiz from the learner\'s sentences when the request fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const quiz = await generateQuiz(provider(() => Promise.reject(new Error('offline'))), [mistake()]);
+
+    expect(quiz).toHaveLength(1);
+    expect(quiz[0]).toMatchObject({ type: 'fill-blank', answer: 'went' });
+  });
+});
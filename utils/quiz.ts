@@ -0,0 +1,295 @@
+import {
+  CategoryMastery,
+  Correction,
+  CorrectionCategory,
+  Exercise,
+  ExerciseType,
+  LlmProvider,
+  MasteryLevel,
+  QuizResult,
+  TutorSession,
+  UiLocale
+} from '../types';
+import { applyCorrections, CORRECTION_CATEGORIES } from './corrections';
+import { normalizeTerm, sentenceContaining } from './srs';
+
+export const EXERCISE_TYPES: ExerciseType[] = ['fill-blank', 'multiple-choice', 'reorder', 'fix-sentence'];
+
+// Gap in fill-blank and multiple-choice prompts
+export const BLANK = '___';
+
+export const QUIZ_LENGTH = 8;
+// Only recent conversations, so the drills follow what the learner gets wrong now
+const RECENT_SESSIONS = 5;
+// Mastery looks at the latest answers of a category, so old failures fade out
+const MASTERY_WINDOW = 10;
+const MIN_ATTEMPTS = 3;
+const MAX_OPTIONS = 4;
+const MIN_REORDER_WORDS = 3;
+const MAX_REORDER_WORDS = 12;
+
+// A correction with the sentence it was made in
+export interface QuizMistake extends Correction {
+  sentence: string;
+  sessionId: string;
+  timestamp: number;
+}
+
+export const normalizeAnswer = (text: string) => normalizeTerm(text.replace(/[‘’]/g, "'"));
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const exerciseId = () => `exercise-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The corrections of the most recent sessions, newest first, each mistake
+ * once.
+ */
+export function collectMistakes(sessions: TutorSession[]): QuizMistake[] {
+  const seen = new Set<string>();
+  const mistakes: QuizMistake[] = [];
+  [...sessions]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .filter(session => session.messages.some(msg => msg.corrections?.length))
+    .slice(0, RECENT_SESSIONS)
+    .forEach(session => {
+      [...session.messages].reverse().forEach(msg => {
+        if (msg.role !== 'user') return;
+        msg.corrections?.forEach(correction => {
+          const key = `${normalizeAnswer(correction.original)}→${normalizeAnswer(correction.corrected)}`;
+          if (seen.has(key) || normalizeAnswer(correction.original) === normalizeAnswer(correction.corrected)) return;
+          seen.add(key);
+          mistakes.push({
+            ...correction,
+            sentence: sentenceContaining(msg.text, correction.original),
+            sessionId: session.id,
+            timestamp: msg.timestamp
+          });
+        });
+      });
+    });
+  return mistakes;
+}
+
+/**
+ * Picks the mistakes to drill: categories with the lowest mastery first,
+ * taking one mistake from each in turn so a quiz mixes categories.
+ */
+export function pickMistakes(mistakes: QuizMistake[], mastery: CategoryMastery[], count = QUIZ_LENGTH): QuizMistake[] {
+  const scoreOf = (category: CorrectionCategory) => mastery.find(m => m.category === category)?.score ?? 0;
+  const byCategory = new Map<CorrectionCategory, QuizMistake[]>();
+  mistakes.forEach(mistake => byCategory.set(mistake.category, [...(byCategory.get(mistake.category) ?? []), mistake]));
+  const queues = [...byCategory.entries()]
+    .sort(([a], [b]) => scoreOf(a) - scoreOf(b))
+    .map(([, queue]) => queue);
+
+  const picked: QuizMistake[] = [];
+  while (picked.length < count && queues.some(queue => queue.length)) {
+    queues.forEach(queue => {
+      const next = queue.shift();
+      if (next && picked.length < count) picked.push(next);
+    });
+  }
+  return picked;
+}
+
+// The learner's sentence with the gap where the corrected words go, or null
+// when the corrected words cannot be found in it
+const gapSentence = (corrected: string, answer: string): string | null => {
+  const start = corrected.toLowerCase().indexOf(answer.toLowerCase());
+  if (start === -1) return null;
+  return corrected.slice(0, start) + BLANK + corrected.slice(start + answer.length);
+};
+
+const sentenceWords = (sentence: string) => sentence.split(/\s+/).filter(Boolean);
+
+// Shuffles until the order differs from the answer
+const scramble = (words: string[]) => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const shuffled = shuffle(words);
+    if (shuffled.join(' ') !== words.join(' ')) return shuffled;
+  }
+  return [...words].reverse();
+};
+
+/**
+ * Builds an exercise from the learner's own sentence. Falls back to fixing
+ * the sentence when it does not suit the requested type.
+ */
+export function buildExercise(mistake: QuizMistake, type: ExerciseType, others: QuizMistake[] = []): Exercise {
+  const corrected = applyCorrections(mistake.sentence, [mistake]);
+  const base = {
+    id: exerciseId(),
+    category: mistake.category,
+    explanation: mistake.explanation,
+    sessionId: mistake.sessionId
+  };
+  const fixSentence = (): Exercise => (corrected !== mistake.sentence
+    ? { ...base, type: 'fix-sentence', prompt: mistake.sentence, options: [], answer: corrected }
+    : { ...base, type: 'fix-sentence', prompt: mistake.original, options: [], answer: mistake.corrected });
+
+  if (type === 'fill-blank' || type === 'multiple-choice') {
+    const prompt = gapSentence(corrected, mistake.corrected);
+    if (!prompt) return fixSentence();
+    if (type === 'fill-blank') return { ...base, type, prompt, options: [], answer: mistake.corrected };
+
+    // Other corrections of the same kind make believable distractors
+    const distractors = [mistake.original, ...others
+      .filter(other => other.category === mistake.category)
+      .map(other => other.corrected)]
+      .filter((option, i, all) => normalizeAnswer(option) !== normalizeAnswer(mistake.corrected)
+        && all.findIndex(o => normalizeAnswer(o) === normalizeAnswer(option)) === i);
+    return {
+      ...base,
+      type,
+      prompt,
+      options: shuffle([mistake.corrected, ...distractors.slice(0, MAX_OPTIONS - 1)]),
+      answer: mistake.corrected
+    };
+  }
+
+  if (type === 'reorder') {
+    const words = sentenceWords(corrected);
+    if (words.length < MIN_REORDER_WORDS || words.length > MAX_REORDER_WORDS) return fixSentence();
+    return { ...base, type, prompt: '', options: scramble(words), answer: corrected };
+  }
+
+  return fixSentence();
+}
+
+const QUIZ_INSTRUCTION = `You write short English exercises for a language learner. Each exercise practices one of the learner's own mistakes, listed with a number, the requested exercise type, and the sentence they said.
+Reply with JSON only: an array with one exercise per mistake, e.g.
+[{"mistake": 1, "type": "fill-blank", "prompt": "Yesterday we ${BLANK} to the beach.", "answer": "went", "options": [], "explanation": "'Go' is irregular: the past tense is 'went'."}]
+- Write a new, everyday sentence with the same difficulty; do not reuse the learner's sentence.
+- fill-blank: "prompt" has exactly one ${BLANK} gap and "answer" is the words that fill it.
+- multiple-choice: like fill-blank, plus three or four "options" that include the answer and the learner's kind of mistake.
+- reorder: no "prompt"; "answer" is one complete sentence of ${MIN_REORDER_WORDS} to ${MAX_REORDER_WORDS} words.
+- fix-sentence: "prompt" is a sentence with the same kind of mistake and "answer" is that sentence corrected.
+- "explanation" is one short sentence about the rule.`;
+
+// Validates one model-written exercise; reorder words are shuffled here
+const parseModelExercise = (item: any, mistake: QuizMistake, type: ExerciseType): Exercise | null => {
+  if (!item || typeof item.answer !== 'string' || !item.answer.trim()) return null;
+  const answer = item.answer.trim();
+  const prompt = typeof item.prompt === 'string' ? item.prompt.trim() : '';
+  const options: string[] = Array.isArray(item.options)
+    ? item.options.filter((o: unknown) => typeof o === 'string' && o.trim()).map((o: string) => o.trim())
+    : [];
+  const base = {
+    id: exerciseId(),
+    type,
+    category: mistake.category,
+    explanation: typeof item.explanation === 'string' && item.explanation.trim() ? item.explanation.trim() : mistake.explanation,
+    sessionId: mistake.sessionId
+  };
+
+  switch (type) {
+    case 'fill-blank':
+      return prompt.split(BLANK).length === 2 ? { ...base, prompt, options: [], answer } : null;
+    case 'multiple-choice': {
+      if (prompt.split(BLANK).length !== 2) return null;
+      if (options.length < 2 || !options.some(o => normalizeAnswer(o) === normalizeAnswer(answer))) return null;
+      return { ...base, prompt, options: shuffle(options.slice(0, MAX_OPTIONS)), answer };
+    }
+    case 'reorder': {
+      const words = sentenceWords(answer);
+      if (words.length < MIN_REORDER_WORDS || words.length > MAX_REORDER_WORDS) return null;
+      return { ...base, prompt: '', options: scramble(words), answer };
+    }
+    case 'fix-sentence':
+      return prompt && normalizeAnswer(prompt) !== normalizeAnswer(answer) ? { ...base, prompt, options: [], answer } : null;
+  }
+  return null;
+};
+
+/**
+ * Turns the picked mistakes into a quiz that cycles through the exercise
+ * types. The model writes fresh sentences practicing each mistake; any it
+ * leaves out or gets wrong are built from the learner's own sentence, as is
+ * the whole quiz when the request fails.
+ */
+export async function generateQuiz(
+  provider: LlmProvider,
+  mistakes: QuizMistake[],
+  { language = 'en', signal }: { language?: UiLocale; signal?: AbortSignal } = {}
+): Promise<Exercise[]> {
+  const types = mistakes.map((_, i) => EXERCISE_TYPES[i % EXERCISE_TYPES.length]);
+  const local = (i: number) => buildExercise(mistakes[i], types[i], mistakes);
+  if (!mistakes.length) return [];
+
+  const languageNote = language === 'es'
+    ? '\nWrite "explanation" in Spanish for a Spanish-speaking learner. Everything else stays in English.'
+    : '';
+  const list = mistakes
+    .map((m, i) => `${i + 1}. ${types[i]} · ${m.category}: said "${m.sentence}" ("${m.original}" → "${m.corrected}")`)
+    .join('\n');
+
+  let items: any[] = [];
+  try {
+    const raw = await provider.streamChat({
+      messages: [
+        { role: 'system', content: QUIZ_INSTRUCTION + languageNote },
+        { role: 'user', content: `Mistakes:\n${list}` }
+      ],
+      temperature: 0.7,
+      signal
+    });
+    const json = raw.match(/\[[\s\S]*\]/)?.[0];
+    const data = json ? JSON.parse(json) : null;
+    if (Array.isArray(data)) items = data;
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn('Quiz request failed, using the learner\'s own sentences', e);
+  }
+
+  return mistakes.map((mistake, i) => {
+    const item = items.find(candidate => Number(candidate?.mistake) === i + 1);
+    return (item && parseModelExercise(item, mistake, types[i])) || local(i);
+  });
+}
+
+/**
+ * Compares an answer with the expected one, ignoring case, punctuation and
+ * spacing, so spoken answers grade the same as typed ones. Gap exercises
+ * also accept the whole sentence with the gap filled.
+ */
+export function gradeAnswer(exercise: Exercise, response: string): boolean {
+  const given = normalizeAnswer(response);
+  if (!given) return false;
+  const accepted = [exercise.answer];
+  if (exercise.prompt.includes(BLANK)) accepted.push(exercise.prompt.replace(BLANK, exercise.answer));
+  return accepted.some(answer => normalizeAnswer(answer) === given);
+}
+
+const masteryLevel = (attempts: number, score: number): MasteryLevel => {
+  if (attempts < MIN_ATTEMPTS) return 'new';
+  if (score >= 0.9) return 'mastered';
+  if (score >= 0.6) return 'practicing';
+  return 'learning';
+};
+
+/**
+ * Mastery of every correction category from the quiz results (oldest
+ * first), scored on the latest answers of each.
+ */
+export function computeMastery(results: QuizResult[]): CategoryMastery[] {
+  return CORRECTION_CATEGORIES.map(category => {
+    const answers = results.filter(result => result.category === category);
+    const recent = answers.slice(-MASTERY_WINDOW);
+    const score = recent.length ? recent.filter(result => result.correct).length / recent.length : 0;
+    return {
+      category,
+      attempts: answers.length,
+      correct: answers.filter(result => result.correct).length,
+      score,
+      level: masteryLevel(answers.length, score)
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import { concatSamples, rmsOf } from './audioUtils';
+
+// Blocks quieter than this are trimmed from both ends of a recording
+const SILENCE_RMS = 0.01;
+// Kept around the speech so the first and last syllables are not clipped
+const PADDING_MS = 250;
+// Longest utterance kept; older audio is dropped as new audio arrives
+const MAX_UTTERANCE_MS = 60000;
+
+export interface UtteranceRecorder {
+  sampleRate: number;
+  push: (samples: Float32Array) => void;
+  // Drops what was captured, e.g. while the tutor was talking
+  clear: () => void;
+  // The audio captured since the last take or clear, trimmed of silence,
+  // or null when nothing was said
+  take: () => Float32Array | null;
+}
+
+/**
+ * Collects microphone audio between the learner's turns. The recognizer
+ * decides where an utterance ends; the recorder only trims the silence
+ * around it, so it works the same with every recognizer.
+ */
+export function createUtteranceRecorder(sampleRate: number): UtteranceRecorder {
+  let chunks: Float32Array[] = [];
+  let length = 0;
+  const maxLength = (MAX_UTTERANCE_MS / 1000) * sampleRate;
+
+  return {
+    sampleRate,
+    push: (samples) => {
+      chunks.push(samples);
+      length += samples.length;
+      while (length - chunks[0].length > maxLength) {
+        length -= (chunks.shift() as Float32Array).length;
+      }
+    },
+    clear: () => {
+      chunks = [];
+      length = 0;
+    },
+    take: () => {
+      const taken = chunks;
+      chunks = [];
+      length = 0;
+
+      const voiced = taken.map(chunk => rmsOf(chunk) > SILENCE_RMS);
+      const first = voiced.indexOf(true);
+      if (first === -1) return null;
+      const last = voiced.lastIndexOf(true);
+
+      const samples = concatSamples(taken);
+      const offsets: number[] = [];
+      taken.reduce((offset, chunk) => {
+        offsets.push(offset);
+        return offset + chunk.length;
+      }, 0);
+      const padding = Math.round((PADDING_MS / 1000) * sampleRate);
+      const start = Math.max(0, offsets[first] - padding);
+      const end = Math.min(samples.length, offsets[last] + taken[last].length + padding);
+      return samples.slice(start, end);
+    }
+  };
+}
@@ -0,0 +1,190 @@
+import { ChatMessage, CorrectionCategory, LlmProvider, MistakeGroup, SessionReport, TutorSession, UiLocale } from '../types';
+import type { Translate } from '../i18n';
+import { computeSessionFluency } from './fluency';
+import { getScenario } from './scenarios';
+
+const MAX_EXAMPLES = 3;
+// Keeps the report prompt small for long sessions; older turns are in the summary
+const MAX_TRANSCRIPT_MESSAGES = 40;
+
+/**
+ * Groups the corrections of all learner messages by category, most frequent
+ * first.
+ */
+export function groupMistakes(messages: ChatMessage[]): MistakeGroup[] {
+  const groups = new Map<CorrectionCategory, MistakeGroup>();
+  [...messages].reverse().forEach(msg => {
+    if (msg.role !== 'user') return;
+    msg.corrections?.forEach(({ category, original, corrected }) => {
+      const group = groups.get(category) ?? { category, count: 0, examples: [] };
+      group.count += 1;
+      if (group.examples.length < MAX_EXAMPLES) group.examples.push({ original, corrected });
+      groups.set(category, group);
+    });
+  });
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
+
+// Scenario vocabulary the learner actually used, for when the model gives none
+const usedTargetVocabulary = (session: TutorSession): string[] => {
+  const spoken = session.messages
+    .filter(msg => msg.role === 'user')
+    .map(msg => msg.text.toLowerCase())
+    .join(' ');
+  return getScenario(session.scenarioId).targetVocabulary.filter(term => spoken.includes(term.toLowerCase()));
+};
+
+const REPORT_INSTRUCTION = `You write the feedback report at the end of a spoken English lesson.
+Reply with JSON only, in this shape:
+{"summary": "...", "newVocabulary": ["..."], "focusAreas": ["...", "...", "..."]}
+- "summary": two or three sentences to the student about what was discussed and how it went.
+- "newVocabulary": up to eight useful English words or phrases from this conversation worth reviewing.
+- "focusAreas": exactly three short, concrete things to practice next, based on the mistakes.`;
+
+interface ModelReport {
+  summary: string;
+  newVocabulary: string[];
+  focusAreas: string[];
+}
+
+const parseModelReport = (raw: string): ModelReport | null => {
+  const json = raw.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  try {
+    const data = JSON.parse(json);
+    const strings = (value: unknown) => (Array.isArray(value) ? value.filter(v => typeof v === 'string' && v.trim()) : []);
+    if (typeof data?.summary !== 'string') return null;
+    return {
+      summary: data.summary.trim(),
+      newVocabulary: strings(data.newVocabulary).slice(0, 8),
+      focusAreas: strings(data.focusAreas).slice(0, 3)
+    };
+  } catch (e) {
+    return null;
+  }
+};
+
+const describeMistakes = (mistakes: MistakeGroup[]) => (mistakes.length
+  ? mistakes
+    .map(m => `${m.category} (${m.count}): ${m.examples.map(e => `"${e.original}" → "${e.corrected}"`).join('; ')}`)
+    .join('\n')
+  : 'No corrections were needed.');
+
+/**
+ * Builds the end-of-session report. Mistakes and fluency are computed
+ * locally; the summary, vocabulary and focus areas come from the model, with
+ * a plain fallback when the request fails or the reply is not valid JSON.
+ */
+export async function generateSessionReport(
+  provider: LlmProvider,
+  session: TutorSession,
+  { language = 'en', signal }: { language?: UiLocale; signal?: AbortSignal } = {}
+): Promise<SessionReport> {
+  const mistakes = groupMistakes(session.messages);
+  const fluency = computeSessionFluency(session.messages);
+  const transcript = session.messages
+    .filter(msg => msg.isComplete)
+    .slice(-MAX_TRANSCRIPT_MESSAGES)
+    .map(msg => `${msg.role === 'user' ? 'Student' : 'Tutor'}: ${msg.text}`)
+    .join('\n');
+
+  const languageNote = language === 'es'
+    ? '\nWrite "summary" and "focusAreas" in Spanish for a Spanish-speaking student. Keep "newVocabulary" in English.'
+    : '';
+  const context = [
+    `Scenario: ${getScenario(session.scenarioId).title}. Student level: CEFR ${session.level}.`,
+    session.summary ? `Summary of the earlier conversation:\n${session.summary.text}` : '',
+    `Conversation:\n${transcript}`,
+    `Mistakes by category:\n${describeMistakes(mistakes)}`
+  ].filter(Boolean).join('\n\n');
+
+  let modelReport: ModelReport | null = null;
+  try {
+    const raw = await provider.streamChat({
+      messages: [
+        { role: 'system', content: REPORT_INSTRUCTION + languageNote },
+        { role: 'user', content: context }
+      ],
+      temperature: 0.3,
+      signal
+    });
+    modelReport = parseModelReport(raw);
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn('Report request failed, using the local report', e);
+  }
+
+  return {
+    generatedAt: Date.now(),
+    summary: modelReport?.summary || session.summary?.text || '',
+    mistakes,
+    newVocabulary: modelReport?.newVocabulary.length ? modelReport.newVocabulary : usedTargetVocabulary(session),
+    // Without the model, point at an example of each of the most frequent mistakes
+    focusAreas: modelReport?.focusAreas.length
+      ? modelReport.focusAreas
+      : mistakes.slice(0, 3).map(({ examples: [example] }) => `"${example.original}" → "${example.corrected}"`),
+    fluency
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone, printable HTML page for a report, in the interface language.
+ */
+export function reportToHtml(session: TutorSession, report: SessionReport, t: Translate): string {
+  const list = (items: string[]) => (items.length
+    ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : `<p class="muted">${escapeHtml(t('report.none'))}</p>`);
+
+  const mistakes = report.mistakes.length
+    ? `<table><thead><tr><th>${escapeHtml(t('report.category'))}</th><th>${escapeHtml(t('report.count'))}</th><th>${escapeHtml(t('report.examples'))}</th></tr></thead><tbody>${
+      report.mistakes.map(m => `<tr><td>${escapeHtml(t(`category.${m.category}`))}</td><td>${m.count}</td><td>${
+        m.examples.map(e => `<del>${escapeHtml(e.original)}</del> → <ins>${escapeHtml(e.corrected)}</ins>`).join('<br>')
+      }</td></tr>`).join('')
+    }</tbody></table>`
+    : `<p class="muted">${escapeHtml(t('report.noMistakes'))}</p>`;
+
+  const fluency = report.fluency
+    ? list([
+      `${t('fluency.wpm')}: ${report.fluency.wordsPerMinute ?? '—'}`,
+      `${t('fluency.averageLength')}: ${t('fluency.words', { count: report.fluency.averageUtteranceWords })}`,
+      `${t('fluency.typeTokenRatio')}: ${report.fluency.typeTokenRatio.toFixed(2)}`,
+      `${t('fluency.pauses')}: ${report.fluency.pauseCount}`,
+      `${t('fluency.fillers')}: ${report.fluency.fillerCount}`
+    ])
+    : `<p class="muted">${escapeHtml(t('report.none'))}</p>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(t('report.title'))} · ${escapeHtml(session.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; line-height: 1.5; }
+  h1 { margin-bottom: 0; }
+  .meta, .muted { color: #64748b; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 0.4rem; text-align: left; vertical-align: top; }
+  del { color: #dc2626; }
+  ins { color: #16a34a; text-decoration: none; font-weight: 600; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(t('report.title'))}</h1>
+<p class="meta">${escapeHtml(session.title)} · ${escapeHtml(getScenario(session.scenarioId).title)} · ${session.level} · ${escapeHtml(new Date(session.startedAt).toLocaleString())}</p>
+<h2>${escapeHtml(t('report.summary'))}</h2>
+<p>${escapeHtml(report.summary || t('report.none'))}</p>
+<h2>${escapeHtml(t('report.mistakes'))}</h2>
+${mistakes}
+<h2>${escapeHtml(t('report.vocabulary'))}</h2>
+${list(report.newVocabulary)}
+<h2>${escapeHtml(t('report.focus'))}</h2>
+${list(report.focusAreas)}
+<h2>${escapeHtml(t('fluency.title'))}</h2>
+${fluency}
+</body>
+</html>`;
+}
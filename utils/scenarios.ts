@@ -0,0 +1,147 @@
+import { CefrLevel, LearnerProfile, Scenario, UiLocale } from '../types';
+import { CORRECTIONS_INSTRUCTION } from './corrections';
+
+export const DEFAULT_SCENARIO_ID = 'casual-chat';
+export const DEFAULT_LEVEL: CefrLevel = 'B1';
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: DEFAULT_SCENARIO_ID,
+    title: 'Small talk',
+    description: 'A relaxed chat about everyday life.',
+    role: 'a friendly acquaintance making casual conversation',
+    goals: ['Keep a conversation going', 'Ask and answer follow-up questions'],
+    targetVocabulary: ['weekend', 'hobby', 'recently', 'actually', 'how about you?'],
+    openingLine: "Hi there! How's your day going so far?"
+  },
+  {
+    id: 'job-interview',
+    title: 'Job interview',
+    description: 'Answer questions from a hiring manager.',
+    role: 'a hiring manager interviewing the user for a job they want',
+    goals: ['Describe past experience', 'Talk about strengths and weaknesses', 'Ask questions about the role'],
+    targetVocabulary: ['responsible for', 'achievement', 'team player', 'deadline', 'career goals'],
+    openingLine: 'Thanks for coming in today. To start, could you tell me a little about yourself?'
+  },
+  {
+    id: 'restaurant',
+    title: 'Ordering at a restaurant',
+    description: 'Order a meal and handle questions from the waiter.',
+    role: 'a waiter at a busy restaurant',
+    goals: ['Order food and drinks politely', 'Ask about the menu', 'Ask for the bill'],
+    targetVocabulary: ["I'd like", 'starter', 'main course', 'allergic to', 'the check, please'],
+    openingLine: "Good evening! Welcome. Can I get you something to drink while you look at the menu?"
+  },
+  {
+    id: 'airport',
+    title: 'Airport check-in',
+    description: 'Check in for a flight and deal with luggage and seats.',
+    role: 'an airline check-in agent',
+    goals: ['Present documents', 'Check luggage', 'Request a seat', 'Ask about delays or the gate'],
+    targetVocabulary: ['boarding pass', 'carry-on', 'aisle seat', 'layover', 'departure gate'],
+    openingLine: 'Good morning! Where are you flying to today? May I see your passport, please?'
+  },
+  {
+    id: 'debate',
+    title: 'Debate',
+    description: 'Defend an opinion against a friendly opponent.',
+    role: 'a debate partner who politely takes the opposite side of whatever the user argues',
+    goals: ['State an opinion clearly', 'Give reasons and examples', 'Respond to counter-arguments'],
+    targetVocabulary: ['in my opinion', 'on the other hand', 'I see your point, but', 'evidence', 'therefore'],
+    openingLine: "Let's have a friendly debate. Here's the topic: should homework be banned in schools? Which side are you on?"
+  }
+];
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+interface LevelGuide {
+  label: string;
+  language: string;
+  corrections: string;
+}
+
+export const LEVEL_GUIDES: Record<CefrLevel, LevelGuide> = {
+  A1: {
+    label: 'Beginner',
+    language: 'Use very common words and short, simple sentences in the present tense. Speak slowly and repeat key words.',
+    corrections: 'Only correct mistakes that make the meaning unclear. Ignore small errors.'
+  },
+  A2: {
+    label: 'Elementary',
+    language: 'Use everyday vocabulary and simple sentences. Avoid idioms and phrasal verbs unless you explain them.',
+    corrections: 'Correct basic grammar mistakes (verb forms, word order), but at most one per reply.'
+  },
+  B1: {
+    label: 'Intermediate',
+    language: 'Use natural everyday English with some common idioms. Keep sentences clear.',
+    corrections: 'Correct significant grammar and vocabulary mistakes. Let minor slips go.'
+  },
+  B2: {
+    label: 'Upper intermediate',
+    language: 'Speak naturally, including phrasal verbs, idioms and more complex sentences.',
+    corrections: 'Correct grammar, vocabulary and word choice mistakes, including repeated minor ones.'
+  },
+  C1: {
+    label: 'Advanced',
+    language: 'Speak as you would to a fluent speaker, with a wide range of vocabulary and nuance.',
+    corrections: 'Correct all errors, including collocations, articles and prepositions, and point out unnatural phrasing.'
+  },
+  C2: {
+    label: 'Proficient',
+    language: 'Speak at a native level, using sophisticated vocabulary, idioms and register shifts.',
+    corrections: 'Be strict: correct every error and suggest more natural or precise alternatives, including register and style.'
+  }
+};
+
+export const getScenario = (id: string): Scenario =>
+  SCENARIOS.find(s => s.id === id) ?? SCENARIOS[0];
+
+interface InstructionOptions {
+  structuredCorrections?: boolean;
+  // Language of the correction explanations; the conversation stays in English
+  explanationLanguage?: UiLocale;
+  // Who the tutor is talking to
+  learner?: Pick<LearnerProfile, 'name' | 'nativeLanguage' | 'level' | 'goals'>;
+}
+
+const describeLearner = ({ name, nativeLanguage, level, goals }: NonNullable<InstructionOptions['learner']>) =>
+  `You are talking with ${name.trim()}${nativeLanguage.trim() ? `, whose native language is ${nativeLanguage.trim()}` : ''}. Their usual level is CEFR ${level}.${goals.trim() ? `
+Their own goals for learning English: ${goals.trim()}
+When the scenario allows, steer the conversation toward these goals.` : ''}
+Call them by their name now and then.`;
+
+const spanishExplanations = (structuredCorrections: boolean) => (structuredCorrections
+  ? `Write the "explanation" of each correction in simple Spanish, since the user is a Spanish speaker. Everything else, including your reply, stays in English.`
+  : `If the user does not understand a correction, you may explain it in one short sentence in Spanish, then go back to English.`);
+
+/**
+ * Builds the system prompt for a practice scenario at a given CEFR level.
+ * Realtime (speech-to-speech) sessions pass `structuredCorrections: false`
+ * since everything the model outputs there is spoken aloud.
+ */
+export function buildSystemInstruction(
+  scenario: Scenario,
+  level: CefrLevel,
+  { structuredCorrections = true, explanationLanguage = 'en', learner }: InstructionOptions = {}
+): string {
+  const guide = LEVEL_GUIDES[level];
+
+  return `You are a friendly, patient, and encouraging English language tutor.
+Your goal is to have a conversation with the user to help them practice their spoken English.
+In this conversation you play ${scenario.role}. Stay in that role.
+Scenario: ${scenario.title} — ${scenario.description}
+Help the user practice these goals: ${scenario.goals.join('; ')}.
+Naturally give them chances to use this vocabulary: ${scenario.targetVocabulary.join(', ')}.
+${learner ? `
+${describeLearner(learner)}
+` : ''}
+The user's level is CEFR ${level} (${guide.label}).
+${guide.language}
+${guide.corrections}
+When you correct the user, do it gently and naturally (e.g., "Oh, did you mean...?") and then continue the conversation.
+Keep the tone light and fun.
+Speak clearly and at a moderate pace.${explanationLanguage === 'es' ? `
+${spanishExplanations(structuredCorrections)}` : ''}${structuredCorrections ? `
+
+${CORRECTIONS_INSTRUCTION}` : ''}`;
+}
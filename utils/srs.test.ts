@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createCard, isDue, normalizeTerm, scheduleReview, sentenceContaining } from './srs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 6, 9);
+
+const newCard = () => createCard({ term: '  Look forward to ', context: 'I look forward to it. ', source: 'saved', sessionId: null }, NOW);
+
+describe('createCard', () => {
+  it('keys the card by the normalized term and makes it due right away', () => {
+    const card = newCard();
+
+    expect(card.id).toBe('look forward to');
+    expect(card.term).toBe('Look forward to');
+    expect(card.context).toBe('I look forward to it.');
+    expect(card.dueAt).toBe(NOW);
+    expect(isDue(card, NOW)).toBe(true);
+  });
+
+  it('normalizes case, punctuation and spacing but keeps apostrophes', () => {
+    expect(normalizeTerm('  Don\'t   GIVE up!! ')).toBe("don't give up");
+  });
+});
+
+describe('scheduleReview', () => {
+  it('grows passed reviews 1 → 6 → interval × ease days', () => {
+    let card = newCard();
+    const intervals: number[] = [];
+    for (let review = 0; review < 4; review++) {
+      card = scheduleReview(card, 4, NOW);
+      intervals.push(card.intervalDays);
+    }
+
+    // Grade 4 leaves the ease at 2.5
+    expect(intervals).toEqual([1, 6, 15, 38]);
+    expect(card.easeFactor).toBe(2.5);
+    expect(card.repetitions).toBe(4);
+    expect(card.dueAt).toBe(NOW + 38 * DAY_MS);
+    expect(card.lastReviewedAt).toBe(NOW);
+  });
+
+  it('moves the ease with the recall quality', () => {
+    expect(scheduleReview(newCard(), 5, NOW).easeFactor).toBe(2.6);
+    expect(scheduleReview(newCard(), 3, NOW).easeFactor).toBe(2.36);
+  });
+
+  it('restarts a lapsed card at one day and lowers its ease', () => {
+    let card = newCard();
+    card = scheduleReview(card, 4, NOW);
+    card = scheduleReview(card, 4, NOW);
+    card = scheduleReview(card, 2, NOW);
+
+    expect(card.repetitions).toBe(0);
+    expect(card.intervalDays).toBe(1);
+    expect(card.easeFactor).toBe(2.18);
+
+    // The next pass starts over at one day
+    expect(scheduleReview(card, 4, NOW).intervalDays).toBe(1);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    const card = { ...newCard(), easeFactor: 1.4 };
+    expect(scheduleReview(card, 0, NOW).easeFactor).toBe(1.3);
+  });
+
+  it('is not due before its interval has passed', () => {
+    const card = scheduleReview(newCard(), 4, NOW);
+    expect(isDue(card, NOW + DAY_MS - 1)).toBe(false);
+    expect(isDue(card, NOW + DAY_MS)).toBe(true);
+  });
+});
+
+describe('sentenceContaining', () => {
+  it('finds the sentence with the term, ignoring case', () => {
+    expect(sentenceContaining('Hi there. I Look Forward to it! See you.', 'look forward')).toBe('I Look Forward to it!');
+  });
+
+  it('falls back to the whole text when no sentence contains the term', () => {
+    expect(sentenceContaining('First part. Second part.', 'part. Second')).toBe('First part. Second part.');
+  });
+});
@@ -0,0 +1,82 @@
+import { Correction, ReviewGrade, VocabularyCard, VocabularySource } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export interface CardDraft {
+  term: string;
+  context: string;
+  note?: string;
+  source: VocabularySource;
+  sessionId: string | null;
+}
+
+export const normalizeTerm = (term: string) =>
+  term.toLowerCase().replace(/[^\p{L}\p{N}' ]+/gu, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * New cards are due right away, so today's words show up in today's review.
+ */
+export function createCard(draft: CardDraft, now = Date.now()): VocabularyCard {
+  return {
+    id: normalizeTerm(draft.term),
+    term: draft.term.trim(),
+    context: draft.context.trim(),
+    note: draft.note?.trim() || undefined,
+    source: draft.source,
+    sessionId: draft.sessionId,
+    createdAt: now,
+    easeFactor: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    dueAt: now,
+    lastReviewedAt: null
+  };
+}
+
+/**
+ * SM-2: a lapse restarts the card at one day, a pass grows the interval
+ * 1 → 6 → interval × ease. The ease moves with the recall quality either way.
+ */
+export function scheduleReview(card: VocabularyCard, grade: ReviewGrade, now = Date.now()): VocabularyCard {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  let repetitions = card.repetitions + 1;
+  let intervalDays: number;
+  if (grade < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else if (card.repetitions === 0) {
+    intervalDays = 1;
+  } else if (card.repetitions === 1) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(card.intervalDays * card.easeFactor);
+  }
+
+  return {
+    ...card,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now
+  };
+}
+
+// Back of a card saved from a correction
+export const correctionNote = ({ original, corrected, explanation }: Correction) =>
+  `${original} → ${corrected}. ${explanation}`;
+
+export const isDue = (card: VocabularyCard, now = Date.now()) => card.dueAt <= now;
+
+/**
+ * The sentence of `text` that contains `term`, or the whole text when the
+ * term spans sentences.
+ */
+export function sentenceContaining(text: string, term: string): string {
+  const sentences = text.match(/[^.!?]+[.!?]*/g) ?? [text];
+  const needle = term.toLowerCase();
+  return (sentences.find(sentence => sentence.toLowerCase().includes(needle)) ?? text).trim();
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { readSseData, takeCompleteSentences } from './streamUtils';
+
+const sseResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }));
+};
+
+const collect = async (response: Response) => {
+  const data: string[] = [];
+  for await (const item of readSseData(response)) data.push(item);
+  return data;
+};
+
+describe('takeCompleteSentences', () => {
+  it('splits off sentences followed by whitespace and leaves the rest', () => {
+    const text = 'Hello there! How are you? I was';
+    const { sentences, consumed } = takeCompleteSentences(text);
+
+    expect(sentences).toEqual(['Hello there!', 'How are you?']);
+    expect(text.slice(consumed)).toBe('I was');
+  });
+
+  it('waits for whitespace, so a decimal point does not end a sentence', () => {
+    expect(takeCompleteSentences('It costs 3.').sentences).toEqual([]);
+    expect(takeCompleteSentences('It costs 3.5 dollars.').sentences).toEqual([]);
+  });
+
+  it('keeps closing quotes and brackets with their sentence', () => {
+    expect(takeCompleteSentences('She said "Hi!" (Really.) Then').sentences).toEqual(['She said "Hi!"', '(Really.)']);
+  });
+
+  it('groups repeated punctuation', () => {
+    expect(takeCompleteSentences('Wait... What?! Ok').sentences).toEqual(['Wait...', 'What?!']);
+  });
+});
+
+describe('readSseData', () => {
+  it('yields data lines across chunk boundaries and stops at [DONE]', async () => {
+    const response = sseResponse(['data: {"a":1}\n\nda', 'ta: {"b":2}\n', ': comment\n\ndata: [DONE]\n\ndata: {"late":true}\n']);
+    expect(await collect(response)).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('yields a final line that has no newline', async () => {
+    expect(await collect(sseResponse(['data: one\n', 'data: two']))).toEqual(['one', 'two']);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Reads a Server-Sent Events response body and yields the payload of each
+ * `data:` line. Stops at the OpenAI-style `[DONE]` sentinel or end of stream.
+ */
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      // Keep the last (possibly partial) line for the next chunk
+      buffer = lines.pop() ?? '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        if (data) yield data;
+      }
+    }
+
+    const tail = buffer.trim();
+    if (tail.startsWith('data:')) {
+      const data = tail.slice(5).trim();
+      if (data && data !== '[DONE]') yield data;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const SENTENCE_PATTERN = /[^.!?]*[.!?]+["')\]]*\s+/g;
+
+/**
+ * Splits off the complete sentences at the start of a streamed text.
+ * A sentence only counts as complete once whitespace follows its punctuation,
+ * so "3." in "3.5" is not cut early. Returns the sentences and how many
+ * characters they covered; the remainder is still being streamed.
+ */
+export function takeCompleteSentences(text: string): { sentences: string[]; consumed: number } {
+  const sentences: string[] = [];
+  let consumed = 0;
+
+  SENTENCE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_PATTERN.exec(text)) !== null) {
+    if (match.index !== consumed) break;
+    const sentence = match[0].trim();
+    if (sentence) sentences.push(sentence);
+    consumed = match.index + match[0].length;
+  }
+
+  return { sentences, consumed };
+}
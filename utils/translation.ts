@@ -0,0 +1,20 @@
+import { LlmProvider } from '../types';
+
+const TRANSLATION_INSTRUCTION = `Translate the user's English text into natural Latin American Spanish for a language learner.
+Keep the meaning and tone. Reply with the translation only, without quotes or notes.`;
+
+/**
+ * Translates one tutor message into Spanish with the chat model, so no
+ * separate translation API or key is needed.
+ */
+export async function translateToSpanish(provider: LlmProvider, text: string, signal?: AbortSignal): Promise<string> {
+  const translation = await provider.streamChat({
+    messages: [
+      { role: 'system', content: TRANSLATION_INSTRUCTION },
+      { role: 'user', content: text }
+    ],
+    temperature: 0.2,
+    signal
+  });
+  return translation.trim();
+}
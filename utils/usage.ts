@@ -0,0 +1,135 @@
+import { LlmProvider, ModelPrice, TokenUsage, UsagePurpose, UsageRecord, UsageSettings } from '../types';
+
+// List prices in USD per million tokens; schools on other plans override them in settings
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  mock: { input: 0, output: 0 }
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_PRICES,
+  warnAtUsd: 0.5,
+  capUsd: 1
+};
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Some requests used a model missing from the price table
+  hasUnpriced: boolean;
+}
+
+export interface DailyUsage extends UsageTotals {
+  // Local date, YYYY-MM-DD
+  day: string;
+}
+
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined): number | null =>
+  (price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000 : null);
+
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>((totals, record) => ({
+    requests: totals.requests + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    costUsd: totals.costUsd + (record.costUsd ?? 0),
+    hasUnpriced: totals.hasUnpriced || record.costUsd === null
+  }), { requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, hasUnpriced: false });
+}
+
+// Totals per local day, newest first
+export function dailyUsage(records: UsageRecord[]): DailyUsage[] {
+  const byDay = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const day = dayKey(record.timestamp);
+    byDay.set(day, [...(byDay.get(day) ?? []), record]);
+  }
+  return [...byDay.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([day, dayRecords]) => ({ day, ...sumUsage(dayRecords) }));
+}
+
+// Small amounts need more digits to be meaningful
+export const formatUsd = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per billed request, oldest first, for reconciling with the
+ * provider's invoice.
+ */
+export function usageToCsv(records: UsageRecord[]): string {
+  const header = ['date', 'time', 'session_id', 'provider', 'model', 'purpose', 'prompt_tokens', 'completion_tokens', 'total_tokens', 'cost_usd'];
+  const rows = [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(record => {
+      const date = new Date(record.timestamp);
+      return [
+        dayKey(record.timestamp),
+        date.toTimeString().slice(0, 8),
+        record.sessionId,
+        record.provider,
+        record.model,
+        record.purpose,
+        record.promptTokens,
+        record.completionTokens,
+        record.promptTokens + record.completionTokens,
+        record.costUsd === null ? null : record.costUsd.toFixed(6)
+      ].map(csvField).join(',');
+    });
+  return [header.join(','), ...rows].join('\n');
+}
+
+interface UsageTrackingOptions {
+  model: string;
+  purpose: UsagePurpose;
+  prices: Record<string, ModelPrice>;
+  // Read when the request completes, so summaries follow the active session
+  sessionId: () => string | null;
+  onRecord: (record: UsageRecord) => void;
+}
+
+/**
+ * Wraps a chat provider so every request that reports usage produces a
+ * record, without the callers knowing about billing.
+ */
+export function withUsageTracking(
+  provider: LlmProvider,
+  { model, purpose, prices, sessionId, onRecord }: UsageTrackingOptions
+): LlmProvider {
+  return {
+    id: provider.id,
+    streamChat: (request) => provider.streamChat({
+      ...request,
+      onUsage: (usage) => {
+        onRecord({
+          id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          timestamp: Date.now(),
+          sessionId: sessionId(),
+          provider: provider.id,
+          model,
+          purpose,
+          ...usage,
+          costUsd: estimateCost(usage, prices[model])
+        });
+        request.onUsage?.(usage);
+      }
+    })
+  };
+}
@@ -0,0 +1,40 @@
+// Runs on the audio rendering thread. Collects the microphone's 128-sample
+// render quanta into larger blocks and posts each one with its RMS level, so
+// the main thread handles a few messages a second instead of hundreds.
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.blockSize = options?.processorOptions?.blockSize ?? 4096;
+    this.block = new Float32Array(this.blockSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0]?.[0];
+    // No input yet (device still starting); keep the node alive
+    if (!channel) return true;
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.blockSize - this.filled);
+      this.block.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+
+      if (this.filled === this.blockSize) {
+        let sum = 0;
+        for (let i = 0; i < this.blockSize; i++) {
+          sum += this.block[i] * this.block[i];
+        }
+        const samples = this.block;
+        this.port.postMessage({ samples, rms: Math.sqrt(sum / this.blockSize) }, [samples.buffer]);
+        this.block = new Float32Array(this.blockSize);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);